@@ -5,21 +5,34 @@ import terser from "@rollup/plugin-terser";
 
 var rollup_config = [
   {
-    input: "src/index.ts",
+    // Entry points share chunks, so their classes stay identical
+    input: {
+      index: "src/index.ts",
+      node: "src/node/index.ts",
+      testing: "src/testing/index.ts",
+    },
+    // Only the Node-only entry point reads files
+    external: ["fs"],
     output: [
       {
-        file: "dist/index.esm.js",
+        dir: "dist",
+        entryFileNames: "[name].esm.js",
+        chunkFileNames: "chunks/[name]-[hash].esm.js",
         format: "esm",
         sourcemap: true,
       },
       {
-        file: "dist/index.cjs.js",
+        dir: "dist",
+        entryFileNames: "[name].cjs.js",
+        chunkFileNames: "chunks/[name]-[hash].cjs.js",
         format: "cjs",
         sourcemap: true,
         exports: "auto", // ensure CJS exports are correct
       },
       {
-        file: "./dist/index.mjs",
+        dir: "dist",
+        entryFileNames: "[name].mjs",
+        chunkFileNames: "chunks/[name]-[hash].mjs",
         format: "es",
         sourcemap: true,
       },
@@ -37,5 +50,22 @@ var rollup_config = [
       }),
     ],
   },
+  {
+    input: "src/cli/bin.ts",
+    output: {
+      file: "dist/cli.js",
+      format: "cjs",
+      banner: "#!/usr/bin/env node",
+      sourcemap: true,
+    },
+    plugins: [
+      nodeResolve({
+        preferBuiltins: true,
+      }),
+      commonjs(),
+      typescript(),
+      terser(),
+    ],
+  },
 ];
 export { rollup_config as default };
@@ -0,0 +1,172 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { LpEntrySnapshot, PnlQuote, Pool, PositionPnl } from "../types";
+import { SwapMath } from "../utils";
+import { InvalidParamsError } from "../errors";
+
+/**
+ * Utility class for impermanent loss and P&L of liquidity positions
+ * All methods are pure, they only need a position snapshot and a pool state.
+ */
+export class PositionMath {
+  /**
+   * Calculate the P&L of a position against the current pool state
+   * Fees are derived from the growth of sqrt(reserveX * reserveY) per LP token,
+   * which only swap fees increase while price moves leave it unchanged.
+   * @param snapshot Position snapshot taken at entry
+   * @param pool Current pool state
+   * @param quote Token the values are expressed in, defaults to token Y
+   * @returns Position P&L
+   * @throws {InvalidParamsError} If the snapshot or the pool is empty
+   */
+  public static calcPnl(
+    snapshot: LpEntrySnapshot,
+    pool: Pool,
+    quote: PnlQuote = "y"
+  ): PositionPnl {
+    this.assertSnapshot(snapshot);
+    const reserveX = BigNumber(pool.bal_x.toString());
+    const reserveY = BigNumber(pool.bal_y.toString());
+    const lpSupply = BigNumber(pool.lp_supply.toString());
+    if (reserveX.isZero() || reserveY.isZero() || lpSupply.isZero()) {
+      throw new InvalidParamsError("Pool has no liquidity");
+    }
+
+    const [amountX, amountY] = SwapMath.getRemoveLiquidityAmounts(
+      snapshot.lpAmount,
+      reserveX,
+      reserveY,
+      lpSupply
+    );
+    const entryLiquidityPerLp = snapshot.amountX
+      .multipliedBy(snapshot.amountY)
+      .sqrt()
+      .dividedBy(snapshot.lpAmount);
+    const liquidityPerLp = reserveX
+      .multipliedBy(reserveY)
+      .sqrt()
+      .dividedBy(lpSupply);
+
+    return this.toPnl(
+      snapshot,
+      reserveY.dividedBy(reserveX),
+      amountX,
+      amountY,
+      liquidityPerLp.dividedBy(entryLiquidityPerLp),
+      quote
+    );
+  }
+
+  /**
+   * Calculate the P&L of a position if the price moved from its entry price
+   * Reserves follow the constant product curve and no fees are earned, so the
+   * result is the pure impermanent loss of the scenario.
+   * @param snapshot Position snapshot taken at entry
+   * @param priceChange Relative change of the price of token X in token Y, 0.1 = +10%, -0.5 = -50%
+   * @param quote Token the values are expressed in, defaults to token Y
+   * @returns Position P&L in the scenario
+   * @throws {InvalidParamsError} If the snapshot is empty or the price change is -100% or lower
+   */
+  public static simulatePriceChange(
+    snapshot: LpEntrySnapshot,
+    priceChange: BigNumber | number,
+    quote: PnlQuote = "y"
+  ): PositionPnl {
+    this.assertSnapshot(snapshot);
+    const ratio = BigNumber(1).plus(priceChange);
+    if (ratio.lte(0)) {
+      throw new InvalidParamsError("Price change must be greater than -100%");
+    }
+
+    // A constant product position holds L / sqrt(p) of X and L * sqrt(p) of Y
+    const price = this.getEntryPrice(snapshot).multipliedBy(ratio);
+    const liquidity = snapshot.amountX.multipliedBy(snapshot.amountY).sqrt();
+    return this.toPnl(
+      snapshot,
+      price,
+      liquidity.dividedBy(price.sqrt()),
+      liquidity.multipliedBy(price.sqrt()),
+      BigNumber(1),
+      quote
+    );
+  }
+
+  /**
+   * Impermanent loss of a constant product position for a price ratio
+   * @param priceRatio Current price divided by the entry price
+   * @returns Loss versus holding as a fraction, zero or negative
+   */
+  public static getImpermanentLoss(priceRatio: BigNumber | number): BigNumber {
+    const ratio = BigNumber(priceRatio);
+    return ratio.sqrt().multipliedBy(2).dividedBy(ratio.plus(1)).minus(1);
+  }
+
+  /**
+   * Value a position against holding its deposit
+   * @param snapshot Position snapshot taken at entry
+   * @param price Price of token X in token Y
+   * @param amountX Token X the position would withdraw
+   * @param amountY Token Y the position would withdraw
+   * @param feeGrowth Growth of liquidity per LP token since entry
+   * @param quote Token the values are expressed in
+   * @returns Position P&L
+   */
+  private static toPnl(
+    snapshot: LpEntrySnapshot,
+    price: BigNumber,
+    amountX: BigNumber,
+    amountY: BigNumber,
+    feeGrowth: BigNumber,
+    quote: PnlQuote
+  ): PositionPnl {
+    const entryPrice = this.getEntryPrice(snapshot);
+    const positionValue = amountX.multipliedBy(price).plus(amountY);
+    const holdValue = snapshot.amountX
+      .multipliedBy(price)
+      .plus(snapshot.amountY);
+    const valueWithoutFees = positionValue.dividedBy(feeGrowth);
+    const impermanentLossValue = valueWithoutFees.minus(holdValue);
+
+    // Values are computed in token Y, token X values use the same price
+    const toQuote = (valueY: BigNumber) =>
+      quote === "y" ? valueY : valueY.dividedBy(price);
+    const entryValue =
+      quote === "y"
+        ? snapshot.amountX.multipliedBy(entryPrice).plus(snapshot.amountY)
+        : snapshot.amountY.dividedBy(entryPrice).plus(snapshot.amountX);
+    return {
+      quote,
+      price,
+      amountX,
+      amountY,
+      positionValue: toQuote(positionValue),
+      holdValue: toQuote(holdValue),
+      entryValue,
+      feesEarned: toQuote(positionValue.minus(valueWithoutFees)),
+      impermanentLoss: impermanentLossValue.dividedBy(holdValue),
+      impermanentLossValue: toQuote(impermanentLossValue),
+      netPnl: toQuote(positionValue.minus(holdValue)),
+      entryPnl: toQuote(positionValue).minus(entryValue),
+    };
+  }
+
+  private static getEntryPrice(snapshot: LpEntrySnapshot): BigNumber {
+    return snapshot.reserveY.dividedBy(snapshot.reserveX);
+  }
+
+  private static assertSnapshot(snapshot: LpEntrySnapshot): void {
+    if (
+      snapshot.amountX.lte(0) ||
+      snapshot.amountY.lte(0) ||
+      snapshot.lpAmount.lte(0) ||
+      snapshot.reserveX.lte(0) ||
+      snapshot.reserveY.lte(0)
+    ) {
+      throw new InvalidParamsError(
+        "Snapshot amounts and reserves must be greater than 0"
+      );
+    }
+  }
+}
@@ -0,0 +1,8 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { runCli } from "./cli";
+
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,168 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { parseArgs } from "util";
+import { Keypair } from "@mysten/sui/cryptography";
+import {
+  initDipCoinSDK,
+  InitDipCoinSDKOptions,
+  isDipCoinNetwork,
+} from "../config";
+import { InvalidParamsError, toDipCoinError } from "../errors";
+import { loadNetworkConfig } from "../node";
+import { formatError } from "../utils";
+import { CLI_COMMANDS, CliContext, CliValues } from "./commands";
+import { loadKeypair } from "./keys";
+import { CliIO, processIO, toJson } from "./output";
+
+const CLI_OPTIONS = {
+  network: { type: "string" },
+  rpc: { type: "string" },
+  config: { type: "string" },
+  keystore: { type: "string" },
+  address: { type: "string" },
+  json: { type: "boolean" },
+  "dry-run": { type: "boolean" },
+  yes: { type: "boolean", short: "y" },
+  raw: { type: "boolean" },
+  slippage: { type: "string" },
+  pool: { type: "string" },
+  token: { type: "string" },
+  in: { type: "string" },
+  out: { type: "string" },
+  amount: { type: "string" },
+  "amount-out": { type: "string" },
+  x: { type: "string" },
+  y: { type: "string" },
+  "amount-x": { type: "string" },
+  "amount-y": { type: "string" },
+  lp: { type: "string" },
+  coin: { type: "string" },
+  to: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+export const CLI_USAGE = `Usage: dipcoin <command> [options]
+
+Commands:
+  pools [--token <type>]                        List registered pools
+  pool <id>                                     Show a pool
+  quote --in <type> --out <type> --amount <n>   Quote a swap, --amount-out <n> for an exact output
+  swap --in <type> --out <type> --amount <n>    Swap, --amount-out <n> for an exact output
+  add-liquidity --x <type> --y <type> --amount-x <n> --amount-y <n>
+  remove-liquidity --x <type> --y <type> --lp <base units>
+  positions [address]                           List liquidity positions
+  transfer --coin <type> --amount <n> --to <address>
+
+Options:
+  --network <name>     mainnet, testnet, devnet, localnet or custom (default: mainnet)
+  --rpc <url>          Custom RPC endpoint
+  --config <path>      JSON network config file
+  --pool <id>          Pool ID, looked up from the token types if omitted
+  --slippage <pct>     Slippage tolerance in percent (default: 5)
+  --keystore <path>    Sui keystore (default: ~/.sui/sui_config/sui.keystore)
+  --address <address>  Keystore key to sign with (default: active address)
+  --raw                Amounts are in base units instead of coin decimals
+  --dry-run            Simulate transactions without signing
+  --json               Print machine-readable JSON
+  -y, --yes            Do not ask for confirmation before signing
+  -h, --help           Show this help
+
+Network settings are also read from DIPCOIN_* environment variables, and the
+signing key from DIPCOIN_PRIVATE_KEY before the keystore.`;
+
+/**
+ * Run the dipcoin CLI
+ * @param argv Arguments after the executable, e.g. process.argv.slice(2)
+ * @param io Input and output, the process streams by default
+ * @param options SDK options overriding the command line, e.g. a client for tests
+ * @returns Process exit code
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = processIO,
+  options: Partial<InitDipCoinSDKOptions> = {}
+): Promise<number> {
+  let json = argv.includes("--json");
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: CLI_OPTIONS,
+      allowPositionals: true,
+      strict: true,
+    });
+    json = !!values.json;
+    const [name, ...args] = positionals;
+    if (values.help || !name) {
+      io.print(CLI_USAGE);
+      return values.help ? 0 : 1;
+    }
+    const command = Object.prototype.hasOwnProperty.call(CLI_COMMANDS, name)
+      ? CLI_COMMANDS[name]
+      : undefined;
+    if (!command) {
+      throw new InvalidParamsError(
+        `Unknown command ${name}, run dipcoin --help`
+      );
+    }
+    if (values.network !== undefined && !isDipCoinNetwork(values.network)) {
+      throw new InvalidParamsError(`Unknown network ${values.network}`);
+    }
+
+    // Flags win over environment variables, which win over the config file
+    const config = loadNetworkConfig({ configFile: values.config, env: true });
+    const sdk = initDipCoinSDK({
+      ...config,
+      network: values.network || config.network,
+      suiRpc: values.rpc || config.suiRpc,
+      ...options,
+    });
+    let keypair: Keypair | undefined;
+    const context: CliContext = {
+      sdk,
+      client: sdk.suiClient,
+      io,
+      values: values as CliValues,
+      getKeypair: () =>
+        (keypair ||= loadKeypair({
+          keystore: values.keystore,
+          address: values.address,
+        })),
+    };
+    await warnIfPackageOutdated(context);
+    return await command(context, args);
+  } catch (error) {
+    if (json) {
+      io.print(
+        toJson({
+          status: false,
+          error: formatError(error),
+          errorCode: toDipCoinError(error).code,
+        })
+      );
+    } else {
+      io.error(`Error: ${formatError(error)}`);
+    }
+    return 1;
+  }
+}
+
+/**
+ * Warn when the configured packages do not match the deployment on chain
+ * A failed check is not reported, e.g. when the node no longer serves the
+ * publish transaction the UpgradeCap is found from.
+ * @param context CLI context
+ */
+async function warnIfPackageOutdated(context: CliContext): Promise<void> {
+  const { data } = await context.sdk.checkPackageUpgrade();
+  if (data?.isStale) {
+    context.io.error(
+      `Warning: package ${data.packageId} was upgraded, set packageId to ${data.latestPackageId} (version ${data.latestPackageVersion})`
+    );
+  }
+  if (data?.isOriginalMismatch) {
+    context.io.error(
+      `Warning: originalPackageId ${context.sdk.originalPackageId} is not the package that defined the Global config, set it to ${data.originalPackageId} or LP types and events will not be found`
+    );
+  }
+}
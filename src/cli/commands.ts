@@ -0,0 +1,479 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { SuiClient } from "@mysten/sui/client";
+import { Keypair } from "@mysten/sui/cryptography";
+import { normalizeStructTag, parseStructTag } from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+import { DipCoinSDK } from "../sdk";
+import { ExecuteOptions, SwapParams, TxResponse } from "../types";
+import { DipCoinError, InvalidParamsError } from "../errors";
+import { formatError, fromBaseUnits, toBaseUnits } from "../utils";
+import { CliIO, formatRows, toJson } from "./output";
+
+/**
+ * Option values parsed from the command line
+ */
+export interface CliValues {
+  json?: boolean;
+  "dry-run"?: boolean;
+  yes?: boolean;
+  raw?: boolean;
+  slippage?: string;
+  address?: string;
+  pool?: string;
+  token?: string;
+  in?: string;
+  out?: string;
+  amount?: string;
+  "amount-out"?: string;
+  x?: string;
+  y?: string;
+  "amount-x"?: string;
+  "amount-y"?: string;
+  lp?: string;
+  coin?: string;
+  to?: string;
+}
+
+/**
+ * State shared by the commands of one CLI run
+ */
+export interface CliContext {
+  sdk: DipCoinSDK;
+  /** Client of the SDK, shared so an injected client serves every request */
+  client: SuiClient;
+  io: CliIO;
+  values: CliValues;
+  /** Load the signing key, only called by commands that need it */
+  getKeypair(): Keypair;
+}
+
+/**
+ * Command handler, resolves to the process exit code
+ */
+export type CliCommand = (
+  context: CliContext,
+  args: string[]
+) => Promise<number>;
+
+/**
+ * Subcommands of the dipcoin CLI
+ */
+export const CLI_COMMANDS: Record<string, CliCommand> = {
+  pools: listPools,
+  pool: showPool,
+  quote: (context) => swap(context, false),
+  swap: (context) => swap(context, true),
+  "add-liquidity": addLiquidity,
+  "remove-liquidity": removeLiquidity,
+  positions: showPositions,
+  transfer,
+};
+
+async function listPools(context: CliContext): Promise<number> {
+  const response = await context.sdk.listPools(context.values.token);
+  const { pools, skipped } = unwrap(response);
+  if (context.values.json) {
+    context.io.print(toJson({ pools, skipped }));
+    return 0;
+  }
+  for (const entry of skipped) {
+    context.io.error(
+      `Skipped ${entry.lpName || entry.entryId}: ${entry.error}`
+    );
+  }
+  if (pools.length === 0) {
+    context.io.print("No pools found");
+  }
+  for (const pool of pools) {
+    context.io.print(
+      `${pool.poolAddress}  ${getSymbol(pool.typeX)}/${getSymbol(
+        pool.typeY
+      )}  reserves ${await formatAmount(
+        context,
+        pool.typeX,
+        pool.bal_x
+      )} / ${await formatAmount(context, pool.typeY, pool.bal_y)}  fee ${
+        Number(pool.fee_rate) / 100
+      }%`
+    );
+  }
+  return 0;
+}
+
+async function showPool(context: CliContext, args: string[]): Promise<number> {
+  const poolId = args[0] || context.values.pool;
+  if (!poolId) {
+    throw new InvalidParamsError("Usage: dipcoin pool <id>");
+  }
+  const pool = unwrap(await context.sdk.getPool(poolId));
+  const object = await context.client.getObject({
+    id: poolId,
+    options: { showType: true },
+  });
+  const [typeX, typeY] = object.data?.type
+    ? parseStructTag(object.data.type).typeParams.map((type) =>
+        normalizeStructTag(type)
+      )
+    : [];
+  if (context.values.json) {
+    context.io.print(toJson({ ...pool, typeX, typeY }));
+    return 0;
+  }
+  printRows(context, [
+    ["Pool", pool.id],
+    ["Token X", typeX],
+    ["Token Y", typeY],
+    ["Reserve X", await formatAmount(context, typeX, pool.bal_x)],
+    ["Reserve Y", await formatAmount(context, typeY, pool.bal_y)],
+    ["LP supply", pool.lp_supply.toString()],
+    ["Fee rate", `${Number(pool.fee_rate) / 100}%`],
+    ["Protocol fee X", await formatAmount(context, typeX, pool.fee_bal_x)],
+    ["Protocol fee Y", await formatAmount(context, typeY, pool.fee_bal_y)],
+  ]);
+  return 0;
+}
+
+/**
+ * Quote a swap, and execute it if requested
+ * --amount swaps an exact input, --amount-out buys an exact output.
+ */
+async function swap(context: CliContext, execute: boolean): Promise<number> {
+  const { values } = context;
+  const typeIn = requireType(values, "in");
+  const typeOut = requireType(values, "out");
+  if (!values.amount === !values["amount-out"]) {
+    throw new InvalidParamsError("Pass either --amount or --amount-out");
+  }
+  const isExactIn = !!values.amount;
+  const params: SwapParams = {
+    pooId: values.pool || (await context.sdk.getPoolId(typeIn, typeOut)),
+    typeX: typeIn,
+    typeY: typeOut,
+    slippage: getSlippage(values),
+  };
+  if (isExactIn) {
+    params.amountIn = toBaseUnits(
+      requireValue(values, "amount"),
+      await requireDecimals(context, typeIn),
+      "--amount"
+    );
+  } else {
+    params.amountOut = toBaseUnits(
+      requireValue(values, "amount-out"),
+      await requireDecimals(context, typeOut),
+      "--amount-out"
+    );
+  }
+
+  const quote = unwrap(
+    isExactIn
+      ? await context.sdk.quoteExactIn(params)
+      : await context.sdk.quoteExactOut(params)
+  );
+  const rows: [string, unknown][] = [
+    ["Pool", params.pooId],
+    ["Amount in", await formatAmount(context, typeIn, quote.amountIn)],
+    ["Amount out", await formatAmount(context, typeOut, quote.amountOut)],
+    [
+      "Minimum out",
+      quote.amountOutMin &&
+        (await formatAmount(context, typeOut, quote.amountOutMin)),
+    ],
+    [
+      "Maximum in",
+      quote.amountInMax &&
+        (await formatAmount(context, typeIn, quote.amountInMax)),
+    ],
+    [
+      "Fee",
+      await formatAmount(context, typeIn, quote.lpFee.plus(quote.protocolFee)),
+    ],
+    ["Price impact", `${quote.priceImpact.multipliedBy(100).toFixed(4)}%`],
+  ];
+  if (!execute) {
+    if (values.json) {
+      context.io.print(toJson({ poolId: params.pooId, ...quote }));
+    } else {
+      printRows(context, rows);
+    }
+    return 0;
+  }
+
+  return executeTx(context, rows, (keypair, options) =>
+    isExactIn
+      ? context.sdk.swapExactXToY(keypair, params, options)
+      : context.sdk.swapXToExactY(keypair, params, options)
+  );
+}
+
+async function addLiquidity(context: CliContext): Promise<number> {
+  const { values } = context;
+  const typeX = requireType(values, "x");
+  const typeY = requireType(values, "y");
+  const params = {
+    pooId: values.pool || (await context.sdk.getPoolId(typeX, typeY)),
+    typeX,
+    typeY,
+    amountX: toBaseUnits(
+      requireValue(values, "amount-x"),
+      await requireDecimals(context, typeX),
+      "--amount-x"
+    ),
+    amountY: toBaseUnits(
+      requireValue(values, "amount-y"),
+      await requireDecimals(context, typeY),
+      "--amount-y"
+    ),
+    slippage: getSlippage(values),
+  };
+  return executeTx(
+    context,
+    [
+      ["Pool", params.pooId],
+      ["Amount X", await formatAmount(context, typeX, params.amountX)],
+      ["Amount Y", await formatAmount(context, typeY, params.amountY)],
+    ],
+    (keypair, options) => context.sdk.addLiquidity(keypair, params, options)
+  );
+}
+
+async function removeLiquidity(context: CliContext): Promise<number> {
+  const { values } = context;
+  const typeX = requireType(values, "x");
+  const typeY = requireType(values, "y");
+  // LP coins have no coin metadata, so LP amounts are always in base units
+  const params = {
+    pooId: values.pool || (await context.sdk.getPoolId(typeX, typeY)),
+    typeX,
+    typeY,
+    removeLpAmount: toBaseUnits(requireValue(values, "lp"), 0, "--lp"),
+    slippage: getSlippage(values),
+  };
+  return executeTx(
+    context,
+    [
+      ["Pool", params.pooId],
+      ["LP amount", params.removeLpAmount.toFixed()],
+    ],
+    (keypair, options) => context.sdk.removeLiquidity(keypair, params, options)
+  );
+}
+
+async function showPositions(
+  context: CliContext,
+  args: string[]
+): Promise<number> {
+  const owner =
+    args[0] ||
+    context.values.address ||
+    context.getKeypair().getPublicKey().toSuiAddress();
+  const positions = unwrap(await context.sdk.getLpPositions(owner));
+  if (context.values.json) {
+    context.io.print(toJson(positions));
+    return 0;
+  }
+  if (positions.length === 0) {
+    context.io.print(`No positions found for ${owner}`);
+  }
+  for (const position of positions) {
+    context.io.print(
+      `${position.poolId}  ${getSymbol(position.typeX)}/${getSymbol(
+        position.typeY
+      )}  LP ${position.lpBalance.toFixed()}  share ${position.share
+        .multipliedBy(100)
+        .toFixed(4)}%  ${await formatAmount(
+        context,
+        position.typeX,
+        position.amountX
+      )} + ${await formatAmount(context, position.typeY, position.amountY)}`
+    );
+  }
+  return 0;
+}
+
+async function transfer(context: CliContext): Promise<number> {
+  const { values } = context;
+  const coinType = requireType(values, "coin");
+  const params = {
+    to: requireValue(values, "to"),
+    coinType,
+    amount: toBaseUnits(
+      requireValue(values, "amount"),
+      await requireDecimals(context, coinType),
+      "--amount"
+    ),
+  };
+  return executeTx(
+    context,
+    [
+      ["To", params.to],
+      ["Amount", await formatAmount(context, coinType, params.amount)],
+    ],
+    (keypair, options) => context.sdk.transfer(keypair, params, options)
+  );
+}
+
+/**
+ * Show a transaction summary, ask for confirmation and execute or simulate it
+ * @returns 0 if the transaction succeeded, 1 otherwise
+ */
+async function executeTx(
+  context: CliContext,
+  summary: [string, unknown][],
+  run: (keypair: Keypair, options: ExecuteOptions) => Promise<TxResponse>
+): Promise<number> {
+  const { io, values } = context;
+  const keypair = context.getKeypair();
+  const dryRun = !!values["dry-run"];
+  if (!values.json) {
+    printRows(context, [
+      ["Sender", keypair.getPublicKey().toSuiAddress()],
+      ...summary,
+    ]);
+  }
+  if (!dryRun && !values.yes) {
+    if (!(await io.confirm("Sign and execute this transaction?"))) {
+      io.error("Aborted");
+      return 1;
+    }
+  }
+
+  const response = await run(keypair, { dryRun, waitForFinality: !dryRun });
+  if (values.json) {
+    io.print(toJson(response));
+  } else {
+    const simulation = response.simulation;
+    printRows(context, [
+      ["Status", response.status ? "success" : "failed"],
+      ["Digest", response.txId || undefined],
+      ["Error", response.error || simulation?.error],
+      [
+        "Gas",
+        (simulation?.gasEstimate || response.gasUsed) &&
+          `${fromBaseUnits(
+            (simulation?.gasEstimate || response.gasUsed) as BigNumber,
+            9
+          )} SUI`,
+      ],
+      ["Checkpoint", response.checkpoint],
+    ]);
+    for (const change of simulation?.balanceChanges ||
+      response.balanceChanges ||
+      []) {
+      io.print(
+        `  ${change.owner}  ${getSymbol(change.coinType)}  ${await formatAmount(
+          context,
+          change.coinType,
+          change.amount
+        )}`
+      );
+    }
+  }
+  return response.status ? 0 : 1;
+}
+
+/**
+ * Decimals of a coin from its metadata, 0 with --raw
+ * @returns Decimals, or null if the coin has no metadata
+ */
+async function getDecimals(
+  context: CliContext,
+  coinType: string
+): Promise<number | null> {
+  if (context.values.raw) {
+    return 0;
+  }
+  const response = await context.sdk.getCoinInfo(coinType);
+  return response.data ? response.data.decimals : null;
+}
+
+async function requireDecimals(
+  context: CliContext,
+  coinType: string
+): Promise<number> {
+  const decimals = await getDecimals(context, coinType);
+  if (decimals === null) {
+    throw new InvalidParamsError(
+      `No coin metadata for ${coinType}, pass --raw to use base units`
+    );
+  }
+  return decimals;
+}
+
+/**
+ * Format an amount in base units with the coin decimals and symbol
+ * Amounts of coins without metadata are shown in base units.
+ */
+async function formatAmount(
+  context: CliContext,
+  coinType: string | undefined,
+  amount: BigNumber | bigint
+): Promise<string> {
+  const decimals = coinType ? await getDecimals(context, coinType) : null;
+  return decimals === null
+    ? amount.toString()
+    : fromBaseUnits(amount, decimals);
+}
+
+function getSymbol(coinType: string): string {
+  return parseStructTag(coinType).name;
+}
+
+function getSlippage(values: CliValues): number | undefined {
+  if (values.slippage === undefined) {
+    return undefined;
+  }
+  const percent = Number(values.slippage);
+  if (!Number.isFinite(percent) || percent <= 0 || percent >= 100) {
+    throw new InvalidParamsError(
+      `--slippage must be a percentage between 0 and 100, got ${values.slippage}`
+    );
+  }
+  return percent / 100;
+}
+
+function requireValue(values: CliValues, name: keyof CliValues): string {
+  const value = values[name];
+  if (typeof value !== "string" || value === "") {
+    throw new InvalidParamsError(`Missing --${name}`);
+  }
+  return value;
+}
+
+/**
+ * Read a coin type option in the canonical long form the SDK expects
+ */
+function requireType(values: CliValues, name: keyof CliValues): string {
+  const value = requireValue(values, name);
+  try {
+    return normalizeStructTag(value);
+  } catch (error) {
+    throw new InvalidParamsError(
+      `--${name} is not a coin type: ${formatError(error)}`
+    );
+  }
+}
+
+function printRows(context: CliContext, rows: [string, unknown][]): void {
+  formatRows(rows).forEach((line) => context.io.print(line));
+}
+
+/**
+ * Return the data of a successful response or throw its error
+ */
+function unwrap<T>(response: {
+  status: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: DipCoinError["code"];
+}): T {
+  if (!response.status || response.data === undefined) {
+    throw new DipCoinError(
+      response.error || "Request failed",
+      response.errorCode
+    );
+  }
+  return response.data;
+}
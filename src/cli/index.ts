@@ -0,0 +1,7 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+export * from "./cli";
+export * from "./commands";
+export * from "./keys";
+export * from "./output";
@@ -0,0 +1,157 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import {
+  decodeSuiPrivateKey,
+  Keypair,
+  SIGNATURE_FLAG_TO_SCHEME,
+  SignatureFlag,
+  SignatureScheme,
+} from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { fromBase64, normalizeSuiAddress } from "@mysten/sui/utils";
+import { InvalidParamsError } from "../errors";
+import { formatError } from "../utils";
+
+/**
+ * Environment variable holding a private key, takes precedence over the keystore
+ */
+export const PRIVATE_KEY_ENV = "DIPCOIN_PRIVATE_KEY";
+
+/**
+ * Default keystore of the Sui CLI
+ */
+export const DEFAULT_KEYSTORE_PATH = join(
+  homedir(),
+  ".sui",
+  "sui_config",
+  "sui.keystore"
+);
+
+/**
+ * Options for loading the signing key
+ */
+export interface LoadKeypairOptions {
+  /** Keystore path, defaults to the Sui CLI keystore */
+  keystore?: string;
+  /** Address of the keystore key to use, defaults to the active address of the Sui CLI */
+  address?: string;
+  /** Environment to read the private key from */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Load the signing key from DIPCOIN_PRIVATE_KEY or a Sui keystore
+ * The environment variable holds a suiprivkey bech32 key or a base64 keystore
+ * entry. Keystore keys are picked by address, then by the active address in the
+ * client.yaml next to the keystore, then the first key is used.
+ * @param options Key source options
+ * @returns Keypair
+ * @throws {InvalidParamsError} If no key is found or a key cannot be decoded
+ */
+export function loadKeypair(options: LoadKeypairOptions = {}): Keypair {
+  const env = options.env || process.env;
+  const secret = env[PRIVATE_KEY_ENV];
+  if (secret) {
+    const keypair = decodeKey(secret, PRIVATE_KEY_ENV);
+    assertAddress(keypair, options.address, PRIVATE_KEY_ENV);
+    return keypair;
+  }
+
+  const keystore = options.keystore || DEFAULT_KEYSTORE_PATH;
+  let entries: unknown;
+  try {
+    entries = JSON.parse(readFileSync(keystore, "utf8"));
+  } catch (error) {
+    throw new InvalidParamsError(
+      `No key found, set ${PRIVATE_KEY_ENV} or pass --keystore: failed to read ${keystore}: ${formatError(
+        error
+      )}`
+    );
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new InvalidParamsError(`Keystore ${keystore} holds no keys`);
+  }
+
+  const keypairs = entries.map((entry) => decodeKey(String(entry), keystore));
+  const address = options.address || getActiveAddress(keystore);
+  if (!address) {
+    return keypairs[0];
+  }
+  const keypair = keypairs.find(
+    (candidate) =>
+      candidate.getPublicKey().toSuiAddress() === normalizeSuiAddress(address)
+  );
+  if (!keypair) {
+    throw new InvalidParamsError(
+      `Keystore ${keystore} holds no key for ${address}`
+    );
+  }
+  return keypair;
+}
+
+/**
+ * Decode a suiprivkey bech32 key or a base64 flag || secret keystore entry
+ */
+function decodeKey(value: string, source: string): Keypair {
+  let schema: SignatureScheme;
+  let secretKey: Uint8Array;
+  try {
+    if (value.startsWith("suiprivkey")) {
+      ({ schema, secretKey } = decodeSuiPrivateKey(value));
+    } else {
+      const bytes = fromBase64(value);
+      schema = SIGNATURE_FLAG_TO_SCHEME[bytes[0] as SignatureFlag];
+      secretKey = bytes.slice(1);
+    }
+  } catch (error) {
+    throw new InvalidParamsError(
+      `Invalid private key in ${source}: ${formatError(error)}`
+    );
+  }
+
+  switch (schema) {
+    case "ED25519":
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case "Secp256k1":
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case "Secp256r1":
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+    default:
+      throw new InvalidParamsError(
+        `Unsupported key scheme ${schema} in ${source}`
+      );
+  }
+}
+
+/**
+ * Read the active address from the client.yaml of the Sui CLI
+ */
+function getActiveAddress(keystore: string): string | undefined {
+  const config = join(dirname(keystore), "client.yaml");
+  if (!existsSync(config)) {
+    return undefined;
+  }
+  const match = /^active_address:\s*"?(0x[0-9a-fA-F]+)"?/m.exec(
+    readFileSync(config, "utf8")
+  );
+  return match?.[1];
+}
+
+function assertAddress(
+  keypair: Keypair,
+  address: string | undefined,
+  source: string
+): void {
+  if (
+    address &&
+    keypair.getPublicKey().toSuiAddress() !== normalizeSuiAddress(address)
+  ) {
+    throw new InvalidParamsError(`Key in ${source} is not for ${address}`);
+  }
+}
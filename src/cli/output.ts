@@ -0,0 +1,68 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { createInterface } from "readline";
+import { InvalidParamsError } from "../errors";
+
+/**
+ * Input and output of the CLI, replaced in tests
+ */
+export interface CliIO {
+  /** Write a line of command output */
+  print(line: string): void;
+  /** Write a line of diagnostics */
+  error(line: string): void;
+  /** Ask a yes/no question, false if the answer is not yes */
+  confirm(question: string): Promise<boolean>;
+}
+
+/**
+ * CLI input and output on the process streams
+ */
+export const processIO: CliIO = {
+  print: (line) => process.stdout.write(`${line}\n`),
+  error: (line) => process.stderr.write(`${line}\n`),
+  confirm: async (question) => {
+    if (!process.stdin.isTTY) {
+      throw new InvalidParamsError(
+        "Confirmation required but stdin is not a terminal, pass --yes"
+      );
+    }
+    const readline = createInterface({
+      input: process.stdin,
+      output: process.stderr,
+    });
+    try {
+      const answer = await new Promise<string>((resolve) =>
+        readline.question(`${question} [y/N] `, resolve)
+      );
+      return /^y(es)?$/i.test(answer.trim());
+    } finally {
+      readline.close();
+    }
+  },
+};
+
+/**
+ * Serialize a command result as JSON, amounts become decimal strings
+ * @param value Command result
+ * @returns Indented JSON
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_, item) => (typeof item === "bigint" ? item.toString() : item),
+    2
+  );
+}
+
+/**
+ * Format rows of label and value as aligned lines
+ * @param rows Tuples of [label, value], rows without a value are skipped
+ * @returns Lines
+ */
+export function formatRows(rows: [string, unknown][]): string[] {
+  const shown = rows.filter(([, value]) => value !== undefined);
+  const width = Math.max(0, ...shown.map(([label]) => label.length));
+  return shown.map(([label, value]) => `${label.padEnd(width)}  ${value}`);
+}
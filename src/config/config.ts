@@ -2,26 +2,73 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { DipCoinSDK } from "../sdk";
-import { initMainnetSDK } from "./mainnet";
-import { initTestnetSDK } from "./testnet";
+import { DipCoinSDKOptions } from "../types";
+import { getNetworkProfile } from "./networks";
+
+/**
+ * Network names with a built-in profile
+ */
+export type DipCoinNetwork =
+  | "mainnet"
+  | "testnet"
+  | "devnet"
+  | "localnet"
+  | "custom";
+
+/**
+ * RPC endpoint and DEX object IDs of a network
+ */
+export type DipCoinNetworkProfile = Pick<
+  DipCoinSDKOptions,
+  "suiRpc" | "packageId" | "originalPackageId" | "globalId" | "registedPoolsId"
+>;
+
+/**
+ * Network name and profile values, e.g. loaded from a JSON file or the environment
+ */
+export interface DipCoinNetworkConfig extends Partial<DipCoinNetworkProfile> {
+  /** Network whose profile the values override */
+  network?: DipCoinNetwork;
+}
 
 /**
  * Options for initializing DipCoin SDK
+ * Explicit profile values win over the built-in profile of the network. Files
+ * and environment variables are read with loadNetworkConfig from the Node-only
+ * entry point.
  */
-export interface InitDipCoinSDKOptions {
-  /** Network type, either mainnet or testnet */
-  network: "mainnet" | "testnet";
-  /** Optional custom RPC endpoint */
+export interface InitDipCoinSDKOptions
+  extends DipCoinNetworkConfig,
+    Omit<DipCoinSDKOptions, keyof DipCoinNetworkProfile> {
+  /** Optional custom RPC endpoint, same as suiRpc */
   customRpc?: string;
 }
 
 /**
  * Initialize DipCoin SDK
- * @param options Configuration options
+ * @param options Configuration options, the network defaults to mainnet
+ * @throws {InvalidParamsError} If the config is invalid or incomplete
+ *
+ * @example
+ * const sdk = initDipCoinSDK({ network: "testnet" });
  */
 export function initDipCoinSDK(options: InitDipCoinSDKOptions): DipCoinSDK {
-  const { network, customRpc } = options;
-  return network === "mainnet"
-    ? initMainnetSDK(customRpc)
-    : initTestnetSDK(customRpc);
+  const {
+    network,
+    customRpc,
+    suiRpc,
+    packageId,
+    originalPackageId,
+    globalId,
+    registedPoolsId,
+    ...sdkOptions
+  } = options;
+  const profile = getNetworkProfile(network || "mainnet", {
+    suiRpc: suiRpc || customRpc,
+    packageId,
+    originalPackageId,
+    globalId,
+    registedPoolsId,
+  });
+  return new DipCoinSDK({ ...sdkOptions, ...profile });
 }
@@ -3,4 +3,5 @@
 
 export * from "./mainnet";
 export * from "./testnet";
+export * from "./networks";
 export * from "./config";
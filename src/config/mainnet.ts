@@ -2,10 +2,10 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { getFullnodeUrl } from "@mysten/sui/client";
-import { DipCoinSDKOptions } from "../types";
+import { DipCoinNetworkProfile } from "./config";
 import { DipCoinSDK } from "../sdk";
 
-export const dipCoinMainnet: DipCoinSDKOptions = {
+export const dipCoinMainnet: Readonly<DipCoinNetworkProfile> = Object.freeze({
   suiRpc: getFullnodeUrl("mainnet"), // Default Sui mainnet public fullnode URL
   // TODO: Using testnet config temporarily since mainnet contracts are not deployed yet.
   // Will update to mainnet configuration once deployed.
@@ -15,7 +15,7 @@ export const dipCoinMainnet: DipCoinSDKOptions = {
     "0x935229a3c32399e9fb207ec8461a54f56c6af5744c64442435ac217ab28f0d59",
   registedPoolsId:
     "0x55c65b7b67b0ccdf28e13b3b6d204e859dd19556603e3b94137a19306a7254d8",
-};
+});
 
 /**
  * Initialize DipCoin SDK for mainnet
@@ -23,9 +23,9 @@ export const dipCoinMainnet: DipCoinSDKOptions = {
  * @returns Initialized DipCoin SDK instance configured for mainnet
  */
 export function initMainnetSDK(customRpc?: string): DipCoinSDK {
-  if (customRpc) {
-    dipCoinMainnet.suiRpc = customRpc;
-  }
-  const sdk = new DipCoinSDK(dipCoinMainnet);
+  const sdk = new DipCoinSDK({
+    ...dipCoinMainnet,
+    suiRpc: customRpc || dipCoinMainnet.suiRpc,
+  });
   return sdk;
 }
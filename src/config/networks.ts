@@ -0,0 +1,94 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { getFullnodeUrl } from "@mysten/sui/client";
+import { isValidSuiAddress } from "@mysten/sui/utils";
+import { InvalidParamsError } from "../errors";
+import { DipCoinNetwork, DipCoinNetworkProfile } from "./config";
+import { dipCoinMainnet } from "./mainnet";
+import { dipCoinTestnet } from "./testnet";
+
+const PROFILE_KEYS: (keyof DipCoinNetworkProfile)[] = [
+  "suiRpc",
+  "packageId",
+  "globalId",
+  "registedPoolsId",
+];
+
+/**
+ * Built-in network profiles
+ * DipCoin is not deployed on devnet and localnet, so their profiles only hold
+ * the public RPC URL and the object IDs must be provided when initializing.
+ */
+export const DIPCOIN_NETWORKS: Readonly<
+  Record<DipCoinNetwork, Readonly<Partial<DipCoinNetworkProfile>>>
+> = Object.freeze({
+  mainnet: dipCoinMainnet,
+  testnet: dipCoinTestnet,
+  devnet: Object.freeze({ suiRpc: getFullnodeUrl("devnet") }),
+  localnet: Object.freeze({ suiRpc: getFullnodeUrl("localnet") }),
+  custom: Object.freeze({}),
+});
+
+/**
+ * Check whether a value is a known network name
+ * @param network Value to check
+ */
+export function isDipCoinNetwork(network: unknown): network is DipCoinNetwork {
+  return (
+    typeof network === "string" &&
+    Object.prototype.hasOwnProperty.call(DIPCOIN_NETWORKS, network)
+  );
+}
+
+/**
+ * Resolve a network profile with per-instance overrides
+ * @param network Network name
+ * @param overrides Values replacing the ones of the built-in profile, undefined values are ignored
+ * @returns Frozen network profile
+ * @throws {InvalidParamsError} If the network is unknown, a value is missing or an ID is not a valid address
+ */
+export function getNetworkProfile(
+  network: DipCoinNetwork,
+  overrides: Partial<DipCoinNetworkProfile> = {}
+): Readonly<DipCoinNetworkProfile> {
+  if (!isDipCoinNetwork(network)) {
+    throw new InvalidParamsError(
+      `Unknown network ${network}, expected one of ${Object.keys(
+        DIPCOIN_NETWORKS
+      ).join(", ")}`
+    );
+  }
+
+  const profile: Partial<DipCoinNetworkProfile> = {
+    ...DIPCOIN_NETWORKS[network],
+  };
+  for (const key of [...PROFILE_KEYS, "originalPackageId"] as const) {
+    if (overrides[key] !== undefined) {
+      profile[key] = overrides[key];
+    }
+  }
+
+  const missing = PROFILE_KEYS.filter((key) => !profile[key]);
+  if (missing.length > 0) {
+    throw new InvalidParamsError(
+      `Network ${network} requires ${missing.join(", ")}`
+    );
+  }
+  for (const key of [
+    "packageId",
+    "originalPackageId",
+    "globalId",
+    "registedPoolsId",
+  ] as const) {
+    if (
+      profile[key] !== undefined &&
+      !isValidSuiAddress(profile[key] as string)
+    ) {
+      throw new InvalidParamsError(
+        `${key} of network ${network} is not a valid address: ${profile[key]}`
+      );
+    }
+  }
+  return Object.freeze(profile as DipCoinNetworkProfile);
+}
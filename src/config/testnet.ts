@@ -3,9 +3,9 @@
 
 import { getFullnodeUrl } from "@mysten/sui/client";
 import { DipCoinSDK } from "../sdk";
-import { DipCoinSDKOptions } from "../types";
+import { DipCoinNetworkProfile } from "./config";
 
-export const dipCoinTestnet: DipCoinSDKOptions = {
+export const dipCoinTestnet: Readonly<DipCoinNetworkProfile> = Object.freeze({
   suiRpc: getFullnodeUrl("testnet"), //default is sui public fullnode url
   packageId:
     "0x3f52d00499d65dd41602c1cd190cf6771b401ae328d46a172473a7f47be6f83f",
@@ -13,7 +13,7 @@ export const dipCoinTestnet: DipCoinSDKOptions = {
     "0xe3d52d484e158f164a8650cfd5c8406b545f7e724f70ad40f3747dd6dc39b3c5",
   registedPoolsId:
     "0x52523bbaac35485a1e79c9b46f6b8f53e98ebc17b317695622cb37dbbab46b67",
-};
+});
 
 /**
  * Initialize a new DipCoin SDK instance configured for testnet
@@ -22,9 +22,9 @@ export const dipCoinTestnet: DipCoinSDKOptions = {
  * @returns A configured DipCoinSDK instance ready to interact with the testnet
  */
 export function initTestnetSDK(customRpc?: string): DipCoinSDK {
-  if (customRpc) {
-    dipCoinTestnet.suiRpc = customRpc;
-  }
-  const sdk = new DipCoinSDK(dipCoinTestnet);
+  const sdk = new DipCoinSDK({
+    ...dipCoinTestnet,
+    suiRpc: customRpc || dipCoinTestnet.suiRpc,
+  });
   return sdk;
 }
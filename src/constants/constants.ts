@@ -10,3 +10,35 @@ export const SWAP_X_TO_EXACT_Y = "swap_x_to_exact_y";
 export const SWAP_Y_TO_EXACT_X = "swap_y_to_exact_x";
 export const COIN_TYPE_SUI =
   "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI";
+// Capability created with every published package, it tracks the latest upgrade
+export const UPGRADE_CAP_TYPE =
+  "0x0000000000000000000000000000000000000000000000000000000000000002::package::UpgradeCap";
+// LP amount locked forever in a pool when its first liquidity is added
+export const MINIMUM_LIQUIDITY = 1000;
+// Swap fee rates are expressed in basis points of this scale
+export const FEE_RATE_SCALE = 10000;
+// Upper bound accepted by the contract for a pool fee rate (20%)
+export const MAX_FEE_RATE = 2000;
+// Maximum number of object IDs accepted by a single multiGetObjects request
+export const MULTI_GET_OBJECTS_LIMIT = 50;
+// Event struct names emitted by the manage module
+export const EVENT_SWAP = "SwapEvent";
+export const EVENT_ADD_LIQUIDITY = "AddLiquidityEvent";
+export const EVENT_REMOVE_LIQUIDITY = "RemoveLiquidityEvent";
+// Maximum number of coin objects merged into one input, keeps mergeCoins under the 512 argument limit
+export const MAX_COIN_INPUTS = 500;
+export const DEFAULT_COIN_SELECTION_STRATEGY = "largest-first";
+// Largest value of a Move u64
+export const MAX_U64 = BigInt("18446744073709551615");
+// Default time to live of cached pool state
+export const DEFAULT_POOL_CACHE_TTL_MS = 2000;
+// Pool subscription polling defaults
+export const DEFAULT_POLL_INTERVAL_MS = 1000;
+export const MAX_POLL_BACKOFF_MS = 30000;
+export const EVENT_PAGE_LIMIT = 50;
+// Pool analytics windows
+export const DEFAULT_STATS_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+export const STATS_MAX_EVENT_PAGES = 20;
+// min_add_liquidity_lp_amount of pools created by the in-memory engine
+export const DEFAULT_MIN_ADD_LIQUIDITY_LP_AMOUNT = 1000;
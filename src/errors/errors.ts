@@ -0,0 +1,168 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { normalizeSuiAddress, SUI_FRAMEWORK_ADDRESS } from "@mysten/sui/utils";
+import { MoveAbort } from "../types";
+import { formatError, parseMoveAbort } from "../utils/error_message";
+
+/**
+ * Stable error codes for branching on SDK failures
+ */
+export enum DipCoinErrorCode {
+  InvalidParams = "INVALID_PARAMS",
+  InsufficientBalance = "INSUFFICIENT_BALANCE",
+  SlippageExceeded = "SLIPPAGE_EXCEEDED",
+  PoolNotFound = "POOL_NOT_FOUND",
+  PoolAlreadyExists = "POOL_ALREADY_EXISTS",
+  ProtocolPaused = "PROTOCOL_PAUSED",
+  LiquidityTooLow = "LIQUIDITY_TOO_LOW",
+  NoRoute = "NO_ROUTE",
+  MoveAbort = "MOVE_ABORT",
+  Unknown = "UNKNOWN",
+}
+
+/**
+ * Abort codes raised by Sui framework modules, keyed by 0x2::module
+ * The DEX modules do not publish their abort codes, so their aborts surface as
+ * MoveAbort with the decoded module, function and code on DipCoinError.abort.
+ * The SDK checks a paused protocol and the slippage limits of multi-step
+ * operations before building their transactions instead.
+ */
+const MOVE_ABORT_CODES: Record<string, Record<number, DipCoinErrorCode>> = {
+  // sui-framework/sources/balance.move
+  "0x2::balance": {
+    2: DipCoinErrorCode.InsufficientBalance, // ENotEnough
+  },
+};
+
+/**
+ * Base class of every error thrown by the SDK
+ */
+export class DipCoinError extends Error {
+  /** Stable error code */
+  public readonly code: DipCoinErrorCode;
+  /** Decoded Move abort if the error comes from an aborted transaction */
+  public readonly abort?: MoveAbort;
+
+  constructor(
+    message: string,
+    code: DipCoinErrorCode = DipCoinErrorCode.Unknown,
+    abort?: MoveAbort
+  ) {
+    super(message);
+    this.name = "DipCoinError";
+    this.code = code;
+    this.abort = abort;
+  }
+}
+
+export class InvalidParamsError extends DipCoinError {
+  constructor(message: string, abort?: MoveAbort) {
+    super(message, DipCoinErrorCode.InvalidParams, abort);
+    this.name = "InvalidParamsError";
+  }
+}
+
+export class InsufficientBalanceError extends DipCoinError {
+  constructor(message: string, abort?: MoveAbort) {
+    super(message, DipCoinErrorCode.InsufficientBalance, abort);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+export class SlippageExceededError extends DipCoinError {
+  constructor(message: string, abort?: MoveAbort) {
+    super(message, DipCoinErrorCode.SlippageExceeded, abort);
+    this.name = "SlippageExceededError";
+  }
+}
+
+export class PoolNotFoundError extends DipCoinError {
+  constructor(message = "Pool not found", abort?: MoveAbort) {
+    super(message, DipCoinErrorCode.PoolNotFound, abort);
+    this.name = "PoolNotFoundError";
+  }
+}
+
+export class PoolAlreadyExistsError extends DipCoinError {
+  constructor(message: string, abort?: MoveAbort) {
+    super(message, DipCoinErrorCode.PoolAlreadyExists, abort);
+    this.name = "PoolAlreadyExistsError";
+  }
+}
+
+export class ProtocolPausedError extends DipCoinError {
+  constructor(message = "Protocol is paused", abort?: MoveAbort) {
+    super(message, DipCoinErrorCode.ProtocolPaused, abort);
+    this.name = "ProtocolPausedError";
+  }
+}
+
+export class LiquidityTooLowError extends DipCoinError {
+  constructor(message: string, abort?: MoveAbort) {
+    super(message, DipCoinErrorCode.LiquidityTooLow, abort);
+    this.name = "LiquidityTooLowError";
+  }
+}
+
+export class NoRouteError extends DipCoinError {
+  constructor(message: string, abort?: MoveAbort) {
+    super(message, DipCoinErrorCode.NoRoute, abort);
+    this.name = "NoRouteError";
+  }
+}
+
+const ERROR_CLASSES: Partial<
+  Record<
+    DipCoinErrorCode,
+    new (message: string, abort?: MoveAbort) => DipCoinError
+  >
+> = {
+  [DipCoinErrorCode.InvalidParams]: InvalidParamsError,
+  [DipCoinErrorCode.InsufficientBalance]: InsufficientBalanceError,
+  [DipCoinErrorCode.SlippageExceeded]: SlippageExceededError,
+  [DipCoinErrorCode.PoolNotFound]: PoolNotFoundError,
+  [DipCoinErrorCode.PoolAlreadyExists]: PoolAlreadyExistsError,
+  [DipCoinErrorCode.ProtocolPaused]: ProtocolPausedError,
+  [DipCoinErrorCode.LiquidityTooLow]: LiquidityTooLowError,
+  [DipCoinErrorCode.NoRoute]: NoRouteError,
+};
+
+/**
+ * Map a Move abort to its SDK error code
+ * @param abort Decoded Move abort
+ * @returns Error code, MoveAbort if the abort is not raised by a known framework abort code
+ */
+export function getMoveAbortErrorCode(abort: MoveAbort): DipCoinErrorCode {
+  if (abort.packageId !== normalizeSuiAddress(SUI_FRAMEWORK_ADDRESS)) {
+    return DipCoinErrorCode.MoveAbort;
+  }
+  return (
+    MOVE_ABORT_CODES[`0x2::${abort.module}`]?.[abort.code] ||
+    DipCoinErrorCode.MoveAbort
+  );
+}
+
+/**
+ * Convert any thrown value into a typed DipCoinError
+ * Move aborts found in the error message are mapped to their error codes.
+ * @param error Error object to convert
+ * @returns The error itself if it is already a DipCoinError, otherwise a new typed error
+ */
+export function toDipCoinError(error: unknown): DipCoinError {
+  if (error instanceof DipCoinError) {
+    return error;
+  }
+
+  const message = formatError(error);
+  const abort = parseMoveAbort(message);
+  if (!abort) {
+    return new DipCoinError(message);
+  }
+
+  const code = getMoveAbortErrorCode(abort);
+  const ErrorClass = ERROR_CLASSES[code];
+  return ErrorClass
+    ? new ErrorClass(message, abort)
+    : new DipCoinError(message, code, abort);
+}
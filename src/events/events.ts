@@ -0,0 +1,177 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { SuiEvent } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+import { DipCoinEvent, DipCoinEventBase } from "../types";
+import {
+  EVENT_ADD_LIQUIDITY,
+  EVENT_REMOVE_LIQUIDITY,
+  EVENT_SWAP,
+} from "../constants";
+
+/**
+ * Raw event fields emitted by the manage module
+ */
+interface RawPoolEvent {
+  pool_id: string;
+  bal_x: string;
+  bal_y: string;
+}
+
+interface RawSwapEvent extends RawPoolEvent {
+  coin_x_in: string;
+  coin_y_in: string;
+  coin_x_out: string;
+  coin_y_out: string;
+}
+
+interface RawLiquidityEvent extends RawPoolEvent {
+  coin_x_amount: string;
+  coin_y_amount: string;
+  lp_amount: string;
+}
+
+const POOL_EVENT_FIELDS = ["bal_x", "bal_y"];
+const LIQUIDITY_EVENT_FIELDS = [
+  ...POOL_EVENT_FIELDS,
+  "coin_x_amount",
+  "coin_y_amount",
+  "lp_amount",
+];
+
+/**
+ * u64 fields of each event emitted by the manage module, keyed by event name
+ */
+const U64_EVENT_FIELDS: Record<string, string[]> = {
+  [EVENT_SWAP]: [
+    ...POOL_EVENT_FIELDS,
+    "coin_x_in",
+    "coin_y_in",
+    "coin_x_out",
+    "coin_y_out",
+  ],
+  [EVENT_ADD_LIQUIDITY]: LIQUIDITY_EVENT_FIELDS,
+  [EVENT_REMOVE_LIQUIDITY]: LIQUIDITY_EVENT_FIELDS,
+};
+
+/**
+ * Checks that raw event fields have the shape of a pool event
+ * @param fields Parsed JSON of the event
+ * @param u64Fields Fields that must hold a u64 as a decimal string
+ * @returns True if pool_id is an address and every u64 field is a decimal string
+ */
+function isPoolEvent(
+  fields: unknown,
+  u64Fields: string[]
+): fields is RawPoolEvent {
+  if (!fields || typeof fields !== "object") {
+    return false;
+  }
+  const record = fields as Record<string, unknown>;
+  return (
+    typeof record.pool_id === "string" &&
+    /^0x[0-9a-fA-F]+$/.test(record.pool_id) &&
+    u64Fields.every(
+      (field) =>
+        typeof record[field] === "string" &&
+        /^\d+$/.test(record[field] as string)
+    )
+  );
+}
+
+/**
+ * Parses DipCoin events out of a transaction response
+ * Events from other packages are skipped, so transactions that mix DipCoin
+ * calls with other protocols can be decoded as well.
+ *
+ * @param txEffects Transaction response fetched with showEvents, or its events
+ * @param packageId Original (type-origin) DEX package ID, only events of this package are parsed
+ * @returns Parsed DipCoin events in emission order
+ */
+export function parseDipCoinEvents(
+  txEffects: { events?: SuiEvent[] | null } | SuiEvent[],
+  packageId: string
+): DipCoinEvent[] {
+  const events = Array.isArray(txEffects) ? txEffects : txEffects.events || [];
+  const parsed: DipCoinEvent[] = [];
+  for (const event of events) {
+    const dipCoinEvent = parseDipCoinEvent(event, packageId);
+    if (dipCoinEvent) {
+      parsed.push(dipCoinEvent);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Parses a single DipCoin event
+ * @param event Raw Sui event
+ * @param packageId Original (type-origin) DEX package ID, events of other packages return null
+ * @returns Parsed event or null if it is not a DipCoin event or its fields are malformed
+ */
+export function parseDipCoinEvent(
+  event: SuiEvent,
+  packageId: string
+): DipCoinEvent | null {
+  const match = /^(0x[0-9a-fA-F]+)::manage::(\w+)(<.*>)?$/.exec(event.type);
+  if (
+    !match ||
+    normalizeSuiAddress(match[1]) !== normalizeSuiAddress(packageId)
+  ) {
+    return null;
+  }
+
+  const u64Fields = U64_EVENT_FIELDS[match[2]];
+  const fields = event.parsedJson;
+  if (!u64Fields || !isPoolEvent(fields, u64Fields)) {
+    return null;
+  }
+
+  const base: DipCoinEventBase = {
+    poolId: normalizeSuiAddress(fields.pool_id),
+    sender: event.sender,
+    txId: event.id.txDigest,
+    eventSeq: event.id.eventSeq,
+    timestampMs: event.timestampMs ? Number(event.timestampMs) : undefined,
+    reserveX: BigNumber(fields.bal_x),
+    reserveY: BigNumber(fields.bal_y),
+  };
+
+  switch (match[2]) {
+    case EVENT_SWAP: {
+      const swap = fields as RawSwapEvent;
+      return {
+        ...base,
+        type: "swap",
+        amountXIn: BigNumber(swap.coin_x_in),
+        amountYIn: BigNumber(swap.coin_y_in),
+        amountXOut: BigNumber(swap.coin_x_out),
+        amountYOut: BigNumber(swap.coin_y_out),
+      };
+    }
+    case EVENT_ADD_LIQUIDITY: {
+      const liquidity = fields as RawLiquidityEvent;
+      return {
+        ...base,
+        type: "addLiquidity",
+        amountX: BigNumber(liquidity.coin_x_amount),
+        amountY: BigNumber(liquidity.coin_y_amount),
+        lpAmount: BigNumber(liquidity.lp_amount),
+      };
+    }
+    case EVENT_REMOVE_LIQUIDITY: {
+      const liquidity = fields as RawLiquidityEvent;
+      return {
+        ...base,
+        type: "removeLiquidity",
+        amountX: BigNumber(liquidity.coin_x_amount),
+        amountY: BigNumber(liquidity.coin_y_amount),
+        lpAmount: BigNumber(liquidity.lp_amount),
+      };
+    }
+    default:
+      return null;
+  }
+}
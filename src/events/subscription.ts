@@ -0,0 +1,176 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { EventId, SuiClient } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { Pool, PoolEventHandler, SubscribeOptions } from "../types";
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  EVENT_PAGE_LIMIT,
+  MAX_POLL_BACKOFF_MS,
+} from "../constants";
+import { parseDipCoinEvents } from "./events";
+
+/**
+ * Polling subscription to DipCoin pool events
+ * Events are queried in ascending order from a cursor, so no event is skipped
+ * while the subscription runs and it can be resumed from a saved cursor.
+ * Failed polls are retried with exponential backoff without moving the cursor.
+ */
+export class PoolEventSubscription {
+  private cursor: EventId | null = null;
+  private initialized = false;
+  private stopped = false;
+  private failures = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly poolId?: string;
+
+  /**
+   * @param client SuiClient instance
+   * @param packageId DEX package ID whose events are polled
+   * @param fetchPools Loads the latest state of pools, in request order
+   * @param handler Handler called for every event
+   * @param options Subscription options
+   * @param poolId Only deliver events of this pool, every pool if omitted
+   */
+  constructor(
+    private readonly client: SuiClient,
+    private readonly packageId: string,
+    private readonly fetchPools: (
+      poolIds: string[]
+    ) => Promise<(Pool | null)[]>,
+    private readonly handler: PoolEventHandler,
+    private readonly options: SubscribeOptions = {},
+    poolId?: string
+  ) {
+    this.poolId = poolId ? normalizeSuiAddress(poolId) : undefined;
+    if (options.cursor !== undefined) {
+      this.cursor = options.cursor;
+      this.initialized = true;
+    }
+  }
+
+  /**
+   * Cursor of the last processed event, save it to resume later
+   */
+  get currentCursor(): EventId | null {
+    return this.cursor;
+  }
+
+  /**
+   * Whether the subscription is still polling
+   */
+  get active(): boolean {
+    return !this.stopped;
+  }
+
+  /**
+   * Start polling
+   */
+  public start(): void {
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling, a poll in progress finishes its current page
+   */
+  public unsubscribe(): void {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      if (!this.initialized) {
+        this.cursor = await this.getLatestCursor();
+        this.initialized = true;
+      }
+
+      let hasNextPage = true;
+      while (hasNextPage && !this.stopped) {
+        hasNextPage = await this.pollPage();
+      }
+      this.failures = 0;
+    } catch (error) {
+      this.failures++;
+      this.options.onError?.(error);
+    }
+
+    const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.schedule(
+      this.failures
+        ? Math.min(
+            interval * 2 ** this.failures,
+            this.options.maxBackoffMs ?? MAX_POLL_BACKOFF_MS
+          )
+        : interval
+    );
+  }
+
+  /**
+   * Query one page of events after the cursor and deliver it
+   * @returns Whether more events are available
+   */
+  private async pollPage(): Promise<boolean> {
+    const page = await this.client.queryEvents({
+      query: { MoveEventModule: { package: this.packageId, module: "manage" } },
+      cursor: this.cursor,
+      limit: EVENT_PAGE_LIMIT,
+      order: "ascending",
+    });
+
+    const events = parseDipCoinEvents(page.data, this.packageId).filter(
+      (event) => !this.poolId || event.poolId === this.poolId
+    );
+
+    // Load every pool of the page at once, a failure retries the whole page
+    const poolIds = [...new Set(events.map((event) => event.poolId))];
+    const pools = new Map<string, Pool | null>();
+    if (poolIds.length > 0) {
+      const states = await this.fetchPools(poolIds);
+      poolIds.forEach((poolId, index) => pools.set(poolId, states[index]));
+    }
+
+    for (const event of events) {
+      if (this.stopped) {
+        return false;
+      }
+      const cursor = { txDigest: event.txId, eventSeq: event.eventSeq };
+      try {
+        await this.handler({
+          event,
+          pool: pools.get(event.poolId) ?? null,
+          cursor,
+        });
+      } catch (error) {
+        this.options.onError?.(error);
+      }
+      this.cursor = cursor;
+    }
+
+    if (page.nextCursor) {
+      this.cursor = page.nextCursor;
+    }
+    return page.hasNextPage;
+  }
+
+  /**
+   * Get the cursor of the newest event so only later events are delivered
+   * @returns Newest event cursor, null if no event was emitted yet
+   */
+  private async getLatestCursor(): Promise<EventId | null> {
+    const page = await this.client.queryEvents({
+      query: { MoveEventModule: { package: this.packageId, module: "manage" } },
+      limit: 1,
+      order: "descending",
+    });
+    return page.data[0]?.id ?? null;
+  }
+}
@@ -4,3 +4,7 @@
 export * from "./sdk";
 export * from "./types";
 export * from "./config";
+export * from "./errors";
+export * from "./events";
+export * from "./signer";
+export * from "./analytics";
@@ -0,0 +1,129 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { readFileSync } from "fs";
+import { InvalidParamsError } from "../errors";
+import { formatError } from "../utils";
+import { DipCoinNetworkConfig, isDipCoinNetwork } from "../config";
+
+/**
+ * Environment variables read by loadNetworkConfigEnv
+ */
+export const DIPCOIN_ENV_KEYS = {
+  network: "DIPCOIN_NETWORK",
+  suiRpc: "DIPCOIN_SUI_RPC",
+  packageId: "DIPCOIN_PACKAGE_ID",
+  originalPackageId: "DIPCOIN_ORIGINAL_PACKAGE_ID",
+  globalId: "DIPCOIN_GLOBAL_ID",
+  registedPoolsId: "DIPCOIN_REGISTERED_POOLS_ID",
+} as const;
+
+const PROFILE_KEYS = [
+  "suiRpc",
+  "packageId",
+  "originalPackageId",
+  "globalId",
+  "registedPoolsId",
+] as const;
+
+/**
+ * Load a network config from a JSON file
+ * The file holds an object with any of network, suiRpc, packageId,
+ * originalPackageId, globalId and registedPoolsId, other keys are ignored.
+ * @param path Path of the JSON file
+ * @returns Network config
+ * @throws {InvalidParamsError} If the file cannot be read or holds invalid values
+ *
+ * @example
+ * // dipcoin.json: { "network": "custom", "suiRpc": "http://127.0.0.1:9000", "packageId": "0x..." }
+ * const config = loadNetworkConfigFile("./dipcoin.json");
+ */
+export function loadNetworkConfigFile(path: string): DipCoinNetworkConfig {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new InvalidParamsError(
+      `Failed to load config file ${path}: ${formatError(error)}`
+    );
+  }
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new InvalidParamsError(`Config file ${path} must hold a JSON object`);
+  }
+  return toNetworkConfig(config as Record<string, unknown>, path);
+}
+
+/**
+ * Load a network config from environment variables, see DIPCOIN_ENV_KEYS
+ * @param env Environment to read, defaults to process.env
+ * @returns Network config, empty values are ignored
+ * @throws {InvalidParamsError} If DIPCOIN_NETWORK is not a known network
+ */
+export function loadNetworkConfigEnv(
+  env: Record<string, string | undefined> = typeof process !== "undefined"
+    ? process.env
+    : {}
+): DipCoinNetworkConfig {
+  const config: Record<string, unknown> = {};
+  for (const [key, name] of Object.entries(DIPCOIN_ENV_KEYS)) {
+    config[key] = env[name];
+  }
+  return toNetworkConfig(config, "environment variables");
+}
+
+/**
+ * Load a network config from a JSON file and the environment
+ * Environment variables win over the file, spread the result into the options
+ * of initDipCoinSDK before any explicit option.
+ * @param options Config file path and environment to read
+ * @returns Network config
+ * @throws {InvalidParamsError} If the file or the environment holds invalid values
+ *
+ * @example
+ * const sdk = initDipCoinSDK({
+ *   ...loadNetworkConfig({ configFile: "./dipcoin.json", env: true }),
+ * });
+ */
+export function loadNetworkConfig(options: {
+  /** Path of a JSON file holding a network config */
+  configFile?: string;
+  /** Read DIPCOIN_* environment variables, from process.env if true */
+  env?: boolean | Record<string, string | undefined>;
+}): DipCoinNetworkConfig {
+  const { configFile, env } = options;
+  return {
+    ...(configFile ? loadNetworkConfigFile(configFile) : {}),
+    ...(env ? loadNetworkConfigEnv(env === true ? undefined : env) : {}),
+  };
+}
+
+/**
+ * Pick the network name and profile values of a config, dropping unknown keys
+ * @param config Parsed config
+ * @param source Description of the config used in error messages
+ */
+function toNetworkConfig(
+  config: Record<string, unknown>,
+  source: string
+): DipCoinNetworkConfig {
+  const result: DipCoinNetworkConfig = {};
+  if (config.network !== undefined && config.network !== "") {
+    if (!isDipCoinNetwork(config.network)) {
+      throw new InvalidParamsError(
+        `Unknown network ${config.network} in ${source}`
+      );
+    }
+    result.network = config.network;
+  }
+  for (const key of PROFILE_KEYS) {
+    const value = config[key];
+    if (value === undefined || value === "") {
+      continue;
+    }
+    if (typeof value !== "string") {
+      throw new InvalidParamsError(`${key} in ${source} must be a string`);
+    }
+    result[key] = value;
+  }
+  return result;
+}
@@ -0,0 +1,332 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  coinWithBalance,
+  Transaction,
+  TransactionObjectArgument,
+} from "@mysten/sui/transactions";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+import {
+  BuildTxOptions,
+  ComposeAddLiquidityParams,
+  ComposeRemoveLiquidityParams,
+  ComposeSwapExactInParams,
+  ComposeSwapExactOutParams,
+  U64Amount,
+} from "../types";
+import {
+  getAllCoins,
+  getLpType,
+  orderType,
+  parseU64,
+  selectCoins,
+  toU64,
+} from "../utils";
+import {
+  COIN_TYPE_SUI,
+  DEFAULT_COIN_SELECTION_STRATEGY,
+  MAX_COIN_INPUTS,
+  SWAP_EXACT_X_TO_Y,
+  SWAP_EXACT_Y_TO_X,
+  SWAP_X_TO_EXACT_Y,
+  SWAP_Y_TO_EXACT_X,
+} from "../constants";
+import { InsufficientBalanceError, toDipCoinError } from "../errors";
+import type { DipCoinSDK } from "./sdk";
+import { getTakenCoinIds } from "./tx_coins";
+
+/**
+ * Wallet coins of one type taken by a transaction
+ */
+interface TxCoins {
+  /** Wallet coin the taken coins are merged into, amounts are split from it */
+  primaryCoin: TransactionObjectArgument;
+  /** Object IDs of the taken wallet coins */
+  coinIds: Set<string>;
+  /** Total balance of the taken wallet coins */
+  balance: BigNumber;
+  /** Amount split from the primary coin so far */
+  spent: BigNumber;
+}
+
+// Shared by all composers of a transaction, so amounts are split from one merged coin per type
+const txCoins = new WeakMap<Transaction, Map<string, TxCoins>>();
+
+/**
+ * Appends DipCoin operations to a caller-supplied transaction
+ * Operations take coin handles split from the sender's wallet, and several
+ * operations execute atomically in one programmable transaction block. Router
+ * functions are entry functions that send the coins they produce to the
+ * sender, so the output of one operation cannot be the input of another
+ * operation in the same transaction.
+ */
+export class DipCoinTxComposer {
+  /**
+   * @param sdk SDK providing the package configuration and wallet coins
+   * @param tx Transaction the operations are appended to
+   * @param sender Address whose coins are split by coin and lpCoin
+   * @param options Build options, set sponsored when a sponsor pays the gas
+   */
+  constructor(
+    private readonly sdk: DipCoinSDK,
+    public readonly tx: Transaction,
+    public readonly sender: string,
+    private readonly options: BuildTxOptions = {}
+  ) {
+    tx.setSenderIfNotSet(sender);
+  }
+
+  /**
+   * Split a coin of an amount from the sender's balance
+   * Wallet coins of a type are merged once per transaction and every amount is
+   * split from the merged coin, so await each call before the next one. SUI is
+   * taken from the gas coin unless the transaction is sponsored.
+   * @param type The coin type (format: packageId::module::struct)
+   * @param amount The amount to split
+   * @returns {Promise<TransactionObjectArgument>} Coin handle
+   */
+  public async coin(
+    type: string,
+    amount: U64Amount
+  ): Promise<TransactionObjectArgument> {
+    try {
+      const splitAmount = parseU64(amount);
+      const coinType = normalizeStructTag(type);
+      if (coinType !== COIN_TYPE_SUI) {
+        const coins = await this.takeCoins(coinType, splitAmount);
+        const [coin] = this.tx.splitCoins(coins.primaryCoin, [
+          this.tx.pure.u64(toU64(splitAmount)),
+        ]);
+        coins.spent = coins.spent.plus(splitAmount);
+        return coin;
+      }
+      return this.tx.add(
+        coinWithBalance({
+          balance: toU64(splitAmount),
+          type: COIN_TYPE_SUI,
+          useGasCoin: !this.options.sponsored,
+        })
+      );
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Split an LP coin of an amount from the sender's balance
+   * @param typeX Token X type of the pool
+   * @param typeY Token Y type of the pool
+   * @param amount The amount of LP tokens to split
+   * @returns {Promise<TransactionObjectArgument>} LP coin handle
+   */
+  public async lpCoin(
+    typeX: string,
+    typeY: string,
+    amount: U64Amount
+  ): Promise<TransactionObjectArgument> {
+    const [, , lpType] = getLpType(this.sdk.originalPackageId, typeX, typeY);
+    return this.coin(lpType, amount);
+  }
+
+  /**
+   * Take wallet coins into the transaction until an amount more can be split
+   * @param coinType Normalized coin type
+   * @param amount The amount about to be split
+   * @returns Wallet coins of the type taken by the transaction
+   */
+  private async takeCoins(
+    coinType: string,
+    amount: BigNumber
+  ): Promise<TxCoins> {
+    let coinsByType = txCoins.get(this.tx);
+    if (!coinsByType) {
+      coinsByType = new Map();
+      txCoins.set(this.tx, coinsByType);
+    }
+    const coins = coinsByType.get(coinType);
+    const missing = coins
+      ? coins.spent.plus(amount).minus(coins.balance)
+      : amount;
+    if (coins && missing.lte(0)) {
+      return coins;
+    }
+
+    // Coins taken by other composers or by the SDK's coin splitting are skipped
+    const takenCoinIds = getTakenCoinIds(this.tx);
+    const taken = coins?.coinIds || new Set<string>();
+    const available = (
+      await getAllCoins(this.sdk.suiClient, this.sender, coinType)
+    ).filter((coin) => !takenCoinIds.has(coin.coinObjectId));
+    const selectedCoins = selectCoins(
+      available,
+      missing,
+      this.sdk.optionsField.coinSelectionStrategy ||
+        DEFAULT_COIN_SELECTION_STRATEGY,
+      MAX_COIN_INPUTS - taken.size
+    );
+    if (!selectedCoins) {
+      throw new InsufficientBalanceError(
+        `${coinType} balance is not enough to split ${amount} more in this transaction`
+      );
+    }
+
+    for (const coin of selectedCoins) {
+      takenCoinIds.add(coin.coinObjectId);
+    }
+
+    // The first coin taken by the transaction stays the primary coin
+    const [firstCoin, ...otherCoins] = selectedCoins.map((coin) =>
+      this.tx.object(coin.coinObjectId)
+    );
+    const primaryCoin = coins?.primaryCoin || firstCoin;
+    const mergedCoins = coins ? [firstCoin, ...otherCoins] : otherCoins;
+    if (mergedCoins.length > 0) {
+      this.tx.mergeCoins(primaryCoin, mergedCoins);
+    }
+
+    const next: TxCoins = {
+      primaryCoin,
+      coinIds: new Set([
+        ...taken,
+        ...selectedCoins.map((coin) => coin.coinObjectId),
+      ]),
+      balance: selectedCoins.reduce(
+        (total, coin) => total.plus(coin.balance),
+        coins?.balance || BigNumber(0)
+      ),
+      spent: coins?.spent || BigNumber(0),
+    };
+    coinsByType.set(coinType, next);
+    return next;
+  }
+
+  /**
+   * Swap an entire coin of token X for token Y
+   * The bought coin is sent to the sender.
+   * @param params Swap parameters, typeX is the input and typeY the output token
+   */
+  public swapExactIn(params: ComposeSwapExactInParams): void {
+    try {
+      const [sortedTypeX, sortedTypeY] = orderType(params.typeX, params.typeY);
+      const isSwap = sortedTypeX !== params.typeX;
+      this.tx.moveCall({
+        target: `${this.sdk.optionsField.packageId}::router::${
+          isSwap ? SWAP_EXACT_Y_TO_X : SWAP_EXACT_X_TO_Y
+        }`,
+        arguments: [
+          this.tx.object(this.sdk.optionsField.globalId),
+          this.tx.object(params.pooId),
+          params.coinIn,
+          this.tx.pure.u64(toU64(params.amountOutMin, "amountOutMin")),
+        ],
+        typeArguments: [sortedTypeX, sortedTypeY],
+      });
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Swap token X for an exact amount of token Y
+   * The bought coin and the unspent part of the input coin are sent to the sender.
+   * @param params Swap parameters, typeX is the input and typeY the output token
+   */
+  public swapExactOut(params: ComposeSwapExactOutParams): void {
+    try {
+      const [sortedTypeX, sortedTypeY] = orderType(params.typeX, params.typeY);
+      const isSwap = sortedTypeX !== params.typeX;
+      this.tx.moveCall({
+        target: `${this.sdk.optionsField.packageId}::router::${
+          isSwap ? SWAP_Y_TO_EXACT_X : SWAP_X_TO_EXACT_Y
+        }`,
+        arguments: [
+          this.tx.object(this.sdk.optionsField.globalId),
+          this.tx.object(params.pooId),
+          params.coinIn,
+          this.tx.pure.u64(toU64(params.amountOut, "amountOut")),
+        ],
+        typeArguments: [sortedTypeX, sortedTypeY],
+      });
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Add two coins as liquidity to a pool
+   * The LP coin and the unused parts of the coins are sent to the sender.
+   * @param params Liquidity parameters, coins may be given in any token order
+   */
+  public addLiquidity(params: ComposeAddLiquidityParams): void {
+    try {
+      const [sortedTypeX, sortedTypeY] = orderType(params.typeX, params.typeY);
+      const isChange = sortedTypeX !== params.typeX;
+      const [coinX, coinY] = isChange
+        ? [params.coinY, params.coinX]
+        : [params.coinX, params.coinY];
+      const [coinXMin, coinYMin] = isChange
+        ? [params.coinYMin, params.coinXMin]
+        : [params.coinXMin, params.coinYMin];
+
+      this.tx.moveCall({
+        target: `${this.sdk.optionsField.packageId}::router::add_liquidity`,
+        arguments: [
+          this.tx.object(this.sdk.optionsField.globalId),
+          this.tx.object(params.pooId),
+          coinX,
+          this.tx.pure.u64(toU64(coinXMin, "coinXMin")),
+          coinY,
+          this.tx.pure.u64(toU64(coinYMin, "coinYMin")),
+        ],
+        typeArguments: [sortedTypeX, sortedTypeY],
+      });
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Remove liquidity from a pool with an LP coin
+   * The withdrawn coins and the rest of the LP coin are sent to the sender.
+   * @param params Liquidity parameters
+   */
+  public removeLiquidity(params: ComposeRemoveLiquidityParams): void {
+    try {
+      const [sortedTypeX, sortedTypeY] = orderType(params.typeX, params.typeY);
+      const isChange = sortedTypeX !== params.typeX;
+      const [coinXMin, coinYMin] = isChange
+        ? [params.coinYMin, params.coinXMin]
+        : [params.coinXMin, params.coinYMin];
+
+      this.tx.moveCall({
+        target: `${this.sdk.optionsField.packageId}::router::remove_liquidity`,
+        arguments: [
+          this.tx.object(this.sdk.optionsField.globalId),
+          this.tx.object(params.pooId),
+          params.lpCoin,
+          this.tx.pure.u64(toU64(params.lpAmount, "lpAmount")),
+          this.tx.pure.u64(toU64(coinXMin, "coinXMin")),
+          this.tx.pure.u64(toU64(coinYMin, "coinYMin")),
+        ],
+        typeArguments: [sortedTypeX, sortedTypeY],
+      });
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Transfer coins to an address
+   * @param coins Coin handles to transfer
+   * @param to Recipient address, defaults to the sender
+   */
+  public transfer(coins: TransactionObjectArgument[], to?: string): void {
+    try {
+      this.tx.transferObjects(coins, this.tx.pure.address(to || this.sender));
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 // Copyright (c) 2025 Dipcoin LLC
 // SPDX-License-Identifier: Apache-2.0
 
-export * from './sdk';
\ No newline at end of file
+export * from './sdk';
+export * from './composer';
\ No newline at end of file
@@ -1,14 +1,33 @@
 // Copyright (c) 2025 Dipcoin LLC
 // SPDX-License-Identifier: Apache-2.0
 
-import { SuiClient } from "@mysten/sui/client";
-import { coinWithBalance, Transaction } from "@mysten/sui/transactions";
+import {
+  EventId,
+  SuiClient,
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedType,
+  SuiObjectRef,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import {
+  coinWithBalance,
+  Transaction,
+  TransactionObjectArgument,
+} from "@mysten/sui/transactions";
+import {
+  fromBase64,
+  normalizeStructTag,
+  normalizeSuiAddress,
+  parseStructTag,
+  toBase64,
+} from "@mysten/sui/utils";
 import { Keypair } from "@mysten/sui/cryptography";
 
 import BigNumber from "bignumber.js";
 import {
   DipCoinSDKOptions,
   AddLiquidityParams,
+  CreatePoolParams,
   RemoveLiquidityParams,
   SwapParams,
   TransferParams,
@@ -16,64 +35,397 @@ import {
   TxResponse,
   Pool,
   Global,
+  PoolInfo,
+  PoolList,
+  SkippedPoolEntry,
+  MultiHopSwapParams,
+  SwapRoute,
+  RouteHop,
+  SequentialTxResponse,
+  SwapQuote,
+  ExecuteOptions,
+  SimulationResult,
+  DipCoinSigner,
+  BuildTxOptions,
+  CoinSelectionStrategy,
+  U64Amount,
+  PoolEventHandler,
+  SubscribeOptions,
+  DipCoinEvent,
+  PoolStats,
+  PoolStatsParams,
+  LpPosition,
+  ZapInParams,
+  ZapOutParams,
+  ZapOutQuote,
+  PackageUpgradeStatus,
+  CoinInfo,
+  UiAmount,
+  UiAddLiquidityParams,
+  UiCreatePoolParams,
+  UiSwapParams,
+  UiSwapQuote,
+  UiTransferParams,
 } from "../types";
 
 import {
   SwapMath,
   getPool,
+  getPools,
   getGlobal,
   formatError,
   getLpType,
   orderType,
   getLpName,
+  getCreatedPoolId,
+  parseLpName,
+  parseBalanceChanges,
+  getGasCost,
+  usesGasCoin,
+  getAllCoins,
+  selectCoins,
+  SwapRouter,
+  PoolCache,
+  CoinMetadataService,
+  toBaseUnits,
+  fromBaseUnits,
+  PoolAnalytics,
+  parseU64,
+  toU64,
 } from "../utils";
 
+import { parseDipCoinEvents, PoolEventSubscription } from "../events";
+import { toDipCoinSigner } from "../signer";
+import { DipCoinTxComposer } from "./composer";
+import { getTakenCoinIds } from "./tx_coins";
+
+import {
+  DipCoinError,
+  DipCoinErrorCode,
+  InsufficientBalanceError,
+  InvalidParamsError,
+  LiquidityTooLowError,
+  NoRouteError,
+  PoolAlreadyExistsError,
+  PoolNotFoundError,
+  ProtocolPausedError,
+  SlippageExceededError,
+  toDipCoinError,
+} from "../errors";
+
 import {
   COIN_TYPE_SUI,
+  DEFAULT_COIN_SELECTION_STRATEGY,
   DEFAULT_SLIPPAGE,
+  FEE_RATE_SCALE,
+  MAX_COIN_INPUTS,
+  MAX_FEE_RATE,
+  MINIMUM_LIQUIDITY,
+  MULTI_GET_OBJECTS_LIMIT,
+  DEFAULT_STATS_WINDOW_MS,
+  EVENT_PAGE_LIMIT,
+  STATS_MAX_EVENT_PAGES,
   SWAP_EXACT_X_TO_Y,
   SWAP_EXACT_Y_TO_X,
   SWAP_X_TO_EXACT_Y,
   SWAP_Y_TO_EXACT_X,
+  UPGRADE_CAP_TYPE,
 } from "../constants";
 
 export class DipCoinSDK {
   private client: SuiClient;
-  private options: DipCoinSDKOptions;
+  private readonly options: Readonly<DipCoinSDKOptions>;
+  private poolCache?: PoolCache;
+  private readonly coinMetadata: CoinMetadataService;
+  private readonly createPoolChecks = new Map<string, Promise<void>>();
 
   constructor(options: DipCoinSDKOptions) {
-    // Initialize SDK configuration
-    this.options = options;
+    // Copy the configuration so callers cannot change it after creation
+    this.options = Object.freeze({ ...options });
+
+    // Initialize SUI client unless one is injected
+    this.client =
+      options.client ||
+      new SuiClient({
+        url: options.suiRpc,
+      });
 
-    // Initialize SUI client
-    this.client = new SuiClient({
-      url: options.suiRpc,
-    });
+    // Coin metadata never changes, so it is always cached
+    this.coinMetadata = new CoinMetadataService(this.client);
+
+    // Pool state is only cached when enabled
+    if (options.poolCache) {
+      this.poolCache = new PoolCache(options.poolCache);
+    }
   }
 
-  get optionsField(): DipCoinSDKOptions {
+  get optionsField(): Readonly<DipCoinSDKOptions> {
     return this.options;
   }
 
+  /**
+   * Sui client the SDK reads chain state and executes transactions with
+   */
+  get suiClient(): SuiClient {
+    return this.client;
+  }
+
+  /**
+   * Package the DEX types were first defined in
+   * LP coin types and events keep this package ID after upgrades, while Move
+   * calls target the latest packageId.
+   */
+  get originalPackageId(): string {
+    return this.options.originalPackageId || this.options.packageId;
+  }
+
+  /**
+   * Compose DipCoin operations into a caller-supplied transaction
+   * @param tx Transaction the operations are appended to
+   * @param sender Address whose coins are split and that signs the transaction
+   * @param options Build options, set sponsored when a sponsor pays the gas
+   * @returns {DipCoinTxComposer} Composer appending operations to tx
+   */
+  public compose(
+    tx: Transaction,
+    sender: string,
+    options: BuildTxOptions = {}
+  ): DipCoinTxComposer {
+    return new DipCoinTxComposer(this, tx, sender, options);
+  }
+
+  /**
+   * Build create pool transaction
+   * @param suiWalletAddress The address of the wallet
+   * @param params Parameters for creating the pool and seeding its initial liquidity
+   * @param options Build options, set sponsored when a sponsor pays the gas
+   * @returns {Promise<Transaction>} Transaction object
+   */
+  public async buildCreatePoolTx(
+    suiWalletAddress: string,
+    params: CreatePoolParams,
+    options: BuildTxOptions = {}
+  ): Promise<Transaction> {
+    try {
+      // Validate input parameters
+      const amountXIn = parseU64(params.amountX, "amountX");
+      const amountYIn = parseU64(params.amountY, "amountY");
+      if (amountXIn.lte(0) || amountYIn.lte(0)) {
+        throw new InvalidParamsError("Amount must be greater than 0");
+      }
+      if (
+        !Number.isInteger(params.feeRate) ||
+        params.feeRate <= 0 ||
+        params.feeRate > MAX_FEE_RATE
+      ) {
+        throw new InvalidParamsError(
+          `feeRate must be an integer between 1 and ${MAX_FEE_RATE}`
+        );
+      }
+
+      // Sort token types lexicographically to ensure consistent ordering
+      const [typeX, typeY] = orderType(params.typeX, params.typeY);
+      const isChange = typeX !== params.typeX;
+      const amountX = isChange ? amountYIn : amountXIn;
+      const amountY = isChange ? amountXIn : amountYIn;
+
+      // Pool creation may be restricted to the AdminCap holder
+      await this.assertPublicCreatePool();
+
+      // A token pair can only be registered once
+      const existingPoolId = await this.findPoolId(typeX, typeY);
+      if (existingPoolId) {
+        throw new PoolAlreadyExistsError(
+          `Pool already exists, poolId:${existingPoolId}`
+        );
+      }
+
+      // The first MINIMUM_LIQUIDITY LP tokens are locked in the pool forever
+      const initialLiquidity = amountX
+        .multipliedBy(amountY)
+        .sqrt()
+        .integerValue(BigNumber.ROUND_DOWN);
+      if (initialLiquidity.lte(MINIMUM_LIQUIDITY)) {
+        throw new LiquidityTooLowError(
+          `initial liquidity too little, sqrt(amountX * amountY):${initialLiquidity} must be greater than min_liquidity:${MINIMUM_LIQUIDITY}`
+        );
+      }
+
+      // Build transaction to split coins and create the pool
+      const tx = new Transaction();
+
+      const splitCoinX = await this.splitInputCoin(
+        suiWalletAddress,
+        typeX,
+        amountX,
+        tx,
+        options
+      );
+
+      const splitCoinY = await this.splitInputCoin(
+        suiWalletAddress,
+        typeY,
+        amountY,
+        tx,
+        options
+      );
+
+      tx.moveCall({
+        target: `${this.options.packageId}::router::create_pool`,
+        arguments: [
+          tx.object(this.options.globalId),
+          splitCoinX,
+          splitCoinY,
+          tx.pure.u64(params.feeRate),
+        ],
+        typeArguments: [typeX, typeY],
+      });
+
+      return tx;
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Check that the deployed package lets any address create a pool
+   * The ABI is fetched once per package, failed checks are retried on the next
+   * call.
+   * @throws {InvalidParamsError} If the deployed package has no public create_pool
+   */
+  private assertPublicCreatePool(): Promise<void> {
+    const { packageId } = this.options;
+    let check = this.createPoolChecks.get(packageId);
+    if (!check) {
+      check = this.checkPublicCreatePool(packageId);
+      this.createPoolChecks.set(packageId, check);
+      check.catch(() => this.createPoolChecks.delete(packageId));
+    }
+    return check;
+  }
+
+  /**
+   * Read the ABI of router::create_pool
+   * It must be callable from a transaction, as an entry or public function,
+   * take the Global config, the two seed coins and the fee rate and return
+   * nothing. A version taking an AdminCap or no such function means pools are
+   * created by the AdminCap holder only.
+   * @param packageId Package the create_pool call targets
+   * @throws {InvalidParamsError} If the deployed package has no public create_pool
+   */
+  private async checkPublicCreatePool(packageId: string): Promise<void> {
+    const target = `${packageId}::router::create_pool`;
+    let func: SuiMoveNormalizedFunction;
+    try {
+      func = await this.client.getNormalizedMoveFunction({
+        package: packageId,
+        module: "router",
+        function: "create_pool",
+      });
+    } catch (error) {
+      throw new InvalidParamsError(
+        `${target} is not deployed, pools can only be created by the AdminCap holder: ${formatError(
+          error
+        )}`
+      );
+    }
+
+    const isStruct = (
+      parameter: SuiMoveNormalizedType,
+      module: string,
+      name: string
+    ): boolean => {
+      if (typeof parameter !== "object") {
+        return false;
+      }
+      if ("MutableReference" in parameter) {
+        return isStruct(parameter.MutableReference, module, name);
+      }
+      return (
+        "Struct" in parameter &&
+        parameter.Struct.module === module &&
+        parameter.Struct.name === name
+      );
+    };
+
+    // The trailing TxContext is supplied by the runtime
+    const parameters = func.parameters.filter(
+      (parameter) => !isStruct(parameter, "tx_context", "TxContext")
+    );
+    if (!func.isEntry && func.visibility !== "Public") {
+      throw new InvalidParamsError(
+        `${target} is neither public nor entry, pools can only be created by the AdminCap holder`
+      );
+    }
+    if (
+      func.return.length > 0 ||
+      parameters.length !== 4 ||
+      !isStruct(parameters[0], "manage", "Global") ||
+      !isStruct(parameters[1], "coin", "Coin") ||
+      !isStruct(parameters[2], "coin", "Coin") ||
+      parameters[3] !== "U64"
+    ) {
+      throw new InvalidParamsError(
+        `${target} does not take (Global, Coin<X>, Coin<Y>, u64) and return nothing, pools can only be created by the AdminCap holder`
+      );
+    }
+  }
+
+  /**
+   * Create a new pool and seed its initial liquidity
+   * @param signer The keypair or signer for signing the transaction
+   * @param params Parameters for creating the pool
+   * @param options Execution options, set dryRun to only simulate the transaction
+   * @returns {Promise<TxResponse>} Transaction response containing status, txId and createdPoolId
+   */
+  public async createPool(
+    signer: Keypair | DipCoinSigner,
+    params: CreatePoolParams,
+    options?: ExecuteOptions
+  ): Promise<TxResponse> {
+    try {
+      const dipCoinSigner = toDipCoinSigner(signer);
+      await this.assertNotPaused();
+      const tx: Transaction = await this.buildCreatePoolTx(
+        await dipCoinSigner.getAddress(),
+        params,
+        { sponsored: !!options?.sponsor }
+      );
+
+      return await this.executeTransaction(dipCoinSigner, tx, options);
+    } catch (error) {
+      return {
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
   /**
    * Build add liquidity transaction
    * @param suiWalletAddress The address of the wallet
    * @param params Parameters for adding liquidity
+   * @param options Build options, set sponsored when a sponsor pays the gas
    * @returns {Promise<Transaction>} Transaction object
    */
   public async buildAddLiquidityTx(
     suiWalletAddress: string,
-    params: AddLiquidityParams
+    params: AddLiquidityParams,
+    options: BuildTxOptions = {}
   ): Promise<Transaction> {
     try {
       // Validate input parameters
-      if (params.amountX.lte(0) || params.amountY.lte(0)) {
-        throw new Error("Amount must be greater than 0");
+      let amountX = parseU64(params.amountX, "amountX");
+      let amountY = parseU64(params.amountY, "amountY");
+      if (amountX.lte(0) || amountY.lte(0)) {
+        throw new InvalidParamsError("Amount must be greater than 0");
       }
       // Calculate minimum acceptable amounts with slippage protection
       const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
       if (slippage >= 1) {
-        throw new Error("Slippage must be less than 100%");
+        throw new InvalidParamsError("Slippage must be less than 100%");
       }
 
       // Sort token types lexicographically to ensure consistent ordering
@@ -83,22 +435,19 @@ export class DipCoinSDK {
       params.typeY = newTypeY;
       if (isChange) {
         // Swap amounts if token order changed
-        const tempAmount = params.amountX;
-        params.amountX = params.amountY;
-        params.amountY = tempAmount;
+        [amountX, amountY] = [amountY, amountX];
+        params.amountX = amountX;
+        params.amountY = amountY;
       }
 
       // Fetch current pool state to calculate optimal amounts
       const poolResponse = await this.getPool(params.pooId);
-      if (!poolResponse.status || !poolResponse.data) {
-        throw new Error("Failed to get pool info");
-      }
-      const pool = poolResponse.data;
+      const pool = this.getResponseData(poolResponse, "pool");
 
       // Calculate optimal token amounts based on current pool ratios
       const [coinXDesired, coinYDesired] = SwapMath.calcOptimalCoinValues(
-        new BigNumber(params.amountX),
-        new BigNumber(params.amountY),
+        amountX,
+        amountY,
         new BigNumber(pool.bal_x.toString()),
         new BigNumber(pool.bal_y.toString())
       );
@@ -114,56 +463,36 @@ export class DipCoinSDK {
         pool.min_add_liquidity_lp_amount.toString()
       );
       if (expectedLp.lt(minAddLiquidityLpAmount)) {
-        throw new Error(
+        throw new LiquidityTooLowError(
           `add liquidity too little, expectedLp:${expectedLp} is less than min_add_liquidity_lp_amount:${minAddLiquidityLpAmount}`
         );
       }
 
       const coinXMin = coinXDesired
         .multipliedBy(1 - slippage)
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toNumber();
+        .integerValue(BigNumber.ROUND_DOWN);
       const coinYMin = coinYDesired
         .multipliedBy(1 - slippage)
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toNumber();
+        .integerValue(BigNumber.ROUND_DOWN);
 
       // Build transaction to split coins and add liquidity
       const tx = new Transaction();
 
-      let splitCoinX;
-      if (params.typeX === COIN_TYPE_SUI) {
-        tx.setSender(suiWalletAddress);
-        splitCoinX = coinWithBalance({
-          balance: params.amountX.toNumber(),
-          type: params.typeX,
-          useGasCoin: true,
-        });
-      } else {
-        splitCoinX = await this.splitCoin(
-          suiWalletAddress,
-          params.typeX,
-          params.amountX,
-          tx
-        );
-      }
+      const splitCoinX = await this.splitInputCoin(
+        suiWalletAddress,
+        params.typeX,
+        amountX,
+        tx,
+        options
+      );
 
-      let splitCoinY;
-      if (params.typeY === COIN_TYPE_SUI) {
-        tx.setSender(suiWalletAddress);
-        splitCoinY = coinWithBalance({
-          balance: params.amountY.toNumber(),
-          type: params.typeY,
-          useGasCoin: true,
-        });
-      } else {
-        splitCoinY = await this.splitCoin(
-          suiWalletAddress,
-          params.typeY,
-          params.amountY,
-          tx
-        );
-      }
+      const splitCoinY = await this.splitInputCoin(
+        suiWalletAddress,
+        params.typeY,
+        amountY,
+        tx,
+        options
+      );
 
       // Call DEX contract to add liquidity
       tx.moveCall({
@@ -172,55 +501,52 @@ export class DipCoinSDK {
           tx.object(this.options.globalId),
           tx.object(params.pooId),
           splitCoinX,
-          tx.pure.u64(coinXMin),
+          tx.pure.u64(toU64(coinXMin)),
           splitCoinY,
-          tx.pure.u64(coinYMin),
+          tx.pure.u64(toU64(coinYMin)),
         ],
         typeArguments: [params.typeX, params.typeY],
       });
 
       return tx;
     } catch (error) {
-      throw new Error(formatError(error));
+      throw toDipCoinError(error);
     }
   }
 
   /**
    * Add liquidity to a pool
-   * @param signer The keypair for signing the transaction
+   * @param signer The keypair or signer for signing the transaction
    * @param params Parameters for adding liquidity
    */
   /**
    * Add liquidity to a pool
-   * @param signer The keypair for signing the transaction
+   * @param signer The keypair or signer for signing the transaction
    * @param params Parameters for adding liquidity
+   * @param options Execution options, set dryRun to only simulate the transaction
    * @returns {Promise<TxResponse>} Transaction response containing status and txId
    */
   public async addLiquidity(
-    signer: Keypair,
-    params: AddLiquidityParams
+    signer: Keypair | DipCoinSigner,
+    params: AddLiquidityParams,
+    options?: ExecuteOptions
   ): Promise<TxResponse> {
     try {
+      const dipCoinSigner = toDipCoinSigner(signer);
+      await this.assertNotPaused();
       const tx: Transaction = await this.buildAddLiquidityTx(
-        signer.getPublicKey().toSuiAddress(),
-        params
+        await dipCoinSigner.getAddress(),
+        params,
+        { sponsored: !!options?.sponsor }
       );
 
-      // Sign and execute transaction
-      const result = await this.client.signAndExecuteTransaction({
-        signer: signer,
-        transaction: tx,
-      });
-
-      return {
-        txId: result.digest,
-        status: true,
-      };
+      return await this.executeTransaction(dipCoinSigner, tx, options);
     } catch (error) {
       return {
         txId: "",
         status: false,
         error: formatError(error),
+        errorCode: toDipCoinError(error).code,
       };
     }
   }
@@ -237,18 +563,19 @@ export class DipCoinSDK {
   ): Promise<Transaction> {
     try {
       // Validate input amount
-      if (params.removeLpAmount.lte(0)) {
-        throw new Error("Amount must be greater than 0");
+      const removeLpAmount = parseU64(params.removeLpAmount, "removeLpAmount");
+      if (removeLpAmount.lte(0)) {
+        throw new InvalidParamsError("Amount must be greater than 0");
       }
       // Calculate minimum acceptable amounts with slippage protection
       const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
       if (slippage >= 1) {
-        throw new Error("Slippage must be less than 100%");
+        throw new InvalidParamsError("Slippage must be less than 100%");
       }
 
       // Get LP token type based on sorted token types
       let [newTypeX, newTypeY, lpType] = getLpType(
-        this.options.packageId,
+        this.originalPackageId,
         params.typeX,
         params.typeY
       );
@@ -257,130 +584,469 @@ export class DipCoinSDK {
 
       // Fetch current pool state to calculate optimal amounts
       const poolResponse = await this.getPool(params.pooId);
-      if (!poolResponse.status || !poolResponse.data) {
-        throw new Error("Failed to get pool info");
-      }
-      const pool = poolResponse.data;
+      const pool = this.getResponseData(poolResponse, "pool");
 
       let minRemoveLpAmount = BigNumber(
         pool.min_add_liquidity_lp_amount.toString()
       ).div(10);
-      if (params.removeLpAmount.lt(minRemoveLpAmount)) {
-        throw new Error(
-          `removeLpAmount:${params.removeLpAmount} is less than min_remove_liquidity_lp_amount:${minRemoveLpAmount}`
+      if (removeLpAmount.lt(minRemoveLpAmount)) {
+        throw new LiquidityTooLowError(
+          `removeLpAmount:${removeLpAmount} is less than min_remove_liquidity_lp_amount:${minRemoveLpAmount}`
         );
       }
 
-      const tx = new Transaction();
-      let mergedCoin = await this.getMergedCoin(
-        this.client,
-        suiWalletAddress,
-        lpType,
-        params.removeLpAmount,
-        tx
-      );
-
-      let coinXOut = SwapMath.mulDiv(
+      let [coinXOut, coinYOut] = SwapMath.getRemoveLiquidityAmounts(
+        removeLpAmount,
         BigNumber(pool.bal_x.toString()),
-        params.removeLpAmount,
-        BigNumber(pool.lp_supply.toString())
-      );
-      let coinYOut = SwapMath.mulDiv(
         BigNumber(pool.bal_y.toString()),
-        params.removeLpAmount,
         BigNumber(pool.lp_supply.toString())
       );
       let coinXMin = coinXOut
         .multipliedBy(1 - slippage)
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toNumber();
+        .integerValue(BigNumber.ROUND_DOWN);
       let coinYMin = coinYOut
         .multipliedBy(1 - slippage)
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toNumber();
-
-      // Build transaction to split LP tokens and remove liquidity
-
-      tx.moveCall({
-        target: `${this.options.packageId}::router::remove_liquidity`,
-        arguments: [
-          tx.object(this.options.globalId),
-          tx.object(params.pooId),
-          mergedCoin,
-          tx.pure.u64(params.removeLpAmount.toNumber()),
-          tx.pure.u64(coinXMin),
-          tx.pure.u64(coinYMin),
-        ],
-        typeArguments: [params.typeX, params.typeY],
-      });
+        .integerValue(BigNumber.ROUND_DOWN);
 
-      return tx;
+      return await this.buildRemoveLiquidityCallTx(
+        suiWalletAddress,
+        params.pooId,
+        lpType,
+        [params.typeX, params.typeY],
+        removeLpAmount,
+        coinXMin,
+        coinYMin
+      );
     } catch (error) {
-      throw new Error(formatError(error));
+      throw toDipCoinError(error);
     }
   }
 
+  /**
+   * Build the router call of a liquidity removal with given minimum amounts
+   * @param suiWalletAddress The address of the wallet
+   * @param pooId The ID of the pool
+   * @param lpType LP coin type of the pool
+   * @param types Sorted token types of the pool
+   * @param removeLpAmount The amount of LP tokens to remove
+   * @param coinXMin Minimum amount of token X to withdraw
+   * @param coinYMin Minimum amount of token Y to withdraw
+   * @returns {Promise<Transaction>} Transaction object
+   */
+  private async buildRemoveLiquidityCallTx(
+    suiWalletAddress: string,
+    pooId: string,
+    lpType: string,
+    types: [string, string],
+    removeLpAmount: BigNumber,
+    coinXMin: BigNumber,
+    coinYMin: BigNumber
+  ): Promise<Transaction> {
+    // Build transaction to split LP tokens and remove liquidity
+    const tx = new Transaction();
+    const mergedCoin = await this.getMergedCoin(
+      this.client,
+      suiWalletAddress,
+      lpType,
+      removeLpAmount,
+      tx
+    );
+
+    tx.moveCall({
+      target: `${this.options.packageId}::router::remove_liquidity`,
+      arguments: [
+        tx.object(this.options.globalId),
+        tx.object(pooId),
+        mergedCoin,
+        tx.pure.u64(toU64(removeLpAmount)),
+        tx.pure.u64(toU64(coinXMin)),
+        tx.pure.u64(toU64(coinYMin)),
+      ],
+      typeArguments: types,
+    });
+
+    return tx;
+  }
+
   /**
    * Remove liquidity from a pool
-   * @param signer The keypair for signing the transaction
+   * @param signer The keypair or signer for signing the transaction
    * @param params Parameters for removing liquidity
+   * @param options Execution options, set dryRun to only simulate the transaction
    * @returns {Promise<TxResponse>} Transaction response containing status and txId
    */
   public async removeLiquidity(
-    signer: Keypair,
-    params: RemoveLiquidityParams
+    signer: Keypair | DipCoinSigner,
+    params: RemoveLiquidityParams,
+    options?: ExecuteOptions
   ): Promise<TxResponse> {
     try {
+      const dipCoinSigner = toDipCoinSigner(signer);
+      await this.assertNotPaused();
       const tx: Transaction = await this.buildRemoveLiquidityTx(
-        signer.getPublicKey().toSuiAddress(),
+        await dipCoinSigner.getAddress(),
         params
       );
 
-      // Sign and execute transaction
-      const result = await this.client.signAndExecuteTransaction({
-        signer: signer,
-        transaction: tx,
-      });
+      return await this.executeTransaction(dipCoinSigner, tx, options);
+    } catch (error) {
+      return {
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Add liquidity to a pool from a single token, in two separate transactions
+   * Router swaps are entry functions that send the bought coin to the sender
+   * instead of returning it, so the swap cannot feed the liquidity addition in
+   * one transaction. The zap runs as a swap of the part of the input that
+   * matches the pool ratio after the swap, then a liquidity addition of the
+   * rest of the input with everything the swap bought. It is not atomic: if the
+   * liquidity addition fails, partial is set and the swapped tokens stay in the
+   * wallet without a position. In dry-run mode only the swap is simulated.
+   * @param signer The keypair or signer for signing the transactions
+   * @param params Zap parameters, typeX is the token held and typeY the other pool token
+   * @param options Execution options, applied to both transactions
+   * @returns {Promise<SequentialTxResponse>} Response of the last executed transaction with the responses of both
+   */
+  public async zapInSequential(
+    signer: Keypair | DipCoinSigner,
+    params: ZapInParams,
+    options?: ExecuteOptions
+  ): Promise<SequentialTxResponse> {
+    try {
+      const buildOptions = { sponsored: !!options?.sponsor };
+      const [swap, swapOutMin, slippage] = await this.getZapInSwap(params);
+
+      return await this.executeSteps(
+        signer,
+        [
+          (sender) =>
+            this.buildRouteHopTx(
+              sender,
+              swap,
+              true,
+              swap.amountIn,
+              swapOutMin,
+              buildOptions
+            ),
+          (sender, previous) =>
+            this.buildAddLiquidityTx(
+              sender,
+              {
+                pooId: params.pooId,
+                typeX: params.typeX,
+                typeY: params.typeY,
+                amountX: parseU64(params.amountIn).minus(swap.amountIn),
+                amountY: this.getBoughtAmount(previous as TxResponse, swap),
+                slippage,
+              },
+              buildOptions
+            ),
+        ],
+        options
+      );
+    } catch (error) {
+      return {
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+        steps: [],
+        partial: false,
+      };
+    }
+  }
+
+  /**
+   * Calculate the swap of a zap-in from the current pool state
+   * @param params Zap parameters, typeX is the token held and typeY the other pool token
+   * @returns Swap of part of the input for the other pool token, its minimum output and the slippage
+   */
+  private async getZapInSwap(
+    params: ZapInParams
+  ): Promise<[RouteHop, BigNumber, number]> {
+    // Validate input parameters
+    const amountIn = parseU64(params.amountIn, "amountIn");
+    if (amountIn.lte(0)) {
+      throw new InvalidParamsError("amountIn must be greater than 0");
+    }
+    const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
+    if (slippage >= 1) {
+      throw new InvalidParamsError("Slippage must be less than 100%");
+    }
+
+    // Fetch current pool state to calculate the swap and deposit amounts
+    const poolResponse = await this.getPool(params.pooId);
+    const pool = this.getResponseData(poolResponse, "pool");
+
+    // Sort token types and determine swap direction
+    const [sortedTypeX, sortedTypeY] = orderType(params.typeX, params.typeY);
+    const isSwap = sortedTypeX !== params.typeX;
+    const feeRate = BigNumber(pool.fee_rate.toString());
+    const reserveIn = BigNumber((isSwap ? pool.bal_y : pool.bal_x).toString());
+    const reserveOut = BigNumber((isSwap ? pool.bal_x : pool.bal_y).toString());
+
+    // Swap the part of the input that matches the pool ratio after the swap
+    const swapIn = SwapMath.getZapInSwapAmount(feeRate, amountIn, reserveIn);
+    if (swapIn.lte(0) || swapIn.gte(amountIn)) {
+      throw new LiquidityTooLowError(
+        `amountIn:${amountIn} is too small to zap into the pool`
+      );
+    }
+    const swapOut = SwapMath.getAmountOut(
+      feeRate,
+      swapIn,
+      reserveIn,
+      reserveOut
+    );
+    const swapOutMin = swapOut
+      .multipliedBy(1 - slippage)
+      .integerValue(BigNumber.ROUND_DOWN);
+
+    // Liquidity is added against the reserves left by the swap
+    const reserveInAfter = reserveIn.plus(swapIn);
+    const reserveOutAfter = reserveOut.minus(swapOut);
+    const [depositIn, depositOut] = SwapMath.calcOptimalCoinValues(
+      amountIn.minus(swapIn),
+      swapOut,
+      reserveInAfter,
+      reserveOutAfter
+    );
+    const expectedLp = SwapMath.getExpectedLiquidityAmount(
+      isSwap ? depositOut : depositIn,
+      isSwap ? depositIn : depositOut,
+      isSwap ? reserveOutAfter : reserveInAfter,
+      isSwap ? reserveInAfter : reserveOutAfter,
+      BigNumber(pool.lp_supply.toString())
+    );
+    const minAddLiquidityLpAmount = BigNumber(
+      pool.min_add_liquidity_lp_amount.toString()
+    );
+    if (expectedLp.lt(minAddLiquidityLpAmount)) {
+      throw new LiquidityTooLowError(
+        `add liquidity too little, expectedLp:${expectedLp} is less than min_add_liquidity_lp_amount:${minAddLiquidityLpAmount}`
+      );
+    }
+
+    return [
+      {
+        poolId: params.pooId,
+        typeX: sortedTypeX,
+        typeY: sortedTypeY,
+        typeIn: normalizeStructTag(params.typeX),
+        typeOut: normalizeStructTag(params.typeY),
+        amountIn: swapIn,
+        amountOut: swapOut,
+      },
+      swapOutMin,
+      slippage,
+    ];
+  }
 
+  /**
+   * Quote removing liquidity to a single token
+   * @param params Zap parameters including LP amount, output type and optional slippage
+   * @returns {Promise<SDKResponse<ZapOutQuote>>} Quote response
+   */
+  public async quoteZapOut(
+    params: ZapOutParams
+  ): Promise<SDKResponse<ZapOutQuote>> {
+    try {
+      const [quote] = await this.getZapOutQuote(params);
       return {
-        txId: result.digest,
         status: true,
+        data: quote,
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
       };
+    }
+  }
+
+  /**
+   * Remove liquidity from a pool to a single token, in two separate transactions
+   * Router calls are entry functions that send their output coins to the
+   * sender instead of returning them, so the zap runs as the liquidity removal,
+   * then a swap of the withdrawn amount of the other token through the same
+   * pool. Slippage only bounds the combined output: the removal sets no
+   * minimum amounts, and the swap's minimum output is amountOutMin less the
+   * output token the removal withdrew, so it aborts unless the combined output
+   * reaches amountOutMin. It is not atomic: if the swap fails, partial is set
+   * and both withdrawn tokens stay in the wallet. In dry-run mode only the
+   * removal is simulated.
+   * @param signer The keypair or signer for signing the transactions
+   * @param params Zap parameters including LP amount, output type and optional slippage
+   * @param options Execution options, applied to both transactions
+   * @returns {Promise<SequentialTxResponse>} Response of the last executed transaction with the responses of both
+   */
+  public async zapOutSequential(
+    signer: Keypair | DipCoinSigner,
+    params: ZapOutParams,
+    options?: ExecuteOptions
+  ): Promise<SequentialTxResponse> {
+    try {
+      const [quote, removeLpAmount, isOutX] = await this.getZapOutQuote(params);
+      const [typeX, typeY] = orderType(params.typeX, params.typeY);
+
+      return await this.executeSteps(
+        signer,
+        [
+          (sender) =>
+            this.buildRemoveLiquidityCallTx(
+              sender,
+              params.pooId,
+              getLpType(this.originalPackageId, typeX, typeY)[2],
+              [typeX, typeY],
+              removeLpAmount,
+              BigNumber(0),
+              BigNumber(0)
+            ),
+          (sender, previous) => {
+            const removal = this.getPoolEvent(
+              previous as TxResponse,
+              params.pooId,
+              "removeLiquidity"
+            );
+            const [amountKept, amountSold] = isOutX
+              ? [removal.amountX, removal.amountY]
+              : [removal.amountY, removal.amountX];
+            return this.buildRouteHopTx(
+              sender,
+              {
+                poolId: params.pooId,
+                typeX,
+                typeY,
+                typeIn: normalizeStructTag(isOutX ? typeY : typeX),
+                typeOut: normalizeStructTag(quote.typeOut),
+                amountIn: amountSold,
+                amountOut: quote.swapAmountOut,
+              },
+              true,
+              amountSold,
+              BigNumber.max(quote.amountOutMin.minus(amountKept), 0),
+              { sponsored: !!options?.sponsor }
+            );
+          },
+        ],
+        options
+      );
     } catch (error) {
       return {
         txId: "",
         status: false,
         error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+        steps: [],
+        partial: false,
       };
     }
   }
 
+  /**
+   * Calculate the single token output of removing liquidity
+   * @param params Zap parameters
+   * @returns Tuple of [quote, removeLpAmount, isOutX]
+   */
+  private async getZapOutQuote(
+    params: ZapOutParams
+  ): Promise<[ZapOutQuote, BigNumber, boolean]> {
+    // Validate input parameters
+    const removeLpAmount = parseU64(params.removeLpAmount, "removeLpAmount");
+    if (removeLpAmount.lte(0)) {
+      throw new InvalidParamsError("Amount must be greater than 0");
+    }
+    const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
+    if (slippage >= 1) {
+      throw new InvalidParamsError("Slippage must be less than 100%");
+    }
+    const [typeX, typeY] = orderType(params.typeX, params.typeY);
+    const typeOut = normalizeStructTag(params.typeOut);
+    const isOutX = typeOut === normalizeStructTag(typeX);
+    if (!isOutX && typeOut !== normalizeStructTag(typeY)) {
+      throw new InvalidParamsError("typeOut must be typeX or typeY");
+    }
+
+    const poolResponse = await this.getPool(params.pooId);
+    const pool = this.getResponseData(poolResponse, "pool");
+
+    const minRemoveLpAmount = BigNumber(
+      pool.min_add_liquidity_lp_amount.toString()
+    ).div(10);
+    if (removeLpAmount.lt(minRemoveLpAmount)) {
+      throw new LiquidityTooLowError(
+        `removeLpAmount:${removeLpAmount} is less than min_remove_liquidity_lp_amount:${minRemoveLpAmount}`
+      );
+    }
+
+    // The swap trades against the reserves left after the withdrawal
+    const reserveX = BigNumber(pool.bal_x.toString());
+    const reserveY = BigNumber(pool.bal_y.toString());
+    const [amountX, amountY] = SwapMath.getRemoveLiquidityAmounts(
+      removeLpAmount,
+      reserveX,
+      reserveY,
+      BigNumber(pool.lp_supply.toString())
+    );
+    const swapAmountIn = isOutX ? amountY : amountX;
+    const swapAmountOut = SwapMath.getAmountOut(
+      BigNumber(pool.fee_rate.toString()),
+      swapAmountIn,
+      isOutX ? reserveY.minus(amountY) : reserveX.minus(amountX),
+      isOutX ? reserveX.minus(amountX) : reserveY.minus(amountY)
+    );
+    const amountOut = (isOutX ? amountX : amountY).plus(swapAmountOut);
+
+    return [
+      {
+        typeOut: isOutX ? typeX : typeY,
+        amountX,
+        amountY,
+        swapAmountIn,
+        swapAmountOut,
+        amountOut,
+        amountOutMin: amountOut
+          .multipliedBy(1 - slippage)
+          .integerValue(BigNumber.ROUND_DOWN),
+      },
+      removeLpAmount,
+      isOutX,
+    ];
+  }
+
   /**
    * Build swap exact X to Y transaction
    * @param suiWalletAddress The address of the wallet
    * @param params Swap parameters including amountIn and optional slippage
+   * @param options Build options, set sponsored when a sponsor pays the gas
    * @returns {Promise<Transaction>} Transaction object
    */
   public async buildSwapExactXToYTx(
     suiWalletAddress: string,
-    params: SwapParams
+    params: SwapParams,
+    options: BuildTxOptions = {}
   ): Promise<Transaction> {
     try {
       // Validate input parameters
-      if (!params.amountIn || params.amountIn.lte(0)) {
-        throw new Error("amountIn must be greater than 0");
+      const amountIn = parseU64(params.amountIn ?? "0", "amountIn");
+      if (amountIn.lte(0)) {
+        throw new InvalidParamsError("amountIn must be greater than 0");
       }
       const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
       if (slippage >= 1) {
-        throw new Error("Slippage must be less than 100%");
+        throw new InvalidParamsError("Slippage must be less than 100%");
       }
 
       // Fetch current pool and global state
       const poolResponse = await this.getPool(params.pooId);
-      if (!poolResponse.status || !poolResponse.data) {
-        throw new Error("Failed to get pool info");
-      }
-      const pool = poolResponse.data;
+      const pool = this.getResponseData(poolResponse, "pool");
 
       // Sort token types and determine swap direction
       let [sortedTypeX, sortedTypeY] = orderType(params.typeX, params.typeY);
@@ -393,14 +1059,13 @@ export class DipCoinSDK {
       // Calculate expected output amount and minimum with slippage
       const amountOut = SwapMath.getAmountOut(
         BigNumber(pool.fee_rate.toString()),
-        params.amountIn,
+        amountIn,
         BigNumber(balanceX.toString()),
         BigNumber(balanceY.toString())
       );
       let amountOutMin = amountOut
         .multipliedBy(1 - slippage)
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toNumber();
+        .integerValue(BigNumber.ROUND_DOWN);
 
       // Select appropriate swap function based on direction
       let functionName = isSwap ? SWAP_EXACT_Y_TO_X : SWAP_EXACT_X_TO_Y;
@@ -408,22 +1073,13 @@ export class DipCoinSDK {
       // Build transaction to split input coins and execute swap
       const tx = new Transaction();
 
-      let splitCoinIn;
-      if (params.typeX === COIN_TYPE_SUI) {
-        tx.setSender(suiWalletAddress);
-        splitCoinIn = coinWithBalance({
-          balance: params.amountIn.toNumber(),
-          type: params.typeX,
-          useGasCoin: true,
-        });
-      } else {
-        splitCoinIn = await this.splitCoin(
-          suiWalletAddress,
-          params.typeX,
-          params.amountIn,
-          tx
-        );
-      }
+      const splitCoinIn = await this.splitInputCoin(
+        suiWalletAddress,
+        params.typeX,
+        amountIn,
+        tx,
+        options
+      );
 
       tx.moveCall({
         target: `${this.options.packageId}::router::${functionName}`,
@@ -431,49 +1087,46 @@ export class DipCoinSDK {
           tx.object(this.options.globalId),
           tx.object(params.pooId),
           splitCoinIn,
-          tx.pure.u64(amountOutMin),
+          tx.pure.u64(toU64(amountOutMin)),
         ],
         typeArguments: [sortedTypeX, sortedTypeY],
       });
 
       return tx;
     } catch (error) {
-      throw new Error(formatError(error));
+      throw toDipCoinError(error);
     }
   }
 
   /**
    * Swap an exact amount of token X for token Y
    * Supports flexible token ordering (e.g. USDC->WSOL or WSOL->USDC)
-   * @param signer The keypair for signing the transaction
+   * @param signer The keypair or signer for signing the transaction
    * @param params Swap parameters including amountIn and optional slippage
+   * @param options Execution options, set dryRun to only simulate the transaction
    * @returns {Promise<TxResponse>} Transaction response containing status and txId
    */
   public async swapExactXToY(
-    signer: Keypair,
-    params: SwapParams
+    signer: Keypair | DipCoinSigner,
+    params: SwapParams,
+    options?: ExecuteOptions
   ): Promise<TxResponse> {
     try {
+      const dipCoinSigner = toDipCoinSigner(signer);
+      await this.assertNotPaused();
       const tx: Transaction = await this.buildSwapExactXToYTx(
-        signer.getPublicKey().toSuiAddress(),
-        params
+        await dipCoinSigner.getAddress(),
+        params,
+        { sponsored: !!options?.sponsor }
       );
 
-      // Sign and execute transaction
-      const result = await this.client.signAndExecuteTransaction({
-        signer: signer,
-        transaction: tx,
-      });
-
-      return {
-        txId: result.digest,
-        status: true,
-      };
+      return await this.executeTransaction(dipCoinSigner, tx, options);
     } catch (error) {
       return {
         txId: "",
         status: false,
         error: formatError(error),
+        errorCode: toDipCoinError(error).code,
       };
     }
   }
@@ -482,28 +1135,28 @@ export class DipCoinSDK {
    * Build swap X to exact Y transaction
    * @param suiWalletAddress The address of the wallet
    * @param params Swap parameters including amountOut and optional slippage
+   * @param options Build options, set sponsored when a sponsor pays the gas
    * @returns {Promise<Transaction>} Transaction object
    */
   public async buildSwapXToExactYTx(
     suiWalletAddress: string,
-    params: SwapParams
+    params: SwapParams,
+    options: BuildTxOptions = {}
   ): Promise<Transaction> {
     try {
       // Validate input parameters
-      if (!params.amountOut || params.amountOut.lte(0)) {
-        throw new Error("amountOut must be greater than 0");
+      const amountOut = parseU64(params.amountOut ?? "0", "amountOut");
+      if (amountOut.lte(0)) {
+        throw new InvalidParamsError("amountOut must be greater than 0");
       }
       const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
       if (slippage >= 1) {
-        throw new Error("Slippage must be less than 100%");
+        throw new InvalidParamsError("Slippage must be less than 100%");
       }
 
       // Fetch current pool and global state
       const poolResponse = await this.getPool(params.pooId);
-      if (!poolResponse.status || !poolResponse.data) {
-        throw new Error("Failed to get pool info");
-      }
-      const pool = poolResponse.data;
+      const pool = this.getResponseData(poolResponse, "pool");
 
       // Sort token types and determine swap direction
       let [sortedTypeX, sortedTypeY] = orderType(params.typeX, params.typeY);
@@ -514,7 +1167,7 @@ export class DipCoinSDK {
       // Calculate required input amount and maximum with slippage
       const amountIn = SwapMath.getAmountIn(
         BigNumber(pool.fee_rate.toString()),
-        params.amountOut,
+        amountOut,
         BigNumber(balanceX.toString()),
         BigNumber(balanceY.toString())
       );
@@ -529,22 +1182,13 @@ export class DipCoinSDK {
       // Build transaction to split input coins and execute swap
       const tx = new Transaction();
 
-      let splitCoinIn;
-      if (params.typeX === COIN_TYPE_SUI) {
-        tx.setSender(suiWalletAddress);
-        splitCoinIn = coinWithBalance({
-          balance: amountInMax.toNumber(),
-          type: params.typeX,
-          useGasCoin: true,
-        });
-      } else {
-        splitCoinIn = await this.splitCoin(
-          suiWalletAddress,
-          params.typeX,
-          amountInMax,
-          tx
-        );
-      }
+      const splitCoinIn = await this.splitInputCoin(
+        suiWalletAddress,
+        params.typeX,
+        amountInMax,
+        tx,
+        options
+      );
 
       tx.moveCall({
         target: `${this.options.packageId}::router::${functionName}`,
@@ -552,135 +1196,1678 @@ export class DipCoinSDK {
           tx.object(this.options.globalId),
           tx.object(params.pooId),
           splitCoinIn,
-          tx.pure.u64(params.amountOut.toNumber()),
+          tx.pure.u64(toU64(amountOut)),
         ],
         typeArguments: [sortedTypeX, sortedTypeY],
       });
 
       return tx;
     } catch (error) {
-      throw new Error(formatError(error));
+      throw toDipCoinError(error);
     }
   }
 
   /**
    * Swap token X for an exact amount of token Y
-   * @param signer The keypair for signing the transaction
+   * @param signer The keypair or signer for signing the transaction
    * @param params Swap parameters including amountOut and optional slippage
+   * @param options Execution options, set dryRun to only simulate the transaction
    * @returns {Promise<TxResponse>} Transaction response containing status and txId
    */
   public async swapXToExactY(
-    signer: Keypair,
-    params: SwapParams
+    signer: Keypair | DipCoinSigner,
+    params: SwapParams,
+    options?: ExecuteOptions
   ): Promise<TxResponse> {
     try {
+      const dipCoinSigner = toDipCoinSigner(signer);
+      await this.assertNotPaused();
       const tx: Transaction = await this.buildSwapXToExactYTx(
-        signer.getPublicKey().toSuiAddress(),
-        params
+        await dipCoinSigner.getAddress(),
+        params,
+        { sponsored: !!options?.sponsor }
       );
 
-      // Sign and execute transaction
-      const result = await this.client.signAndExecuteTransaction({
-        signer: signer,
-        transaction: tx,
-      });
-
-      return {
-        txId: result.digest,
-        status: true,
-      };
+      return await this.executeTransaction(dipCoinSigner, tx, options);
     } catch (error) {
       return {
         txId: "",
         status: false,
         error: formatError(error),
+        errorCode: toDipCoinError(error).code,
       };
     }
   }
 
   /**
-   * Get pool information
-   * @param poolId The ID of the pool to query
-   * @returns {Promise<SDKResponse<Pool>>} Pool information response
+   * Quote a swap of an exact amount of token X for token Y
+   * @param params Swap parameters including amountIn and optional slippage
+   * @returns {Promise<SDKResponse<SwapQuote>>} Quote response
+   */
+  public async quoteExactIn(
+    params: SwapParams
+  ): Promise<SDKResponse<SwapQuote>> {
+    try {
+      // Validate input parameters
+      const amountIn = parseU64(params.amountIn ?? "0", "amountIn");
+      if (amountIn.lte(0)) {
+        throw new InvalidParamsError("amountIn must be greater than 0");
+      }
+      const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
+      if (slippage >= 1) {
+        throw new InvalidParamsError("Slippage must be less than 100%");
+      }
+
+      const [pool, global, isSwap] = await this.getQuoteState(params);
+      const balanceX = isSwap ? pool.bal_y : pool.bal_x;
+      const balanceY = isSwap ? pool.bal_x : pool.bal_y;
+      const amountOut = SwapMath.getAmountOut(
+        BigNumber(pool.fee_rate.toString()),
+        amountIn,
+        BigNumber(balanceX.toString()),
+        BigNumber(balanceY.toString())
+      );
+
+      return {
+        status: true,
+        data: {
+          ...this.calcQuote(pool, global, isSwap, amountIn, amountOut),
+          amountOutMin: amountOut
+            .multipliedBy(1 - slippage)
+            .integerValue(BigNumber.ROUND_DOWN),
+        },
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Quote a swap of token X for an exact amount of token Y
+   * @param params Swap parameters including amountOut and optional slippage
+   * @returns {Promise<SDKResponse<SwapQuote>>} Quote response
+   */
+  public async quoteExactOut(
+    params: SwapParams
+  ): Promise<SDKResponse<SwapQuote>> {
+    try {
+      // Validate input parameters
+      const amountOut = parseU64(params.amountOut ?? "0", "amountOut");
+      if (amountOut.lte(0)) {
+        throw new InvalidParamsError("amountOut must be greater than 0");
+      }
+      const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
+      if (slippage >= 1) {
+        throw new InvalidParamsError("Slippage must be less than 100%");
+      }
+
+      const [pool, global, isSwap] = await this.getQuoteState(params);
+      const balanceX = isSwap ? pool.bal_y : pool.bal_x;
+      const balanceY = isSwap ? pool.bal_x : pool.bal_y;
+      if (amountOut.gte(balanceY.toString())) {
+        throw new LiquidityTooLowError(
+          `amountOut:${amountOut} exceeds pool reserve:${balanceY}`
+        );
+      }
+      const amountIn = SwapMath.getAmountIn(
+        BigNumber(pool.fee_rate.toString()),
+        amountOut,
+        BigNumber(balanceX.toString()),
+        BigNumber(balanceY.toString())
+      );
+
+      return {
+        status: true,
+        data: {
+          ...this.calcQuote(pool, global, isSwap, amountIn, amountOut),
+          amountInMax: amountIn
+            .dividedBy(1 - slippage)
+            .integerValue(BigNumber.ROUND_DOWN),
+        },
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Fetch the pool and global state needed to quote a swap
+   * @param params Swap parameters
+   * @returns Tuple of [pool, global, isSwap] where isSwap means typeX is the pool's token Y
+   */
+  private async getQuoteState(
+    params: SwapParams
+  ): Promise<[Pool, Global, boolean]> {
+    const [poolResponse, globalResponse] = await Promise.all([
+      this.getPool(params.pooId),
+      this.getGlobal(),
+    ]);
+    const pool = this.getResponseData(poolResponse, "pool");
+    const global = this.getResponseData(globalResponse, "global config");
+
+    // Sort token types and determine swap direction
+    const [sortedTypeX] = orderType(params.typeX, params.typeY);
+    return [pool, global, sortedTypeX !== params.typeX];
+  }
+
+  /**
+   * Calculate fee breakdown and prices of a swap against the current reserves
+   * @param pool Current pool state
+   * @param global Current global state
+   * @param isSwap Whether the input token is the pool's token Y
+   * @param amountIn Input token amount
+   * @param amountOut Output token amount
+   * @returns Quote without slippage bounds
+   */
+  private calcQuote(
+    pool: Pool,
+    global: Global,
+    isSwap: boolean,
+    amountIn: BigNumber,
+    amountOut: BigNumber
+  ): SwapQuote {
+    const feeRate = BigNumber(pool.fee_rate.toString());
+    const reserveIn = BigNumber((isSwap ? pool.bal_y : pool.bal_x).toString());
+    const reserveOut = BigNumber((isSwap ? pool.bal_x : pool.bal_y).toString());
+
+    // The protocol takes its share of the swap fee out of the pool reserves
+    const totalFee = SwapMath.mulDiv(
+      amountIn,
+      feeRate,
+      BigNumber(FEE_RATE_SCALE)
+    );
+    const protocolFee = global.is_open_protocol_fee
+      ? SwapMath.getFeeToTeam(feeRate, amountIn)
+      : BigNumber(0);
+    const lpFee = totalFee.minus(protocolFee);
+
+    const spotPriceBefore = reserveOut.dividedBy(reserveIn);
+    const spotPriceAfter = reserveOut
+      .minus(amountOut)
+      .dividedBy(reserveIn.plus(amountIn).minus(protocolFee));
+    const executionPrice = amountOut.dividedBy(amountIn);
+    const priceImpact = BigNumber(1).minus(
+      amountOut.dividedBy(
+        amountIn.minus(totalFee).multipliedBy(spotPriceBefore)
+      )
+    );
+
+    return {
+      amountIn,
+      amountOut,
+      lpFee,
+      protocolFee,
+      spotPriceBefore,
+      spotPriceAfter,
+      executionPrice,
+      priceImpact,
+    };
+  }
+
+  /**
+   * Find the best swap route across all registered pools
+   * Pass amountIn to find the route with the most output, or amountOut to find
+   * the route with the least input.
+   * @param params Route parameters including input/output types and amount
+   * @returns {Promise<SDKResponse<SwapRoute>>} Best route response
+   */
+  public async findBestRoute(
+    params: MultiHopSwapParams
+  ): Promise<SDKResponse<SwapRoute>> {
+    try {
+      const isExactIn = params.amountIn !== undefined;
+      const amount = isExactIn
+        ? parseU64(params.amountIn ?? "0", "amountIn")
+        : parseU64(params.amountOut ?? "0", "amountOut");
+      if (amount.lte(0)) {
+        throw new InvalidParamsError(
+          "amountIn or amountOut must be greater than 0"
+        );
+      }
+
+      const poolsResponse = await this.listPools();
+      if (!poolsResponse.status || !poolsResponse.data) {
+        throw new DipCoinError(
+          poolsResponse.error || "Failed to list pools",
+          poolsResponse.errorCode
+        );
+      }
+      const pools = poolsResponse.data.pools;
+      const route = isExactIn
+        ? SwapRouter.findBestExactInRoute(
+            pools,
+            params.typeIn,
+            params.typeOut,
+            amount,
+            params.maxHops
+          )
+        : SwapRouter.findBestExactOutRoute(
+            pools,
+            params.typeIn,
+            params.typeOut,
+            amount,
+            params.maxHops
+          );
+      if (!route) {
+        throw new NoRouteError(
+          `No route found from ${params.typeIn} to ${params.typeOut}`
+        );
+      }
+
+      return {
+        status: true,
+        data: route,
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Swap an exact amount of input tokens through the best multi-hop route, one transaction per hop
+   * Router swaps are entry functions that send the bought coin to the sender
+   * instead of returning it, so hops cannot be chained in one transaction.
+   * Each hop runs as its own transaction that sells what the previous hop
+   * bought, and the route is not atomic: if a hop fails, partial is set and the
+   * tokens bought by the earlier hops stay in the wallet. In dry-run mode only
+   * the first hop is simulated, because later hops sell tokens the wallet does
+   * not hold yet.
+   * @param signer The keypair or signer for signing the transactions
+   * @param params Swap parameters including amountIn and optional slippage
+   * @param options Execution options, applied to every hop
+   * @returns {Promise<SequentialTxResponse>} Response of the last executed hop with the responses of all hops
+   */
+  public async multiHopSwapExactInSequential(
+    signer: Keypair | DipCoinSigner,
+    params: MultiHopSwapParams,
+    options?: ExecuteOptions
+  ): Promise<SequentialTxResponse> {
+    try {
+      // Validate input parameters
+      const amountIn = parseU64(params.amountIn ?? "0", "amountIn");
+      if (amountIn.lte(0)) {
+        throw new InvalidParamsError("amountIn must be greater than 0");
+      }
+      const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
+      if (slippage >= 1) {
+        throw new InvalidParamsError("Slippage must be less than 100%");
+      }
+
+      const routeResponse = await this.findBestRoute({
+        ...params,
+        amountOut: undefined,
+      });
+      if (!routeResponse.status || !routeResponse.data) {
+        throw new DipCoinError(
+          routeResponse.error || "Failed to find route",
+          routeResponse.errorCode
+        );
+      }
+
+      return await this.executeRoute(
+        signer,
+        routeResponse.data,
+        true,
+        slippage,
+        options
+      );
+    } catch (error) {
+      return {
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+        steps: [],
+        partial: false,
+      };
+    }
+  }
+
+  /**
+   * Swap input tokens for an exact amount of output tokens through the best multi-hop route, one transaction per hop
+   * Each hop runs as its own transaction and the route is not atomic, like in
+   * multiHopSwapExactInSequential. Hops before the last buy slightly more than
+   * the next hop is quoted to sell, the unspent part stays in the wallet.
+   * @param signer The keypair or signer for signing the transactions
+   * @param params Swap parameters including amountOut and optional slippage
+   * @param options Execution options, applied to every hop
+   * @returns {Promise<SequentialTxResponse>} Response of the last executed hop with the responses of all hops
+   */
+  public async multiHopSwapExactOutSequential(
+    signer: Keypair | DipCoinSigner,
+    params: MultiHopSwapParams,
+    options?: ExecuteOptions
+  ): Promise<SequentialTxResponse> {
+    try {
+      // Validate input parameters
+      const amountOut = parseU64(params.amountOut ?? "0", "amountOut");
+      if (amountOut.lte(0)) {
+        throw new InvalidParamsError("amountOut must be greater than 0");
+      }
+      const slippage = params.slippage || DEFAULT_SLIPPAGE; // Default 5% slippage
+      if (slippage >= 1) {
+        throw new InvalidParamsError("Slippage must be less than 100%");
+      }
+
+      const routeResponse = await this.findBestRoute({
+        ...params,
+        amountIn: undefined,
+      });
+      if (!routeResponse.status || !routeResponse.data) {
+        throw new DipCoinError(
+          routeResponse.error || "Failed to find route",
+          routeResponse.errorCode
+        );
+      }
+
+      return await this.executeRoute(
+        signer,
+        routeResponse.data,
+        false,
+        slippage,
+        options
+      );
+    } catch (error) {
+      return {
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+        steps: [],
+        partial: false,
+      };
+    }
+  }
+
+  /**
+   * Execute the hops of a route one transaction after another
+   * The slippage is spread over the hops. For exact input routes hop i of n
+   * must buy at least its quoted output times (1 - slippage)^(i/n), so the
+   * last hop enforces the quoted route output times (1 - slippage), and each
+   * hop sells everything the previous hop bought. For exact output routes the
+   * first hop spends at most the quoted route input divided by (1 - slippage),
+   * and every hop but the last buys its quoted output divided by
+   * (1 - slippage)^((n-i)/n), which bounds what the next hop can spend.
+   * @param signer The keypair or signer for signing the transactions
+   * @param route Route to execute
+   * @param isExactIn Whether the route was found for an exact input amount
+   * @param slippage Slippage tolerance of the whole route
+   * @param options Execution options
+   * @returns {Promise<SequentialTxResponse>} Response of the last executed hop with the responses of all hops
+   */
+  private async executeRoute(
+    signer: Keypair | DipCoinSigner,
+    route: SwapRoute,
+    isExactIn: boolean,
+    slippage: number,
+    options: ExecuteOptions = {}
+  ): Promise<SequentialTxResponse> {
+    const buildOptions = { sponsored: !!options.sponsor };
+    const hopCount = route.hops.length;
+    const amountInMax = route.amountIn
+      .dividedBy(1 - slippage)
+      .integerValue(BigNumber.ROUND_DOWN);
+    const amountLimits = route.hops.map((hop, index) =>
+      isExactIn
+        ? hop.amountOut
+            .multipliedBy(Math.pow(1 - slippage, (index + 1) / hopCount))
+            .integerValue(BigNumber.ROUND_DOWN)
+        : hop.amountOut
+            .dividedBy(
+              Math.pow(1 - slippage, (hopCount - index - 1) / hopCount)
+            )
+            .integerValue(BigNumber.ROUND_DOWN)
+    );
+
+    return this.executeSteps(
+      signer,
+      route.hops.map((hop, index) => (sender, previous) => {
+        // Exact output hops sell what the previous hop bought exactly, exact input hops what its swap event reports
+        let amountIn: BigNumber;
+        if (!previous) {
+          amountIn = isExactIn ? route.amountIn : amountInMax;
+        } else {
+          amountIn = isExactIn
+            ? this.getBoughtAmount(previous, route.hops[index - 1])
+            : amountLimits[index - 1];
+        }
+        return this.buildRouteHopTx(
+          sender,
+          hop,
+          isExactIn,
+          amountIn,
+          amountLimits[index],
+          buildOptions
+        );
+      }),
+      options
+    );
+  }
+
+  /**
+   * Execute transactions one after another
+   * Each transaction is built once the previous one succeeded, so it can spend
+   * what the previous one received. Execution stops at the first failed
+   * transaction, and after the first transaction in dry-run mode. Succeeded
+   * transactions are not rolled back when a later one fails.
+   * @param signer The keypair or signer for signing the transactions
+   * @param steps Transaction builders, called with the sender and the response of the previous transaction
+   * @param options Execution options, applied to every transaction
+   * @returns {Promise<SequentialTxResponse>} Response of the last executed transaction with the responses of all of them
+   */
+  private async executeSteps(
+    signer: Keypair | DipCoinSigner,
+    steps: ((sender: string, previous?: TxResponse) => Promise<Transaction>)[],
+    options: ExecuteOptions = {}
+  ): Promise<SequentialTxResponse> {
+    const dipCoinSigner = toDipCoinSigner(signer);
+    const sender = await dipCoinSigner.getAddress();
+    const responses: TxResponse[] = [];
+    await this.assertNotPaused();
+
+    for (const buildStep of steps) {
+      let response: TxResponse;
+      try {
+        const tx = await buildStep(sender, responses[responses.length - 1]);
+        response = await this.executeTransaction(dipCoinSigner, tx, options);
+      } catch (error) {
+        response = {
+          txId: "",
+          status: false,
+          error: formatError(error),
+          errorCode: toDipCoinError(error).code,
+        };
+      }
+      responses.push(response);
+      if (!response.status || options.dryRun) {
+        break;
+      }
+    }
+
+    const status = responses.every((response) => response.status);
+    return {
+      ...responses[responses.length - 1],
+      status,
+      steps: responses,
+      partial:
+        !status &&
+        !options.dryRun &&
+        responses.some((response) => response.status),
+    };
+  }
+
+  /**
+   * Build the swap transaction of a single route hop
+   * @param suiWalletAddress The address of the wallet
+   * @param hop Hop to swap
+   * @param isExactIn Whether the hop sells its whole input coin
+   * @param amountIn Amount of input token to split from the wallet
+   * @param amountLimit Minimum output for exact input hops, exact output otherwise
+   * @param options Build options
+   * @returns {Promise<Transaction>} Transaction object
+   * @throws {SlippageExceededError} If the current pool cannot meet amountLimit
+   */
+  private async buildRouteHopTx(
+    suiWalletAddress: string,
+    hop: RouteHop,
+    isExactIn: boolean,
+    amountIn: BigNumber,
+    amountLimit: BigNumber,
+    options: BuildTxOptions
+  ): Promise<Transaction> {
+    const isXToY = hop.typeIn === normalizeStructTag(hop.typeX);
+    let functionName: string;
+    if (isExactIn) {
+      functionName = isXToY ? SWAP_EXACT_X_TO_Y : SWAP_EXACT_Y_TO_X;
+    } else {
+      functionName = isXToY ? SWAP_X_TO_EXACT_Y : SWAP_Y_TO_EXACT_X;
+    }
+
+    // Earlier steps move the reserves, so check the limit against the current pool
+    const pool = this.getResponseData(await this.getPool(hop.poolId), "pool");
+    const feeRate = BigNumber(pool.fee_rate.toString());
+    const reserveIn = BigNumber((isXToY ? pool.bal_x : pool.bal_y).toString());
+    const reserveOut = BigNumber((isXToY ? pool.bal_y : pool.bal_x).toString());
+    if (isExactIn) {
+      const amountOut = SwapMath.getAmountOut(
+        feeRate,
+        amountIn,
+        reserveIn,
+        reserveOut
+      );
+      if (amountOut.lt(amountLimit)) {
+        throw new SlippageExceededError(
+          `Selling ${amountIn} ${hop.typeIn} buys ${amountOut} ${hop.typeOut}, less than the minimum output:${amountLimit}`
+        );
+      }
+    } else {
+      if (amountLimit.gte(reserveOut)) {
+        throw new LiquidityTooLowError(
+          `amountOut:${amountLimit} exceeds pool reserve:${reserveOut}`
+        );
+      }
+      const amountInNeeded = SwapMath.getAmountIn(
+        feeRate,
+        amountLimit,
+        reserveIn,
+        reserveOut
+      );
+      if (amountInNeeded.gt(amountIn)) {
+        throw new SlippageExceededError(
+          `Buying ${amountLimit} ${hop.typeOut} costs ${amountInNeeded} ${hop.typeIn}, more than the maximum input:${amountIn}`
+        );
+      }
+    }
+
+    const tx = new Transaction();
+    tx.setSender(suiWalletAddress);
+    const coinIn = await this.splitInputCoin(
+      suiWalletAddress,
+      hop.typeIn,
+      amountIn,
+      tx,
+      options
+    );
+
+    tx.moveCall({
+      target: `${this.options.packageId}::router::${functionName}`,
+      arguments: [
+        tx.object(this.options.globalId),
+        tx.object(hop.poolId),
+        coinIn,
+        tx.pure.u64(toU64(amountLimit)),
+      ],
+      typeArguments: [hop.typeX, hop.typeY],
+    });
+    return tx;
+  }
+
+  /**
+   * Amount a route hop bought, read from the swap event of its transaction
+   * @param response Response of the executed hop
+   * @param hop Executed hop
+   * @returns Amount of the hop's output token bought
+   */
+  private getBoughtAmount(response: TxResponse, hop: RouteHop): BigNumber {
+    const isXToY = hop.typeIn === normalizeStructTag(hop.typeX);
+    const swap = this.getPoolEvent(response, hop.poolId, "swap");
+    return isXToY ? swap.amountYOut : swap.amountXOut;
+  }
+
+  /**
+   * Find the event an executed transaction emitted for a pool
+   * @param response Response of the executed transaction
+   * @param poolId The ID of the pool
+   * @param type Event type
+   * @returns The first event of the type emitted for the pool
+   */
+  private getPoolEvent<T extends DipCoinEvent["type"]>(
+    response: TxResponse,
+    poolId: string,
+    type: T
+  ): Extract<DipCoinEvent, { type: T }> {
+    const event = (response.events || []).find(
+      (event): event is Extract<DipCoinEvent, { type: T }> =>
+        event.type === type && event.poolId === normalizeSuiAddress(poolId)
+    );
+    if (!event) {
+      throw new DipCoinError(
+        `No ${type} event of pool ${poolId} in transaction ${response.txId}`
+      );
+    }
+    return event;
+  }
+
+  /**
+   * Get pool information
+   * Served from the pool cache while it is fresh if the cache is enabled.
+   * @param poolId The ID of the pool to query
+   * @returns {Promise<SDKResponse<Pool>>} Pool information response
+   */
+  public async getPool(poolId: string): Promise<SDKResponse<Pool>> {
+    try {
+      const cached = this.poolCache?.get(poolId);
+      const pool = cached || (await getPool(this.client, poolId));
+      if (!pool) {
+        throw new PoolNotFoundError();
+      }
+      if (!cached) {
+        this.poolCache?.set(poolId, pool);
+      }
+
+      return {
+        status: true,
+        data: pool,
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Get information of multiple pools
+   * Fresh cached pools are served from the cache, all others are fetched with
+   * batched multiGetObjects requests, one round-trip per 50 pools.
+   * @param poolIds The IDs of the pools to query
+   * @returns {Promise<SDKResponse<(Pool | null)[]>>} Pools in request order, null for pools not found
+   */
+  public async getPools(
+    poolIds: string[]
+  ): Promise<SDKResponse<(Pool | null)[]>> {
+    try {
+      const pools = poolIds.map(
+        (poolId) => this.poolCache?.get(poolId) || null
+      );
+      const missingIds = poolIds.filter((_, index) => !pools[index]);
+      const fetched = await this.fetchPools(missingIds);
+      pools.forEach((pool, index) => {
+        if (!pool) {
+          pools[index] = fetched.shift() || null;
+        }
+      });
+
+      return {
+        status: true,
+        data: pools,
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Refetch pools into the pool cache, ignoring their TTL
+   * @param poolIds The IDs of the pools to refresh, every cached pool if omitted
+   * @returns {Promise<SDKResponse<(Pool | null)[]>>} Refreshed pools in request order, null for pools not found
+   */
+  public async refreshPools(
+    poolIds?: string[]
+  ): Promise<SDKResponse<(Pool | null)[]>> {
+    try {
+      return {
+        status: true,
+        data: await this.fetchPools(poolIds || this.poolCache?.keys() || []),
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Drop pools from the pool cache, e.g. after trading through them with another client
+   * Pools mutated by transactions executed through the SDK are dropped automatically.
+   * @param poolIds The IDs of the pools to drop, every pool if omitted
+   */
+  public invalidatePools(poolIds?: string | string[]): void {
+    this.poolCache?.invalidate(poolIds);
+  }
+
+  /**
+   * Set the cache TTL of a single pool
+   * @param poolId The ID of the pool
+   * @param ttlMs Time to live in milliseconds
+   */
+  public setPoolCacheTtl(poolId: string, ttlMs: number): void {
+    this.poolCache?.setPoolTtl(poolId, ttlMs);
+  }
+
+  /**
+   * Get the liquidity positions held by an address
+   * Finds every LP coin of the DEX package in the owner's balances and values it
+   * with the same math as remove liquidity.
+   * @param owner The address of the LP holder
+   * @returns {Promise<SDKResponse<LpPosition[]>>} Positions response, LP coins without a registered pool are skipped
+   */
+  public async getLpPositions(
+    owner: string
+  ): Promise<SDKResponse<LpPosition[]>> {
+    try {
+      const lpPrefix = `${normalizeSuiAddress(
+        this.originalPackageId
+      )}::manage::LP<`;
+      const lpBalances = (await this.client.getAllBalances({ owner }))
+        .map((balance) => ({
+          lpType: normalizeStructTag(balance.coinType),
+          lpBalance: BigNumber(balance.totalBalance),
+        }))
+        .filter(
+          ({ lpType, lpBalance }) =>
+            lpType.startsWith(lpPrefix) && lpBalance.gt(0)
+        )
+        .map((balance) => {
+          const [typeX, typeY] = parseStructTag(balance.lpType).typeParams.map(
+            (type) => normalizeStructTag(type)
+          );
+          return { ...balance, typeX, typeY };
+        });
+
+      // Resolve every LP type to its pool and load the pools in one batch
+      const poolIds = await Promise.all(
+        lpBalances.map(({ typeX, typeY }) => this.findPoolId(typeX, typeY))
+      );
+      const foundIds = poolIds.filter((poolId): poolId is string => !!poolId);
+      const poolsResponse = await this.getPools(foundIds);
+      if (!poolsResponse.status || !poolsResponse.data) {
+        throw new DipCoinError(
+          poolsResponse.error || "Failed to get pools",
+          poolsResponse.errorCode
+        );
+      }
+      const pools = poolsResponse.data;
+
+      const positions: LpPosition[] = [];
+      lpBalances.forEach((balance, index) => {
+        const poolId = poolIds[index];
+        const pool = poolId ? pools[foundIds.indexOf(poolId)] : null;
+        if (!poolId || !pool) {
+          return;
+        }
+        const lpSupply = BigNumber(pool.lp_supply.toString());
+        const [amountX, amountY] = SwapMath.getRemoveLiquidityAmounts(
+          balance.lpBalance,
+          BigNumber(pool.bal_x.toString()),
+          BigNumber(pool.bal_y.toString()),
+          lpSupply
+        );
+        positions.push({
+          ...balance,
+          poolId: pool.id,
+          share: balance.lpBalance.dividedBy(lpSupply),
+          amountX,
+          amountY,
+          pool,
+        });
+      });
+
+      return {
+        status: true,
+        data: positions,
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Get volume, fee and APR statistics of a pool over a time window
+   * Pages backwards through the DipCoin events until the window start or the
+   * page limit, so long windows on busy protocols take several requests.
+   * @param poolId The ID of the pool
+   * @param params Time window, defaults to the last 24 hours
+   * @returns {Promise<SDKResponse<PoolStats>>} Pool statistics response
+   */
+  public async getPoolStats(
+    poolId: string,
+    params: PoolStatsParams = {}
+  ): Promise<SDKResponse<PoolStats>> {
+    try {
+      const endTime = params.endTime ?? Date.now();
+      const startTime = params.startTime ?? endTime - DEFAULT_STATS_WINDOW_MS;
+      if (startTime >= endTime) {
+        throw new InvalidParamsError("startTime must be before endTime");
+      }
+      const maxPages = params.maxPages ?? STATS_MAX_EVENT_PAGES;
+      if (!Number.isInteger(maxPages) || maxPages <= 0) {
+        throw new InvalidParamsError("maxPages must be a positive integer");
+      }
+
+      const [poolResponse, globalResponse] = await Promise.all([
+        this.getPool(poolId),
+        this.getGlobal(),
+      ]);
+      const pool = this.getResponseData(poolResponse, "pool");
+      const global = this.getResponseData(globalResponse, "global config");
+
+      // Newest events first, stop at the first page reaching past the window start
+      const events: DipCoinEvent[] = [];
+      let cursor: EventId | null = null;
+      let reachedStart = false;
+      let pages = 0;
+      do {
+        const page = await this.client.queryEvents({
+          query: {
+            MoveEventModule: {
+              package: this.originalPackageId,
+              module: "manage",
+            },
+          },
+          cursor,
+          limit: EVENT_PAGE_LIMIT,
+          order: "descending",
+        });
+        for (const event of parseDipCoinEvents(
+          page.data,
+          this.originalPackageId
+        )) {
+          if (event.poolId === pool.id) {
+            events.push(event);
+          }
+        }
+        // The last event of a descending page is its oldest
+        const oldest = page.data[page.data.length - 1];
+        reachedStart = !oldest || Number(oldest.timestampMs ?? 0) < startTime;
+        cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+        pages++;
+      } while (cursor && !reachedStart && pages < maxPages);
+
+      return {
+        status: true,
+        data: {
+          ...PoolAnalytics.aggregate(pool, global, events, startTime, endTime),
+          isTruncated: !!cursor && !reachedStart,
+        },
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Subscribe to the events of a pool
+   * Events are polled with a cursor and delivered in order together with the
+   * pool state loaded after them. Pass a saved cursor in options to resume.
+   * @param poolId The ID of the pool
+   * @param handler Handler called for every swap, add and remove liquidity event
+   * @param options Subscription options
+   * @returns {PoolEventSubscription} Running subscription, call unsubscribe to stop it
+   */
+  public subscribePool(
+    poolId: string,
+    handler: PoolEventHandler,
+    options?: SubscribeOptions
+  ): PoolEventSubscription {
+    return this.subscribe(handler, options, poolId);
+  }
+
+  /**
+   * Subscribe to the events of every pool
+   * @param handler Handler called for every swap, add and remove liquidity event
+   * @param options Subscription options
+   * @returns {PoolEventSubscription} Running subscription, call unsubscribe to stop it
+   */
+  public subscribeAllPools(
+    handler: PoolEventHandler,
+    options?: SubscribeOptions
+  ): PoolEventSubscription {
+    return this.subscribe(handler, options);
+  }
+
+  private subscribe(
+    handler: PoolEventHandler,
+    options?: SubscribeOptions,
+    poolId?: string
+  ): PoolEventSubscription {
+    const subscription = new PoolEventSubscription(
+      this.client,
+      this.originalPackageId,
+      // Events change reserves, so cached pool state is always refetched
+      (poolIds) => this.fetchPools(poolIds),
+      handler,
+      options,
+      poolId
+    );
+    subscription.start();
+    return subscription;
+  }
+
+  /**
+   * Get global configuration information
+   * @returns {Promise<SDKResponse<Global>>} Global configuration response
+   */
+  public async getGlobal(): Promise<SDKResponse<Global>> {
+    try {
+      const global = await getGlobal(this.client, this.options.globalId);
+      if (!global) {
+        throw new DipCoinError("Global config not found");
+      }
+
+      return {
+        status: true,
+        data: global,
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Check that the protocol is not paused before building router calls
+   * The DEX does not publish its abort codes, so a paused protocol is reported
+   * from the Global config instead of being decoded from the abort.
+   * @throws {ProtocolPausedError} If the Global config has the protocol paused
+   */
+  private async assertNotPaused(): Promise<void> {
+    const global = this.getResponseData(
+      await this.getGlobal(),
+      "global config"
+    );
+    if (global.has_paused) {
+      throw new ProtocolPausedError();
+    }
+  }
+
+  /**
+   * Unwrap the data of a successful query response
+   * @param response Query response
+   * @param name Name of the queried object used in the error message
+   * @returns Response data
+   * @throws {DipCoinError} With the code of the failed query, e.g. PoolNotFound
+   *         for a missing pool and Unknown for an RPC failure
+   */
+  private getResponseData<T>(response: SDKResponse<T>, name: string): T {
+    if (!response.status || response.data === undefined) {
+      const message = `Failed to get ${name}: ${response.error}`;
+      if (response.errorCode === DipCoinErrorCode.PoolNotFound) {
+        throw new PoolNotFoundError(message);
+      }
+      throw new DipCoinError(message, response.errorCode);
+    }
+    return response.data;
+  }
+
+  /**
+   * Detect a package upgrade
+   * The original package is read from the type of the Global object, and the
+   * latest package from the UpgradeCap created when the original package was
+   * published. The status is returned for the caller to report, nothing is logged.
+   * @param upgradeCapId Optional UpgradeCap object ID, found from the publish transaction if omitted
+   * @returns {Promise<SDKResponse<PackageUpgradeStatus>>} Upgrade status response
+   */
+  public async checkPackageUpgrade(
+    upgradeCapId?: string
+  ): Promise<SDKResponse<PackageUpgradeStatus>> {
+    try {
+      const packageId = normalizeSuiAddress(this.options.packageId);
+      const globalObject = await this.client.getObject({
+        id: this.options.globalId,
+        options: { showType: true },
+      });
+      if (!globalObject.data?.type) {
+        throw new DipCoinError("Global config not found");
+      }
+      const originalPackageId = normalizeSuiAddress(
+        parseStructTag(globalObject.data.type).address
+      );
+
+      const capId = normalizeSuiAddress(
+        upgradeCapId || (await this.findUpgradeCapId(originalPackageId))
+      );
+      const [cap, configured] = await this.client.multiGetObjects({
+        ids: [capId, packageId],
+        options: { showContent: true },
+      });
+      const content = cap.data?.content;
+      if (
+        content?.dataType !== "moveObject" ||
+        normalizeStructTag(content.type) !== UPGRADE_CAP_TYPE
+      ) {
+        throw new DipCoinError(
+          `UpgradeCap ${capId} not found, the package may have been made immutable`
+        );
+      }
+      const capFields = content.fields as { package: string; version: string };
+      const latestPackageId = normalizeSuiAddress(capFields.package);
+
+      return {
+        status: true,
+        data: {
+          packageId,
+          packageVersion: Number(configured.data?.version ?? 0),
+          originalPackageId,
+          upgradeCapId: capId,
+          latestPackageId,
+          latestPackageVersion: Number(capFields.version),
+          isStale: latestPackageId !== packageId,
+          isOriginalMismatch:
+            normalizeSuiAddress(this.originalPackageId) !== originalPackageId,
+        },
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Find the UpgradeCap created by the transaction that published a package
+   * @param originalPackageId ID of the first version of the package
+   * @returns UpgradeCap object ID
+   * @throws {DipCoinError} If the publish transaction is not available or created no UpgradeCap
+   */
+  private async findUpgradeCapId(originalPackageId: string): Promise<string> {
+    // Packages are immutable, their previous transaction is the publish
+    const packageObject = await this.client.getObject({
+      id: originalPackageId,
+      options: { showPreviousTransaction: true },
+    });
+    const digest = packageObject.data?.previousTransaction;
+    if (!digest) {
+      throw new DipCoinError(`Package ${originalPackageId} not found`);
+    }
+
+    const publish = await this.client.getTransactionBlock({
+      digest,
+      options: { showObjectChanges: true },
+    });
+    const cap = publish.objectChanges?.find(
+      (change) =>
+        change.type === "created" &&
+        normalizeStructTag(change.objectType) === UPGRADE_CAP_TYPE
+    );
+    if (cap?.type !== "created") {
+      throw new DipCoinError(
+        `No UpgradeCap was created by ${digest}, the publish of ${originalPackageId}`
+      );
+    }
+    return cap.objectId;
+  }
+
+  /**
+   * List pools registered in the global pools table
+   * Entries that cannot be read are skipped and reported, the other pools are
+   * still listed.
+   * @param tokenType Optional coin type, only pools containing this coin are returned
+   * @returns {Promise<SDKResponse<PoolList>>} Registered pools and skipped entries response
+   */
+  public async listPools(tokenType?: string): Promise<SDKResponse<PoolList>> {
+    try {
+      // Page through the dynamic fields of the registered pools table
+      const fieldIds: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await this.client.getDynamicFields({
+          parentId: this.options.registedPoolsId,
+          cursor,
+        });
+        fieldIds.push(...page.data.map((field) => field.objectId));
+        cursor = page.hasNextPage ? page.nextCursor : null;
+      } while (cursor);
+
+      // Each table entry maps an LP name to its pool address
+      let entries: {
+        entryId: string;
+        lpName: string;
+        typeX: string;
+        typeY: string;
+        poolAddress: string;
+      }[] = [];
+      const skipped: SkippedPoolEntry[] = [];
+      for (let i = 0; i < fieldIds.length; i += MULTI_GET_OBJECTS_LIMIT) {
+        const objects = await this.client.multiGetObjects({
+          ids: fieldIds.slice(i, i + MULTI_GET_OBJECTS_LIMIT),
+          options: { showContent: true },
+        });
+        objects.forEach((object, index) => {
+          const entryId = fieldIds[i + index];
+          if (object.data?.content?.dataType !== "moveObject") {
+            skipped.push({ entryId, error: "Table entry not found" });
+            return;
+          }
+          const keyValue = object.data.content.fields as {
+            name?: unknown;
+            value?: unknown;
+          };
+          if (
+            typeof keyValue.name !== "string" ||
+            typeof keyValue.value !== "string"
+          ) {
+            skipped.push({ entryId, error: "Table entry is not a pool" });
+            return;
+          }
+          try {
+            const [typeX, typeY] = parseLpName(keyValue.name);
+            entries.push({
+              entryId,
+              lpName: keyValue.name,
+              typeX,
+              typeY,
+              poolAddress: keyValue.value,
+            });
+          } catch (error) {
+            skipped.push({
+              entryId,
+              lpName: keyValue.name,
+              poolAddress: keyValue.value,
+              error: formatError(error),
+            });
+          }
+        });
+      }
+
+      if (tokenType) {
+        const normalizedType = normalizeStructTag(tokenType);
+        entries = entries.filter(
+          (entry) =>
+            normalizeStructTag(entry.typeX) === normalizedType ||
+            normalizeStructTag(entry.typeY) === normalizedType
+        );
+      }
+
+      // Batch load pool objects
+      const pools = await this.fetchPools(
+        entries.map((entry) => entry.poolAddress)
+      );
+      const poolInfos: PoolInfo[] = [];
+      pools.forEach((pool, index) => {
+        const { entryId, ...entry } = entries[index];
+        if (pool) {
+          poolInfos.push({ ...pool, ...entry });
+        } else {
+          skipped.push({
+            entryId,
+            lpName: entry.lpName,
+            poolAddress: entry.poolAddress,
+            error: "Pool not found or not a Pool object",
+          });
+        }
+      });
+
+      return {
+        status: true,
+        data: { pools: poolInfos, skipped },
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
+
+  /**
+   * Get pool ID for a given token pair
+   * @param typeX First token type
+   * @param typeY Second token type
+   * @returns {Promise<string>} Pool ID if found
+   */
+  public async getPoolId(typeX: string, typeY: string): Promise<string> {
+    try {
+      const poolId = await this.findPoolId(typeX, typeY);
+      if (!poolId) {
+        throw new PoolNotFoundError();
+      }
+      return poolId;
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Fetch pools with batched requests and store them in the pool cache
+   * @param poolIds The IDs of the pools to fetch
+   * @returns Pools in request order, null for pools not found
+   */
+  private async fetchPools(poolIds: string[]): Promise<(Pool | null)[]> {
+    const pools = await getPools(this.client, poolIds);
+    pools.forEach((pool, index) => {
+      if (pool) {
+        this.poolCache?.set(poolIds[index], pool);
+      } else {
+        this.poolCache?.invalidate(poolIds[index]);
+      }
+    });
+    return pools;
+  }
+
+  /**
+   * Look up the registered pool ID for a given token pair
+   * @param typeX First token type
+   * @param typeY Second token type
+   * @returns {Promise<string | null>} Pool ID, or null if the pair has no pool
+   */
+  private async findPoolId(
+    typeX: string,
+    typeY: string
+  ): Promise<string | null> {
+    // Generate LP name from token types
+    const lpName = getLpName(typeX, typeY);
+
+    // Query dynamic field object to get pool ID
+    const response = await this.client.getDynamicFieldObject({
+      parentId: this.options.registedPoolsId,
+      name: {
+        type: "0x1::string::String", // key type
+        value: lpName,
+      },
+    });
+
+    if (response.data?.content) {
+      // Check if it is a moveObject type
+      if (response.data.content.dataType === "moveObject") {
+        const keyValue = response.data.content.fields as {
+          name: string;
+          value: string;
+        };
+
+        if (keyValue.name === lpName) {
+          return keyValue.value;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Split an input coin from the owner's balance
+   * SUI is taken from the gas coin unless the transaction is sponsored, in which
+   * case the gas coin belongs to the sponsor and the owner's SUI coins are used.
+   * @param ownerAddress The address of the coin owner
+   * @param type The coin type (format: packageId::module::struct)
+   * @param amount The amount to split
+   * @param tx The transaction object to add the split operation to
+   * @param options Build options
+   * @returns {Promise<TransactionObjectArgument>} Split coin result
+   */
+  private async splitInputCoin(
+    ownerAddress: string,
+    type: string,
+    amount: BigNumber,
+    tx: Transaction,
+    options: BuildTxOptions
+  ): Promise<TransactionObjectArgument> {
+    if (normalizeStructTag(type) !== COIN_TYPE_SUI) {
+      return this.splitCoin(ownerAddress, type, amount, tx);
+    }
+    tx.setSender(ownerAddress);
+    return coinWithBalance({
+      balance: toU64(amount),
+      type: COIN_TYPE_SUI,
+      useGasCoin: !options.sponsored,
+    });
+  }
+
+  /**
+   * Get the metadata of a coin, resolved once and cached
+   * @param coinType Coin type in package::module::struct format
+   * @returns {Promise<SDKResponse<CoinInfo>>} Decimals, symbol and name of the coin
    */
-  public async getPool(poolId: string): Promise<SDKResponse<Pool>> {
+  public async getCoinInfo(coinType: string): Promise<SDKResponse<CoinInfo>> {
     try {
-      const pool = await getPool(this.client, poolId);
-      if (!pool) {
-        throw new Error("Pool not found");
-      }
-
       return {
         status: true,
-        data: pool,
+        data: await this.coinMetadata.require(coinType),
       };
     } catch (error) {
       return {
         status: false,
         error: formatError(error),
+        errorCode: toDipCoinError(error).code,
       };
     }
   }
 
   /**
-   * Get global configuration information
-   * @returns {Promise<SDKResponse<Global>>} Global configuration response
+   * Register the metadata of a coin, e.g. one that publishes no CoinMetadata
+   * @param info Coin metadata used instead of the on-chain metadata
    */
-  public async getGlobal(): Promise<SDKResponse<Global>> {
+  public setCoinInfo(info: CoinInfo): void {
+    this.coinMetadata.set(info);
+  }
+
+  /**
+   * Convert an amount in whole coins to base units with the coin decimals
+   * @param coinType Coin type in package::module::struct format
+   * @param amount Amount in whole coins, e.g. "1.5" for 1.5 USDC
+   * @param name Parameter name used in the error message
+   * @returns {Promise<BigNumber>} Amount in base units
+   */
+  public async toBaseUnits(
+    coinType: string,
+    amount: UiAmount,
+    name = "amount"
+  ): Promise<BigNumber> {
     try {
-      const global = await getGlobal(this.client, this.options.globalId);
-      if (!global) {
-        throw new Error("Global config not found");
-      }
+      const { decimals } = await this.coinMetadata.require(coinType);
+      return toBaseUnits(amount, decimals, name);
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Convert an amount in base units to whole coins with the coin decimals
+   * @param coinType Coin type in package::module::struct format
+   * @param amount Amount in base units
+   * @returns {Promise<string>} Amount in whole coins, e.g. "1.5" for 1500000 USDC base units
+   */
+  public async toUiAmount(
+    coinType: string,
+    amount: U64Amount
+  ): Promise<string> {
+    try {
+      const { decimals } = await this.coinMetadata.require(coinType);
+      return fromBaseUnits(amount, decimals);
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Convert pool creation parameters in whole coins to base units
+   * @param params Pool creation parameters with amounts in whole coins
+   * @returns {Promise<CreatePoolParams>} Parameters accepted by createPool
+   */
+  public async fromUiCreatePoolParams(
+    params: UiCreatePoolParams
+  ): Promise<CreatePoolParams> {
+    const [amountX, amountY] = await Promise.all([
+      this.toBaseUnits(params.typeX, params.amountX, "amountX"),
+      this.toBaseUnits(params.typeY, params.amountY, "amountY"),
+    ]);
+    return { ...params, amountX, amountY };
+  }
+
+  /**
+   * Convert add liquidity parameters in whole coins to base units
+   * @param params Add liquidity parameters with amounts in whole coins
+   * @returns {Promise<AddLiquidityParams>} Parameters accepted by addLiquidity
+   */
+  public async fromUiAddLiquidityParams(
+    params: UiAddLiquidityParams
+  ): Promise<AddLiquidityParams> {
+    const [amountX, amountY] = await Promise.all([
+      this.toBaseUnits(params.typeX, params.amountX, "amountX"),
+      this.toBaseUnits(params.typeY, params.amountY, "amountY"),
+    ]);
+    return { ...params, amountX, amountY };
+  }
+
+  /**
+   * Convert swap parameters in whole coins to base units
+   * amountIn uses the decimals of typeX and amountOut those of typeY.
+   * @param params Swap parameters with amounts in whole coins
+   * @returns {Promise<SwapParams>} Parameters accepted by the swap and quote methods
+   */
+  public async fromUiSwapParams(params: UiSwapParams): Promise<SwapParams> {
+    const { amountIn, amountOut, ...swapParams } = params;
+    const result: SwapParams = swapParams;
+    if (amountIn !== undefined) {
+      result.amountIn = await this.toBaseUnits(
+        params.typeX,
+        amountIn,
+        "amountIn"
+      );
+    }
+    if (amountOut !== undefined) {
+      result.amountOut = await this.toBaseUnits(
+        params.typeY,
+        amountOut,
+        "amountOut"
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Convert transfer parameters in whole coins to base units
+   * @param params Transfer parameters with the amount in whole coins
+   * @returns {Promise<TransferParams>} Parameters accepted by transfer
+   */
+  public async fromUiTransferParams(
+    params: UiTransferParams
+  ): Promise<TransferParams> {
+    return {
+      ...params,
+      amount: await this.toBaseUnits(params.coinType, params.amount),
+    };
+  }
 
+  /**
+   * Create a new liquidity pool with amounts in whole coins
+   * @param signer The keypair or signer for signing the transaction
+   * @param params Pool creation parameters with amounts in whole coins
+   * @param options Execution options, set dryRun to only simulate the transaction
+   * @returns {Promise<TxResponse>} Transaction response containing status, txId and createdPoolId
+   */
+  public async createPoolUi(
+    signer: Keypair | DipCoinSigner,
+    params: UiCreatePoolParams,
+    options?: ExecuteOptions
+  ): Promise<TxResponse> {
+    try {
+      return await this.createPool(
+        signer,
+        await this.fromUiCreatePoolParams(params),
+        options
+      );
+    } catch (error) {
       return {
-        status: true,
-        data: global,
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
       };
+    }
+  }
+
+  /**
+   * Add liquidity with amounts in whole coins
+   * @param signer The keypair or signer for signing the transaction
+   * @param params Add liquidity parameters with amounts in whole coins
+   * @param options Execution options, set dryRun to only simulate the transaction
+   * @returns {Promise<TxResponse>} Transaction response containing status and txId
+   */
+  public async addLiquidityUi(
+    signer: Keypair | DipCoinSigner,
+    params: UiAddLiquidityParams,
+    options?: ExecuteOptions
+  ): Promise<TxResponse> {
+    try {
+      return await this.addLiquidity(
+        signer,
+        await this.fromUiAddLiquidityParams(params),
+        options
+      );
     } catch (error) {
       return {
+        txId: "",
         status: false,
         error: formatError(error),
+        errorCode: toDipCoinError(error).code,
       };
     }
   }
 
   /**
-   * Get pool ID for a given token pair
-   * @param typeX First token type
-   * @param typeY Second token type
-   * @returns {Promise<string>} Pool ID if found
+   * Swap an exact amount of token X for token Y, amountIn in whole coins
+   * @param signer The keypair or signer for signing the transaction
+   * @param params Swap parameters with amountIn in whole coins
+   * @param options Execution options, set dryRun to only simulate the transaction
+   * @returns {Promise<TxResponse>} Transaction response containing status and txId
    */
-  public async getPoolId(typeX: string, typeY: string): Promise<string> {
+  public async swapExactXToYUi(
+    signer: Keypair | DipCoinSigner,
+    params: UiSwapParams,
+    options?: ExecuteOptions
+  ): Promise<TxResponse> {
     try {
-      // Generate LP name from token types
-      let lpName = getLpName(typeX, typeY);
+      return await this.swapExactXToY(
+        signer,
+        await this.fromUiSwapParams(params),
+        options
+      );
+    } catch (error) {
+      return {
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
 
-      // Query dynamic field object to get pool ID
-      const response = await this.client.getDynamicFieldObject({
-        parentId: this.options.registedPoolsId,
-        name: {
-          type: "0x1::string::String", // key type
-          value: lpName,
-        },
-      });
+  /**
+   * Swap token X for an exact amount of token Y, amountOut in whole coins
+   * @param signer The keypair or signer for signing the transaction
+   * @param params Swap parameters with amountOut in whole coins
+   * @param options Execution options, set dryRun to only simulate the transaction
+   * @returns {Promise<TxResponse>} Transaction response containing status and txId
+   */
+  public async swapXToExactYUi(
+    signer: Keypair | DipCoinSigner,
+    params: UiSwapParams,
+    options?: ExecuteOptions
+  ): Promise<TxResponse> {
+    try {
+      return await this.swapXToExactY(
+        signer,
+        await this.fromUiSwapParams(params),
+        options
+      );
+    } catch (error) {
+      return {
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
 
-      if (response.data?.content) {
-        // Check if it is a moveObject type
-        if (response.data.content.dataType === "moveObject") {
-          const keyValue = response.data.content.fields as {
-            name: string;
-            value: string;
-          };
+  /**
+   * Transfer coins to another address, amount in whole coins
+   * @param signer The keypair or signer for signing the transaction
+   * @param params Transfer parameters with the amount in whole coins
+   * @param options Execution options, set dryRun to only simulate the transaction
+   * @returns {Promise<TxResponse>} Transaction response containing status and txId
+   */
+  public async transferUi(
+    signer: Keypair | DipCoinSigner,
+    params: UiTransferParams,
+    options?: ExecuteOptions
+  ): Promise<TxResponse> {
+    try {
+      return await this.transfer(
+        signer,
+        await this.fromUiTransferParams(params),
+        options
+      );
+    } catch (error) {
+      return {
+        txId: "",
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
+    }
+  }
 
-          if (keyValue.name === lpName) {
-            return keyValue.value;
-          }
-        }
+  /**
+   * Quote a swap of an exact amount of token X, amounts in whole coins
+   * @param params Swap parameters with amountIn in whole coins
+   * @returns {Promise<SDKResponse<UiSwapQuote>>} Quote with formatted amounts
+   */
+  public async quoteExactInUi(
+    params: UiSwapParams
+  ): Promise<SDKResponse<UiSwapQuote>> {
+    return this.quoteUi(params, (swapParams) => this.quoteExactIn(swapParams));
+  }
+
+  /**
+   * Quote a swap for an exact amount of token Y, amounts in whole coins
+   * @param params Swap parameters with amountOut in whole coins
+   * @returns {Promise<SDKResponse<UiSwapQuote>>} Quote with formatted amounts
+   */
+  public async quoteExactOutUi(
+    params: UiSwapParams
+  ): Promise<SDKResponse<UiSwapQuote>> {
+    return this.quoteUi(params, (swapParams) => this.quoteExactOut(swapParams));
+  }
+
+  /**
+   * Quote a swap in base units and format the quote with the coin decimals
+   * @param params Swap parameters with amounts in whole coins
+   * @param quote Quote method called with the converted parameters
+   * @returns Quote with formatted amounts
+   */
+  private async quoteUi(
+    params: UiSwapParams,
+    quote: (params: SwapParams) => Promise<SDKResponse<SwapQuote>>
+  ): Promise<SDKResponse<UiSwapQuote>> {
+    try {
+      const [coinIn, coinOut, response] = await Promise.all([
+        this.coinMetadata.require(params.typeX),
+        this.coinMetadata.require(params.typeY),
+        this.fromUiSwapParams(params).then(quote),
+      ]);
+      if (!response.status || !response.data) {
+        return {
+          status: false,
+          error: response.error,
+          errorCode: response.errorCode,
+        };
       }
-      throw new Error("Pool not found");
+
+      const data = response.data;
+      const formatIn = (amount: BigNumber) =>
+        fromBaseUnits(amount, coinIn.decimals);
+      const formatOut = (amount: BigNumber) =>
+        fromBaseUnits(amount, coinOut.decimals);
+      // Prices are output base units per input base unit
+      const priceShift = coinIn.decimals - coinOut.decimals;
+      return {
+        status: true,
+        data: {
+          coinIn,
+          coinOut,
+          amountIn: formatIn(data.amountIn),
+          amountOut: formatOut(data.amountOut),
+          amountOutMin: data.amountOutMin && formatOut(data.amountOutMin),
+          amountInMax: data.amountInMax && formatIn(data.amountInMax),
+          lpFee: formatIn(data.lpFee),
+          protocolFee: formatIn(data.protocolFee),
+          spotPriceBefore: data.spotPriceBefore.shiftedBy(priceShift),
+          spotPriceAfter: data.spotPriceAfter.shiftedBy(priceShift),
+          executionPrice: data.executionPrice.shiftedBy(priceShift),
+          priceImpact: data.priceImpact,
+        },
+      };
     } catch (error) {
-      throw new Error(formatError(error));
+      return {
+        status: false,
+        error: formatError(error),
+        errorCode: toDipCoinError(error).code,
+      };
     }
   }
 
@@ -690,57 +2877,36 @@ export class DipCoinSDK {
    * @param type The coin type (format: packageId::module::struct)
    * @param amount The amount to split
    * @param tx The transaction object to add the split operation to
+   * @param strategy Optional coin selection strategy, defaults to the SDK option
    * @returns {Promise<{ $kind: "NestedResult"; NestedResult: [number, number] }>} Split coin result
    */
   public async splitCoin(
     ownerAddress: string,
     type: string,
-    amount: BigNumber,
-    tx: Transaction
+    amount: U64Amount,
+    tx: Transaction,
+    strategy?: CoinSelectionStrategy
   ): Promise<{ $kind: "NestedResult"; NestedResult: [number, number] }> {
     try {
-      // Query available coins of specified type
-      const coins = await this.client.getCoins({
-        owner: ownerAddress,
-        coinType: type,
-      });
-      if (!coins || coins.data.length === 0) {
-        throw new Error(`no ${type} coins available`);
-      }
-
-      // Select and accumulate coins until target amount is reached
-      let selectedCoins: string[] = [];
-      let totalAmount = BigNumber(0);
-      for (const coin of coins.data) {
-        selectedCoins.push(coin.coinObjectId);
-        totalAmount = totalAmount.plus(BigNumber(coin.balance));
-        if (totalAmount.gte(amount)) {
-          break;
-        }
-      }
-
-      if (selectedCoins.length === 0 || totalAmount.lt(amount)) {
-        throw new Error(
-          `${type} balance is not enough, current total balance:${totalAmount}`
-        );
-      }
-
-      // Merge multiple coins if necessary
-      if (selectedCoins.length > 1) {
-        tx.mergeCoins(
-          tx.object(selectedCoins[0]), // Target coin (merge into first coin)
-          selectedCoins.slice(1).map((id) => tx.object(id)) // Other coins to merge
-        );
-      }
+      // Select and merge coins until target amount is reached
+      const splitAmount = parseU64(amount);
+      const mergedCoin = await this.selectAndMergeCoins(
+        this.client,
+        ownerAddress,
+        type,
+        splitAmount,
+        tx,
+        strategy
+      );
 
       // Split requested amount from merged coin
-      const [newCoin] = tx.splitCoins(tx.object(selectedCoins[0]), [
-        tx.pure.u64(amount.toNumber()),
+      const [newCoin] = tx.splitCoins(mergedCoin, [
+        tx.pure.u64(toU64(splitAmount)),
       ]);
 
       return newCoin;
     } catch (error) {
-      throw new Error(formatError(error));
+      throw toDipCoinError(error);
     }
   }
 
@@ -751,87 +2917,132 @@ export class DipCoinSDK {
    * @param type The coin type (format: packageId::module::struct)
    * @param amount The amount to get
    * @param tx The transaction object to add the split operation to
+   * @param strategy Optional coin selection strategy, defaults to the SDK option
    * @returns {Promise<{ $kind: "NestedResult"; NestedResult: [number, number] }>}
    */
   public async getMergedCoin(
     client: SuiClient,
     ownerAddress: string,
     type: string,
-    amount: BigNumber,
-    tx: Transaction
+    amount: U64Amount,
+    tx: Transaction,
+    strategy?: CoinSelectionStrategy
   ): Promise<{
     $kind: "Input";
     Input: number;
     type?: "object";
   }> {
     try {
-      // Query available coins of specified type
-      const coins = await client.getCoins({
-        owner: ownerAddress,
-        coinType: type,
-      });
-      if (!coins || coins.data.length === 0) {
-        throw new Error(`no ${type} coins available`);
-      }
-
-      // Select and accumulate coins until target amount is reached
-      let selectedCoins: string[] = [];
-      let totalAmount = BigNumber(0);
-      for (const coin of coins.data) {
-        selectedCoins.push(coin.coinObjectId);
-        totalAmount = totalAmount.plus(BigNumber(coin.balance));
-        if (totalAmount.gte(amount)) {
-          break;
-        }
-      }
+      return await this.selectAndMergeCoins(
+        client,
+        ownerAddress,
+        type,
+        parseU64(amount),
+        tx,
+        strategy
+      );
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
 
-      if (selectedCoins.length === 0 || totalAmount.lt(amount)) {
-        throw new Error(
-          `${type} balance is not enough, current total balance:${totalAmount}`
-        );
-      }
+  /**
+   * Select coins covering an amount across all pages of the owner's coins and
+   * merge them into the first selected coin
+   * Coins the transaction already takes, e.g. through a composer, are skipped.
+   * @param client The Sui client
+   * @param ownerAddress The address of the coin owner
+   * @param type The coin type (format: packageId::module::struct)
+   * @param amount The amount to cover
+   * @param tx The transaction object to add the merge operation to
+   * @param strategy Optional coin selection strategy, defaults to the SDK option
+   * @returns Merged coin input
+   */
+  private async selectAndMergeCoins(
+    client: SuiClient,
+    ownerAddress: string,
+    type: string,
+    amount: BigNumber,
+    tx: Transaction,
+    strategy?: CoinSelectionStrategy
+  ): Promise<{ $kind: "Input"; Input: number; type?: "object" }> {
+    // Query all available coins of specified type, skipping coins the transaction already takes
+    const takenCoinIds = getTakenCoinIds(tx);
+    const coins = (await getAllCoins(client, ownerAddress, type)).filter(
+      (coin) => !takenCoinIds.has(coin.coinObjectId)
+    );
+    if (coins.length === 0) {
+      throw new InsufficientBalanceError(`no ${type} coins available`);
+    }
 
-      // Merge multiple coins if necessary
-      if (selectedCoins.length > 1) {
-        tx.mergeCoins(
-          tx.object(selectedCoins[0]), // Target coin (merge into first coin)
-          selectedCoins.slice(1).map((id) => tx.object(id)) // Other coins to merge
-        );
-      }
+    const selectedCoins = selectCoins(
+      coins,
+      amount,
+      strategy ||
+        this.options.coinSelectionStrategy ||
+        DEFAULT_COIN_SELECTION_STRATEGY,
+      MAX_COIN_INPUTS
+    );
+    if (!selectedCoins) {
+      const totalAmount = coins.reduce(
+        (total, coin) => total.plus(coin.balance),
+        BigNumber(0)
+      );
+      throw new InsufficientBalanceError(
+        totalAmount.lt(amount)
+          ? `${type} balance is not enough, current total balance:${totalAmount}`
+          : `${type} balance is spread over too many coins, more than ${MAX_COIN_INPUTS} coins are needed for amount:${amount}`
+      );
+    }
 
-      return tx.object(selectedCoins[0]);
-    } catch (error) {
-      throw new Error(formatError(error));
+    for (const coin of selectedCoins) {
+      takenCoinIds.add(coin.coinObjectId);
+    }
+
+    // Merge multiple coins if necessary
+    const [primaryCoin, ...otherCoins] = selectedCoins.map((coin) =>
+      tx.object(coin.coinObjectId)
+    );
+    if (otherCoins.length > 0) {
+      tx.mergeCoins(primaryCoin, otherCoins);
     }
+    return primaryCoin;
   }
 
   /**
    * Build transfer transaction
    * @param suiWalletAddress The address of the wallet
    * @param params Transfer parameters including recipient, coin type and amount
+   * @param options Build options, set sponsored when a sponsor pays the gas
    * @returns {Promise<Transaction>} Transaction object
    */
   public async buildTransferTx(
     suiWalletAddress: string,
-    params: TransferParams
+    params: TransferParams,
+    options: BuildTxOptions = {}
   ): Promise<Transaction> {
     try {
       // Validate input parameters
-      if (!params.to || !params.coinType || !params.amount) {
-        throw new Error("Recipient address, coin type and amount are required");
+      if (!params.to || !params.coinType || params.amount === undefined) {
+        throw new InvalidParamsError(
+          "Recipient address, coin type and amount are required"
+        );
       }
-      if (params.amount.lte(0)) {
-        throw new Error("Transfer amount must be greater than 0");
+      // A zero amount is rejected below as an invalid amount, not a missing one
+      const amount = parseU64(params.amount);
+      if (amount.lte(0)) {
+        throw new InvalidParamsError("Transfer amount must be greater than 0");
       }
 
       // Build transaction
       const tx = new Transaction();
 
+      // Sponsored transactions must not spend the sponsor's gas coin
       tx.setSender(suiWalletAddress);
       const splitCoin = coinWithBalance({
-        balance: params.amount.toNumber(),
+        balance: toU64(amount),
         type: params.coinType,
-        useGasCoin: true,
+        useGasCoin: !options.sponsored,
       });
 
       // Transfer the coin to recipient
@@ -839,42 +3050,297 @@ export class DipCoinSDK {
 
       return tx;
     } catch (error) {
-      throw new Error(formatError(error));
+      throw toDipCoinError(error);
     }
   }
 
   /**
    * Transfer coins to another address
-   * @param signer The keypair for signing the transaction
+   * @param signer The keypair or signer for signing the transaction
    * @param params Transfer parameters including recipient, coin type and amount
+   * @param options Execution options, set dryRun to only simulate the transaction
    * @returns {Promise<TxResponse>} Transaction response containing status and txId
    */
   public async transfer(
-    signer: Keypair,
-    params: TransferParams
+    signer: Keypair | DipCoinSigner,
+    params: TransferParams,
+    options?: ExecuteOptions
   ): Promise<TxResponse> {
     try {
+      const dipCoinSigner = toDipCoinSigner(signer);
       const tx: Transaction = await this.buildTransferTx(
-        signer.getPublicKey().toSuiAddress(),
-        params
+        await dipCoinSigner.getAddress(),
+        params,
+        { sponsored: !!options?.sponsor }
       );
 
-      // Sign and execute transaction
-      const result = await this.client.signAndExecuteTransaction({
-        signer: signer,
-        transaction: tx,
-      });
-
-      return {
-        txId: result.digest,
-        status: true,
-      };
+      return await this.executeTransaction(dipCoinSigner, tx, options);
     } catch (error) {
       return {
         txId: "",
         status: false,
         error: formatError(error),
+        errorCode: toDipCoinError(error).code,
       };
     }
   }
+
+  /**
+   * Build the transaction-kind bytes of a transaction for a gas station
+   * The bytes contain the commands only, without sender or gas data. Build the
+   * transaction with the sponsored build option so it does not use the gas coin.
+   * @param tx The transaction built with { sponsored: true }
+   * @returns {Promise<string>} Base64 transaction-kind bytes
+   */
+  public async buildSponsoredTxKind(tx: Transaction): Promise<string> {
+    try {
+      const kindBytes = await tx.build({
+        client: this.client,
+        onlyTransactionKind: true,
+      });
+      return toBase64(kindBytes);
+    } catch (error) {
+      throw toDipCoinError(error);
+    }
+  }
+
+  /**
+   * Build a sponsored transaction from transaction-kind bytes
+   * @param txKindBytes Base64 transaction-kind bytes
+   * @param sender The address of the user sending the transaction
+   * @param sponsor The address paying the gas
+   * @param gasPayment Optional sponsor coins used for gas, resolved from the sponsor's coins if omitted
+   * @returns {Promise<Transaction>} Transaction ready to be signed by sender and sponsor
+   */
+  public async buildSponsoredTx(
+    txKindBytes: string,
+    sender: string,
+    sponsor: string,
+    gasPayment?: SuiObjectRef[]
+  ): Promise<Transaction> {
+    const tx = Transaction.fromKind(txKindBytes);
+    tx.setSender(sender);
+    tx.setGasOwner(sponsor);
+    if (gasPayment) {
+      tx.setGasPayment(gasPayment);
+    }
+    return tx;
+  }
+
+  /**
+   * Simulate a transaction through a dry run without signing it
+   * @param tx The transaction to simulate
+   * @param sender The address that would sign the transaction
+   * @returns {Promise<SimulationResult>} Balance changes, gas estimate and failure reason
+   */
+  public async simulate(
+    tx: Transaction,
+    sender: string
+  ): Promise<SimulationResult> {
+    tx.setSenderIfNotSet(sender);
+
+    let bytes: Uint8Array;
+    try {
+      // Building resolves coins and estimates the gas budget, which fails if the transaction aborts
+      bytes = await tx.build({ client: this.client });
+    } catch (error) {
+      const message = formatError(error);
+      return {
+        status: false,
+        txId: "",
+        balanceChanges: [],
+        gasEstimate: BigNumber(0),
+        events: [],
+        ...this.getSimulationError(message),
+      };
+    }
+
+    const result = await this.client.dryRunTransactionBlock({
+      transactionBlock: bytes,
+    });
+    const { status, gasUsed, transactionDigest } = result.effects;
+    const error = status.status === "success" ? undefined : status.error;
+
+    return {
+      status: status.status === "success",
+      txId: transactionDigest,
+      events: parseDipCoinEvents(result, this.originalPackageId),
+      balanceChanges: parseBalanceChanges(result.balanceChanges),
+      gasEstimate: getGasCost(gasUsed),
+      ...(error ? this.getSimulationError(error) : {}),
+    };
+  }
+
+  /**
+   * Decode the failure reason of a simulated transaction
+   * @param error Execution error message
+   * @returns Error fields of the simulation result
+   */
+  private getSimulationError(
+    error: string
+  ): Pick<SimulationResult, "error" | "errorCode" | "abort"> {
+    const dipCoinError = toDipCoinError(error);
+    return {
+      error,
+      errorCode: dipCoinError.code,
+      abort: dipCoinError.abort,
+    };
+  }
+
+  /**
+   * Check that a sponsored transaction does not spend the sponsor's gas coin
+   * @param bytes Built transaction bytes
+   * @throws {InvalidParamsError} If a command takes the gas coin as an argument
+   */
+  private assertSponsorable(bytes: Uint8Array): void {
+    if (usesGasCoin(Transaction.from(bytes))) {
+      throw new InvalidParamsError(
+        "Sponsored transactions cannot take inputs from the gas coin, build them with { sponsored: true }"
+      );
+    }
+  }
+
+  /**
+   * Sign and execute a built transaction, or only simulate it in dry-run mode
+   * With a sponsor the transaction is signed by both the signer and the sponsor,
+   * and the sponsor's coins pay the gas.
+   * @param signer The keypair or signer for signing the transaction
+   * @param tx The transaction to execute
+   * @param options Execution options
+   * @returns {Promise<TxResponse>} Transaction response containing status and txId
+   */
+  public async executeTransaction(
+    signer: Keypair | DipCoinSigner,
+    tx: Transaction,
+    options: ExecuteOptions = {}
+  ): Promise<TxResponse> {
+    const dipCoinSigner = toDipCoinSigner(signer);
+    const sponsor = options.sponsor
+      ? toDipCoinSigner(options.sponsor)
+      : undefined;
+    const sender = await dipCoinSigner.getAddress();
+    tx.setSenderIfNotSet(sender);
+    if (sponsor) {
+      tx.setGasOwner(await sponsor.getAddress());
+    }
+
+    if (options.dryRun) {
+      const simulation = await this.simulate(tx, sender);
+      return {
+        txId: simulation.txId,
+        status: simulation.status,
+        error: simulation.error,
+        errorCode: simulation.errorCode,
+        simulation,
+        events: simulation.events,
+      };
+    }
+
+    // Object changes carry created pool IDs
+    const responseOptions = {
+      showEffects: true,
+      showEvents: true,
+      showObjectChanges: true,
+      showBalanceChanges: true,
+    };
+
+    let result: SuiTransactionBlockResponse;
+    let finalityError: string | undefined;
+    if (!sponsor && dipCoinSigner.executeTransaction) {
+      // The signer submits the transaction itself, fetch the full response from the node
+      const { digest } = await dipCoinSigner.executeTransaction(tx);
+      try {
+        result = await this.client.waitForTransaction({
+          digest,
+          options: responseOptions,
+          timeout: options.finalityTimeoutMs,
+        });
+      } catch (error) {
+        // The transaction is submitted, so its outcome is unknown rather than failed
+        return {
+          txId: digest,
+          status: false,
+          pending: true,
+          error: `Transaction ${digest} was submitted but its effects could not be fetched: ${formatError(
+            error
+          )}`,
+        };
+      }
+    } else {
+      const bytes = await tx.build({ client: this.client });
+      // The sponsor's gas coin must only pay gas, never fund transaction inputs
+      if (sponsor) {
+        this.assertSponsorable(bytes);
+      }
+
+      // Wallets may rebuild the transaction they sign, so the signed bytes are submitted
+      const signed = await dipCoinSigner.signTransaction(bytes);
+      const signatures = [signed.signature];
+      if (sponsor) {
+        if (signed.bytes !== toBase64(bytes)) {
+          this.assertSponsorable(fromBase64(signed.bytes));
+        }
+        const sponsorSigned = await sponsor.signTransaction(
+          fromBase64(signed.bytes)
+        );
+        if (sponsorSigned.bytes !== signed.bytes) {
+          throw new InvalidParamsError(
+            "The sponsor signed different transaction bytes than the sender"
+          );
+        }
+        signatures.push(sponsorSigned.signature);
+      }
+      result = await this.client.executeTransactionBlock({
+        transactionBlock: signed.bytes,
+        signature: signatures,
+        options: responseOptions,
+      });
+
+      // Wait until the transaction is checkpointed and indexed by the node
+      if (options.waitForFinality) {
+        try {
+          result = await this.client.waitForTransaction({
+            digest: result.digest,
+            options: responseOptions,
+            timeout: options.finalityTimeoutMs,
+          });
+        } catch (error) {
+          // The effects are already known, only the checkpoint is missing
+          finalityError = `Transaction ${
+            result.digest
+          } was not confirmed in a checkpoint: ${formatError(error)}`;
+        }
+      }
+    }
+
+    // Cached state of pools touched by the transaction is stale now
+    this.poolCache?.invalidate(
+      (result.effects?.mutated || []).map((object) => object.reference.objectId)
+    );
+
+    // Submitted transactions can still fail on chain, e.g. with a Move abort
+    const effectsStatus = result.effects?.status;
+    const succeeded = effectsStatus?.status === "success";
+    const error = succeeded
+      ? undefined
+      : effectsStatus?.error || "Transaction failed";
+
+    return {
+      txId: result.digest,
+      status: succeeded,
+      error,
+      errorCode: error ? toDipCoinError(error).code : undefined,
+      createdPoolId: getCreatedPoolId(
+        result.objectChanges,
+        this.originalPackageId
+      ),
+      events: parseDipCoinEvents(result, this.originalPackageId),
+      gasUsed: result.effects ? getGasCost(result.effects.gasUsed) : undefined,
+      balanceChanges: parseBalanceChanges(result.balanceChanges),
+      objectChanges: result.objectChanges || [],
+      checkpoint: result.checkpoint || undefined,
+      finalized: options.waitForFinality ? !finalityError : undefined,
+      finalityError,
+    };
+  }
 }
@@ -0,0 +1,23 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Transaction } from "@mysten/sui/transactions";
+
+// Shared by the composers and the SDK's coin splitting of a transaction
+const takenCoinIds = new WeakMap<Transaction, Set<string>>();
+
+/**
+ * Object IDs of the wallet coins a transaction already takes as inputs
+ * Coins selected for the transaction must be added, so later selections on the
+ * same transaction skip them.
+ * @param tx The transaction
+ * @returns Mutable set of coin object IDs
+ */
+export function getTakenCoinIds(tx: Transaction): Set<string> {
+  let coinIds = takenCoinIds.get(tx);
+  if (!coinIds) {
+    coinIds = new Set();
+    takenCoinIds.set(tx, coinIds);
+  }
+  return coinIds;
+}
@@ -0,0 +1,148 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Keypair } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { DipCoinSigner, SignedTransaction } from "../types";
+
+/**
+ * Wallet Standard account, only the fields used by the SDK
+ */
+export interface WalletStandardAccount {
+  address: string;
+}
+
+/**
+ * Input of the Wallet Standard `sui:signTransaction` and `sui:signAndExecuteTransaction` features
+ */
+interface WalletStandardTransactionInput {
+  transaction: { toJSON(): Promise<string> };
+  account: WalletStandardAccount;
+  chain: `${string}:${string}`;
+}
+
+/**
+ * Wallet Standard wallet, only the Sui features used by the SDK
+ */
+export interface WalletStandardWallet {
+  features: {
+    "sui:signTransaction"?: {
+      signTransaction(
+        input: WalletStandardTransactionInput
+      ): Promise<SignedTransaction>;
+    };
+    "sui:signAndExecuteTransaction"?: {
+      signAndExecuteTransaction(
+        input: WalletStandardTransactionInput
+      ): Promise<{ digest: string }>;
+    };
+  };
+}
+
+/**
+ * Signer backed by a local keypair
+ */
+export class KeypairSigner implements DipCoinSigner {
+  constructor(private readonly keypair: Keypair) {}
+
+  async getAddress(): Promise<string> {
+    return this.keypair.getPublicKey().toSuiAddress();
+  }
+
+  async signTransaction(bytes: Uint8Array): Promise<SignedTransaction> {
+    return this.keypair.signTransaction(bytes);
+  }
+}
+
+/**
+ * Signer backed by a browser wallet implementing the Wallet Standard
+ * Wallets that support `sui:signAndExecuteTransaction` submit the transaction
+ * themselves, others only sign and the SDK submits it.
+ */
+export class WalletStandardSigner implements DipCoinSigner {
+  public readonly executeTransaction?: (
+    tx: Transaction
+  ) => Promise<{ digest: string }>;
+
+  /**
+   * @param wallet Connected Wallet Standard wallet
+   * @param account Wallet account that signs the transactions
+   * @param chain Chain identifier, e.g. sui:mainnet or sui:testnet
+   */
+  constructor(
+    private readonly wallet: WalletStandardWallet,
+    private readonly account: WalletStandardAccount,
+    private readonly chain: `${string}:${string}`
+  ) {
+    const feature = wallet.features["sui:signAndExecuteTransaction"];
+    if (feature) {
+      this.executeTransaction = async (tx: Transaction) => {
+        const { digest } = await feature.signAndExecuteTransaction({
+          transaction: tx,
+          account: this.account,
+          chain: this.chain,
+        });
+        return { digest };
+      };
+    }
+  }
+
+  async getAddress(): Promise<string> {
+    return this.account.address;
+  }
+
+  async signTransaction(bytes: Uint8Array): Promise<SignedTransaction> {
+    const feature = this.wallet.features["sui:signTransaction"];
+    if (!feature) {
+      throw new Error("Wallet does not support sui:signTransaction");
+    }
+    return feature.signTransaction({
+      transaction: Transaction.from(bytes),
+      account: this.account,
+      chain: this.chain,
+    });
+  }
+}
+
+/**
+ * Signer that delegates signing to a callback, e.g. an HSM, a KMS or a multisig service
+ */
+export class CallbackSigner implements DipCoinSigner {
+  /**
+   * @param address Sui address the callback signs for
+   * @param sign Callback returning the serialized base64 signature of the transaction bytes
+   */
+  constructor(
+    private readonly address: string,
+    private readonly sign: (bytes: Uint8Array) => Promise<string>
+  ) {}
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(bytes: Uint8Array): Promise<SignedTransaction> {
+    return {
+      bytes: toBase64(bytes),
+      signature: await this.sign(bytes),
+    };
+  }
+}
+
+/**
+ * Wrap a keypair into a DipCoinSigner, signers are returned unchanged
+ * @param signer Keypair or signer
+ * @returns DipCoinSigner
+ */
+export function toDipCoinSigner(
+  signer: Keypair | DipCoinSigner
+): DipCoinSigner {
+  return isDipCoinSigner(signer) ? signer : new KeypairSigner(signer);
+}
+
+function isDipCoinSigner(
+  signer: Keypair | DipCoinSigner
+): signer is DipCoinSigner {
+  return typeof (signer as DipCoinSigner).getAddress === "function";
+}
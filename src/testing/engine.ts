@@ -0,0 +1,631 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import {
+  DipCoinEngineOptions,
+  DipCoinEngineState,
+  EngineEvent,
+  EngineResult,
+  Pool,
+  Global,
+} from "../types";
+import { getLpName, parseU64, SwapMath } from "../utils";
+import {
+  DEFAULT_MIN_ADD_LIQUIDITY_LP_AMOUNT,
+  EVENT_ADD_LIQUIDITY,
+  EVENT_REMOVE_LIQUIDITY,
+  EVENT_SWAP,
+  MAX_FEE_RATE,
+  MINIMUM_LIQUIDITY,
+} from "../constants";
+
+/**
+ * Abort codes raised by the engine for the router and manage modules
+ * These are placeholders: the published Move sources are not part of this
+ * repository, so the codes only tell the engine's aborts apart and do not
+ * match the on-chain values. errors.ts maps none of them, they surface as
+ * MOVE_ABORT with the module, function and code in `error.abort`.
+ */
+const PLACEHOLDER_ABORT_CODES = {
+  paused: 1,
+  poolExists: 2,
+  insufficientXAmount: 2,
+  insufficientYAmount: 3,
+  invalidFeeRate: 3,
+  zeroAmount: 4,
+  insufficientOutputAmount: 4,
+  emptyReserves: 5,
+  excessiveInputAmount: 5,
+  insufficientLiquidityMinted: 6,
+  insufficientLiquidity: 6,
+  belowMinAddLiquidity: 7,
+} as const;
+
+/**
+ * Abort raised by the engine where the Move contract would abort
+ */
+export class SimulatedAbort extends Error {
+  /**
+   * @param module Module raising the abort, a Sui framework module is prefixed with 0x2::
+   * @param functionName Function raising the abort
+   * @param code Abort code
+   */
+  constructor(
+    public readonly module: string,
+    public readonly functionName: string,
+    public readonly code: number
+  ) {
+    super(`${module}::${functionName} aborted with code ${code}`);
+    this.name = "SimulatedAbort";
+  }
+}
+
+/**
+ * In-memory replica of the DipCoin Pool and Global state machine
+ * Reserves, LP supply, the locked minimum liquidity and the protocol fee split
+ * follow the Move contract, aborts are raised as SimulatedAbort with the
+ * contract's module and a placeholder abort code, see PLACEHOLDER_ABORT_CODES.
+ */
+export class DipCoinEngine {
+  private state: DipCoinEngineState;
+  private readonly minAddLiquidityLpAmount: bigint;
+
+  /**
+   * @param globalId Object ID of the Global config
+   * @param options Initial engine state
+   */
+  constructor(globalId: string, options: DipCoinEngineOptions = {}) {
+    this.state = {
+      global: {
+        id: globalId,
+        has_paused: !!options.paused,
+        is_open_protocol_fee: !!options.openProtocolFee,
+      },
+      pools: new Map(),
+      poolTypes: new Map(),
+      registry: new Map(),
+    };
+    this.minAddLiquidityLpAmount = BigInt(
+      parseU64(
+        options.minAddLiquidityLpAmount ??
+          String(DEFAULT_MIN_ADD_LIQUIDITY_LP_AMOUNT),
+        "minAddLiquidityLpAmount"
+      ).toFixed()
+    );
+  }
+
+  /**
+   * Current Global config
+   */
+  get global(): Global {
+    return { ...this.state.global };
+  }
+
+  /**
+   * Pause or resume the protocol
+   * @param paused Whether swaps and liquidity operations abort
+   */
+  public setPaused(paused: boolean): void {
+    this.state.global.has_paused = paused;
+  }
+
+  /**
+   * Enable or disable the protocol fee
+   * @param open Whether a fifth of the swap fee is split off to the protocol
+   */
+  public setProtocolFee(open: boolean): void {
+    this.state.global.is_open_protocol_fee = open;
+  }
+
+  /**
+   * Get the state of a pool
+   * @param poolId Pool object ID
+   * @returns Pool state, or undefined if the pool does not exist
+   */
+  public getPool(poolId: string): Pool | undefined {
+    const pool = this.state.pools.get(poolId);
+    return pool && { ...pool };
+  }
+
+  /**
+   * Get the sorted token types of a pool
+   * @param poolId Pool object ID
+   * @returns Tuple of [typeX, typeY], or undefined if the pool does not exist
+   */
+  public getPoolTypes(poolId: string): [string, string] | undefined {
+    return this.state.poolTypes.get(poolId);
+  }
+
+  /**
+   * Registered pools table, LP names mapped to pool IDs
+   * @returns Table entries in registration order
+   */
+  public getRegisteredPools(): [string, string][] {
+    return [...this.state.registry.entries()];
+  }
+
+  /**
+   * Copy the engine state
+   * @returns Snapshot to pass to restore
+   */
+  public snapshot(): DipCoinEngineState {
+    return {
+      global: { ...this.state.global },
+      pools: new Map(
+        [...this.state.pools].map(([poolId, pool]) => [poolId, { ...pool }])
+      ),
+      poolTypes: new Map(this.state.poolTypes),
+      registry: new Map(this.state.registry),
+    };
+  }
+
+  /**
+   * Roll the engine back to a snapshot
+   * @param snapshot Snapshot taken with snapshot
+   */
+  public restore(snapshot: DipCoinEngineState): void {
+    this.state = snapshot;
+  }
+
+  /**
+   * Create a pool and seed it with its initial liquidity
+   * @param poolId Object ID of the new pool
+   * @param typeX Sorted token X type
+   * @param typeY Sorted token Y type
+   * @param amountX Token X deposited
+   * @param amountY Token Y deposited
+   * @param feeRate Swap fee rate in basis points
+   * @returns amounts holds the LP tokens minted to the creator
+   */
+  public createPool(
+    poolId: string,
+    typeX: string,
+    typeY: string,
+    amountX: BigNumber,
+    amountY: BigNumber,
+    feeRate: BigNumber
+  ): EngineResult {
+    this.assertNotPaused("create_pool");
+    const lpName = getLpName(
+      normalizeStructTag(typeX),
+      normalizeStructTag(typeY)
+    );
+    if (this.state.registry.has(lpName)) {
+      throw new SimulatedAbort(
+        "manage",
+        "create_pool",
+        PLACEHOLDER_ABORT_CODES.poolExists
+      );
+    }
+    if (feeRate.lte(0) || feeRate.gt(MAX_FEE_RATE)) {
+      throw new SimulatedAbort(
+        "manage",
+        "create_pool",
+        PLACEHOLDER_ABORT_CODES.invalidFeeRate
+      );
+    }
+    if (amountX.isZero() || amountY.isZero()) {
+      throw new SimulatedAbort(
+        "manage",
+        "create_pool",
+        PLACEHOLDER_ABORT_CODES.zeroAmount
+      );
+    }
+
+    // The first MINIMUM_LIQUIDITY LP tokens stay in the supply forever
+    const liquidity = amountX
+      .multipliedBy(amountY)
+      .sqrt()
+      .integerValue(BigNumber.ROUND_DOWN);
+    if (liquidity.lte(MINIMUM_LIQUIDITY)) {
+      throw new SimulatedAbort(
+        "manage",
+        "create_pool",
+        PLACEHOLDER_ABORT_CODES.insufficientLiquidityMinted
+      );
+    }
+    const lpAmount = SwapMath.getExpectedLiquidityAmount(
+      amountX,
+      amountY,
+      BigNumber(0),
+      BigNumber(0),
+      BigNumber(0)
+    );
+
+    const pool: Pool = {
+      id: poolId,
+      bal_x: BigInt(amountX.toFixed()),
+      bal_y: BigInt(amountY.toFixed()),
+      fee_bal_x: BigInt(0),
+      fee_bal_y: BigInt(0),
+      lp_supply: BigInt(liquidity.toFixed()),
+      fee_rate: BigInt(feeRate.toFixed()),
+      min_liquidity: BigInt(MINIMUM_LIQUIDITY),
+      min_add_liquidity_lp_amount: this.minAddLiquidityLpAmount,
+    };
+    this.state.pools.set(poolId, pool);
+    this.state.poolTypes.set(poolId, [typeX, typeY]);
+    this.state.registry.set(lpName, poolId);
+
+    return {
+      amounts: [lpAmount],
+      event: this.liquidityEvent(
+        EVENT_ADD_LIQUIDITY,
+        pool,
+        amountX,
+        amountY,
+        lpAmount
+      ),
+    };
+  }
+
+  /**
+   * Add liquidity at the pool ratio, the excess of one token is not taken
+   * @param poolId Pool object ID
+   * @param amountX Token X offered
+   * @param amountXMin Minimum token X deposited
+   * @param amountY Token Y offered
+   * @param amountYMin Minimum token Y deposited
+   * @returns amounts holds [amountX, amountY, lpAmount], the deposited tokens and the LP tokens minted
+   */
+  public addLiquidity(
+    poolId: string,
+    amountX: BigNumber,
+    amountXMin: BigNumber,
+    amountY: BigNumber,
+    amountYMin: BigNumber
+  ): EngineResult {
+    this.assertNotPaused("add_liquidity");
+    const pool = this.requirePool(poolId);
+    if (amountX.isZero() || amountY.isZero()) {
+      throw new SimulatedAbort(
+        "manage",
+        "add_liquidity",
+        PLACEHOLDER_ABORT_CODES.zeroAmount
+      );
+    }
+
+    const reserveX = BigNumber(pool.bal_x.toString());
+    const reserveY = BigNumber(pool.bal_y.toString());
+    let depositX: BigNumber;
+    let depositY: BigNumber;
+    try {
+      [depositX, depositY] = SwapMath.calcOptimalCoinValues(
+        amountX,
+        amountY,
+        reserveX,
+        reserveY
+      );
+    } catch {
+      throw new SimulatedAbort(
+        "manage",
+        "add_liquidity",
+        PLACEHOLDER_ABORT_CODES.insufficientLiquidityMinted
+      );
+    }
+    if (depositX.lt(amountXMin)) {
+      throw new SimulatedAbort(
+        "router",
+        "add_liquidity",
+        PLACEHOLDER_ABORT_CODES.insufficientXAmount
+      );
+    }
+    if (depositY.lt(amountYMin)) {
+      throw new SimulatedAbort(
+        "router",
+        "add_liquidity",
+        PLACEHOLDER_ABORT_CODES.insufficientYAmount
+      );
+    }
+
+    const lpAmount = SwapMath.getExpectedLiquidityAmount(
+      depositX,
+      depositY,
+      reserveX,
+      reserveY,
+      BigNumber(pool.lp_supply.toString())
+    );
+    if (lpAmount.lt(pool.min_add_liquidity_lp_amount.toString())) {
+      throw new SimulatedAbort(
+        "manage",
+        "add_liquidity",
+        PLACEHOLDER_ABORT_CODES.belowMinAddLiquidity
+      );
+    }
+
+    pool.bal_x += BigInt(depositX.toFixed());
+    pool.bal_y += BigInt(depositY.toFixed());
+    pool.lp_supply += BigInt(lpAmount.toFixed());
+
+    return {
+      amounts: [depositX, depositY, lpAmount],
+      event: this.liquidityEvent(
+        EVENT_ADD_LIQUIDITY,
+        pool,
+        depositX,
+        depositY,
+        lpAmount
+      ),
+    };
+  }
+
+  /**
+   * Burn LP tokens for their share of the reserves
+   * @param poolId Pool object ID
+   * @param lpAmount LP tokens burnt
+   * @param amountXMin Minimum token X withdrawn
+   * @param amountYMin Minimum token Y withdrawn
+   * @returns amounts holds [amountX, amountY], the withdrawn tokens
+   */
+  public removeLiquidity(
+    poolId: string,
+    lpAmount: BigNumber,
+    amountXMin: BigNumber,
+    amountYMin: BigNumber
+  ): EngineResult {
+    this.assertNotPaused("remove_liquidity");
+    const pool = this.requirePool(poolId);
+    if (lpAmount.isZero()) {
+      throw new SimulatedAbort(
+        "manage",
+        "remove_liquidity",
+        PLACEHOLDER_ABORT_CODES.zeroAmount
+      );
+    }
+
+    const [amountX, amountY] = SwapMath.getRemoveLiquidityAmounts(
+      lpAmount,
+      BigNumber(pool.bal_x.toString()),
+      BigNumber(pool.bal_y.toString()),
+      BigNumber(pool.lp_supply.toString())
+    );
+    if (amountX.lt(amountXMin)) {
+      throw new SimulatedAbort(
+        "router",
+        "remove_liquidity",
+        PLACEHOLDER_ABORT_CODES.insufficientXAmount
+      );
+    }
+    if (amountY.lt(amountYMin)) {
+      throw new SimulatedAbort(
+        "router",
+        "remove_liquidity",
+        PLACEHOLDER_ABORT_CODES.insufficientYAmount
+      );
+    }
+
+    pool.bal_x -= BigInt(amountX.toFixed());
+    pool.bal_y -= BigInt(amountY.toFixed());
+    pool.lp_supply -= BigInt(lpAmount.toFixed());
+
+    return {
+      amounts: [amountX, amountY],
+      event: this.liquidityEvent(
+        EVENT_REMOVE_LIQUIDITY,
+        pool,
+        amountX,
+        amountY,
+        lpAmount
+      ),
+    };
+  }
+
+  /**
+   * Swap an exact input amount
+   * @param poolId Pool object ID
+   * @param isXToY Whether token X is sold for token Y
+   * @param amountIn Input amount
+   * @param amountOutMin Minimum output amount
+   * @param functionName Router function reported in aborts
+   * @returns amounts holds [amountIn, amountOut]
+   */
+  public swapExactIn(
+    poolId: string,
+    isXToY: boolean,
+    amountIn: BigNumber,
+    amountOutMin: BigNumber,
+    functionName: string
+  ): EngineResult {
+    this.assertNotPaused(functionName);
+    const pool = this.requirePool(poolId);
+    const [reserveIn, reserveOut] = this.getReserves(pool, isXToY);
+    if (amountIn.isZero()) {
+      throw new SimulatedAbort(
+        "manage",
+        "swap",
+        PLACEHOLDER_ABORT_CODES.zeroAmount
+      );
+    }
+    if (reserveIn.isZero() || reserveOut.isZero()) {
+      throw new SimulatedAbort(
+        "manage",
+        "swap",
+        PLACEHOLDER_ABORT_CODES.emptyReserves
+      );
+    }
+
+    const amountOut = SwapMath.getAmountOut(
+      BigNumber(pool.fee_rate.toString()),
+      amountIn,
+      reserveIn,
+      reserveOut
+    );
+    if (amountOut.lt(amountOutMin)) {
+      throw new SimulatedAbort(
+        "router",
+        functionName,
+        PLACEHOLDER_ABORT_CODES.insufficientOutputAmount
+      );
+    }
+    return this.swap(pool, isXToY, amountIn, amountOut);
+  }
+
+  /**
+   * Swap for an exact output amount
+   * @param poolId Pool object ID
+   * @param isXToY Whether token X is sold for token Y
+   * @param amountInMax Maximum input amount
+   * @param amountOut Output amount
+   * @param functionName Router function reported in aborts
+   * @returns amounts holds [amountIn, amountOut]
+   */
+  public swapExactOut(
+    poolId: string,
+    isXToY: boolean,
+    amountInMax: BigNumber,
+    amountOut: BigNumber,
+    functionName: string
+  ): EngineResult {
+    this.assertNotPaused(functionName);
+    const pool = this.requirePool(poolId);
+    const [reserveIn, reserveOut] = this.getReserves(pool, isXToY);
+    if (amountOut.isZero()) {
+      throw new SimulatedAbort(
+        "manage",
+        "swap",
+        PLACEHOLDER_ABORT_CODES.zeroAmount
+      );
+    }
+    if (reserveIn.isZero() || reserveOut.isZero()) {
+      throw new SimulatedAbort(
+        "manage",
+        "swap",
+        PLACEHOLDER_ABORT_CODES.emptyReserves
+      );
+    }
+    if (amountOut.gte(reserveOut)) {
+      throw new SimulatedAbort(
+        "manage",
+        "swap",
+        PLACEHOLDER_ABORT_CODES.insufficientLiquidity
+      );
+    }
+
+    const amountIn = SwapMath.getAmountIn(
+      BigNumber(pool.fee_rate.toString()),
+      amountOut,
+      reserveIn,
+      reserveOut
+    );
+    if (amountIn.gt(amountInMax)) {
+      throw new SimulatedAbort(
+        "router",
+        functionName,
+        PLACEHOLDER_ABORT_CODES.excessiveInputAmount
+      );
+    }
+    return this.swap(pool, isXToY, amountIn, amountOut);
+  }
+
+  /**
+   * Move swap amounts through the reserves
+   * The fee stays in the reserves, the protocol share of it is moved to the
+   * fee balance of the input token while the protocol fee is enabled.
+   */
+  private swap(
+    pool: Pool,
+    isXToY: boolean,
+    amountIn: BigNumber,
+    amountOut: BigNumber
+  ): EngineResult {
+    const feeRate = BigNumber(pool.fee_rate.toString());
+    const protocolFee = this.state.global.is_open_protocol_fee
+      ? SwapMath.getFeeToTeam(feeRate, amountIn)
+      : BigNumber(0);
+    const [oldReserveX, oldReserveY] = [
+      BigNumber(pool.bal_x.toString()),
+      BigNumber(pool.bal_y.toString()),
+    ];
+
+    const reserveIn = BigInt(amountIn.minus(protocolFee).toFixed());
+    const fee = BigInt(protocolFee.toFixed());
+    const reserveOut = BigInt(amountOut.toFixed());
+    if (isXToY) {
+      pool.bal_x += reserveIn;
+      pool.fee_bal_x += fee;
+      pool.bal_y -= reserveOut;
+    } else {
+      pool.bal_y += reserveIn;
+      pool.fee_bal_y += fee;
+      pool.bal_x -= reserveOut;
+    }
+
+    // The constant product must never decrease, the LP share of the fee grows it
+    SwapMath.assertLpValueIsIncreased(
+      oldReserveX,
+      oldReserveY,
+      BigNumber(pool.bal_x.toString()),
+      BigNumber(pool.bal_y.toString())
+    );
+
+    const zero = BigNumber(0);
+    const [amountXIn, amountYIn, amountXOut, amountYOut] = isXToY
+      ? [amountIn, zero, zero, amountOut]
+      : [zero, amountIn, amountOut, zero];
+    return {
+      amounts: [amountIn, amountOut],
+      event: {
+        name: EVENT_SWAP,
+        fields: {
+          ...this.poolEventFields(pool),
+          coin_x_in: amountXIn.toFixed(),
+          coin_y_in: amountYIn.toFixed(),
+          coin_x_out: amountXOut.toFixed(),
+          coin_y_out: amountYOut.toFixed(),
+        },
+      },
+    };
+  }
+
+  private liquidityEvent(
+    name: string,
+    pool: Pool,
+    amountX: BigNumber,
+    amountY: BigNumber,
+    lpAmount: BigNumber
+  ): EngineEvent {
+    return {
+      name,
+      fields: {
+        ...this.poolEventFields(pool),
+        coin_x_amount: amountX.toFixed(),
+        coin_y_amount: amountY.toFixed(),
+        lp_amount: lpAmount.toFixed(),
+      },
+    };
+  }
+
+  private poolEventFields(pool: Pool): Record<string, string> {
+    return {
+      pool_id: pool.id,
+      bal_x: pool.bal_x.toString(),
+      bal_y: pool.bal_y.toString(),
+    };
+  }
+
+  private getReserves(pool: Pool, isXToY: boolean): [BigNumber, BigNumber] {
+    const reserveX = BigNumber(pool.bal_x.toString());
+    const reserveY = BigNumber(pool.bal_y.toString());
+    return isXToY ? [reserveX, reserveY] : [reserveY, reserveX];
+  }
+
+  private requirePool(poolId: string): Pool {
+    const pool = this.state.pools.get(poolId);
+    if (!pool) {
+      throw new Error(`Pool ${poolId} does not exist`);
+    }
+    return pool;
+  }
+
+  private assertNotPaused(functionName: string): void {
+    if (this.state.global.has_paused) {
+      throw new SimulatedAbort(
+        "router",
+        functionName,
+        PLACEHOLDER_ABORT_CODES.paused
+      );
+    }
+  }
+}
@@ -0,0 +1,5 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+export * from "./engine";
+export * from "./mock_client";
@@ -0,0 +1,1621 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  BalanceChange,
+  CoinBalance,
+  CoinMetadata,
+  DryRunTransactionBlockParams,
+  DryRunTransactionBlockResponse,
+  DynamicFieldPage,
+  ExecuteTransactionBlockParams,
+  GetAllBalancesParams,
+  GetBalanceParams,
+  GetCoinMetadataParams,
+  GetCoinsParams,
+  GetDynamicFieldObjectParams,
+  GetDynamicFieldsParams,
+  GetNormalizedMoveFunctionParams,
+  GetObjectParams,
+  GetTransactionBlockParams,
+  MultiGetObjectsParams,
+  ObjectOwner,
+  OwnedObjectRef,
+  PaginatedCoins,
+  PaginatedEvents,
+  QueryEventsParams,
+  SuiClient,
+  SuiEvent,
+  SuiEventFilter,
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedType,
+  SuiObjectChange,
+  SuiObjectDataOptions,
+  SuiObjectResponse,
+  SuiParsedData,
+  SuiTransactionBlockResponse,
+  SuiTransport,
+  TransactionEffects,
+} from "@mysten/sui/client";
+import { bcs, BcsType } from "@mysten/sui/bcs";
+import {
+  Argument,
+  Command,
+  TransactionDataBuilder,
+} from "@mysten/sui/transactions";
+import {
+  fromBase64,
+  normalizeStructTag,
+  normalizeSuiAddress,
+  SUI_FRAMEWORK_ADDRESS,
+  toBase58,
+  toBase64,
+} from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+import {
+  DipCoinEngineState,
+  DipCoinSDKOptions,
+  MockSuiClientOptions,
+  U64Amount,
+} from "../types";
+import { formatError, getLpName, toU64 } from "../utils";
+import {
+  COIN_TYPE_SUI,
+  EVENT_PAGE_LIMIT,
+  SWAP_EXACT_X_TO_Y,
+  SWAP_EXACT_Y_TO_X,
+  SWAP_X_TO_EXACT_Y,
+  SWAP_Y_TO_EXACT_X,
+} from "../constants";
+import { DipCoinEngine, SimulatedAbort } from "./engine";
+
+const DEFAULT_REFERENCE_GAS_PRICE = 1000;
+const DEFAULT_GAS_COST = 1000000;
+// First object ID handed out, keeps generated IDs clear of the system objects
+const FIRST_OBJECT_ID = 0x1000;
+
+const PoolBcs = bcs.struct("Pool", {
+  id: bcs.Address,
+  bal_x: bcs.u64(),
+  bal_y: bcs.u64(),
+  fee_bal_x: bcs.u64(),
+  fee_bal_y: bcs.u64(),
+  lp_supply: bcs.u64(),
+  fee_rate: bcs.u64(),
+  min_liquidity: bcs.u64(),
+  min_add_liquidity_lp_amount: bcs.u64(),
+});
+const GlobalBcs = bcs.struct("Global", {
+  id: bcs.Address,
+  has_paused: bcs.bool(),
+  is_open_protocol_fee: bcs.bool(),
+});
+const CoinBcs = bcs.struct("Coin", {
+  id: bcs.Address,
+  balance: bcs.u64(),
+});
+const FieldBcs = bcs.struct("Field", {
+  id: bcs.Address,
+  name: bcs.string(),
+  value: bcs.Address,
+});
+
+/**
+ * Object held by the mock, pool and global fields live in the engine
+ */
+interface MockObject {
+  objectId: string;
+  version: number;
+  digest: string;
+  type: string;
+  owner: ObjectOwner;
+  previousTransaction: string;
+  kind: "coin" | "pool" | "global" | "field";
+  /** Coin type and balance of coin objects */
+  coin?: { coinType: string; balance: bigint };
+  /** Key and value of registered pools table entries */
+  field?: { name: string; value: string };
+}
+
+/**
+ * Coin object held by the mock
+ */
+type MockCoin = MockObject & { coin: { coinType: string; balance: bigint } };
+
+/**
+ * Registered pools table entry held by the mock
+ */
+type MockField = MockObject & { field: { name: string; value: string } };
+
+function isCoin(object?: MockObject): object is MockCoin {
+  return !!object?.coin;
+}
+
+function isField(object: MockObject): object is MockField {
+  return !!object.field;
+}
+
+/**
+ * State of the mock that a failed or simulated transaction rolls back
+ */
+interface MockState {
+  objects: Map<string, MockObject>;
+  engine: DipCoinEngineState;
+  nextObjectId: number;
+}
+
+/**
+ * Transaction being executed
+ */
+interface ExecutionContext {
+  data: TransactionDataBuilder;
+  digest: string;
+  sender: string;
+  gasCoinId: string;
+  command: number;
+  results: (string | undefined)[][];
+  events: { name: string; fields: Record<string, string> }[];
+  /** Coins passed by value to a Move call, dropped if they end up empty */
+  consumed: Set<string>;
+  /** Coins moved by value into a command, they cannot be used again */
+  moved: Set<string>;
+  /** Split coins no command has taken by value yet, with their result index */
+  unused: Map<string, [number, number]>;
+}
+
+/**
+ * Response of an executed or simulated transaction
+ */
+type ExecutedTransaction = SuiTransactionBlockResponse & {
+  effects: TransactionEffects;
+  events: SuiEvent[];
+  objectChanges: SuiObjectChange[];
+  balanceChanges: BalanceChange[];
+};
+
+/**
+ * Error raised by a transaction command, reported like a node execution error
+ */
+class ExecutionError extends Error {}
+
+// Every RPC method the mock does not implement fails instead of reaching a node
+const OFFLINE_TRANSPORT: SuiTransport = {
+  request: async ({ method }) => {
+    throw new Error(`${method} is not supported by the mock client`);
+  },
+  subscribe: async () => {
+    throw new Error("Subscriptions are not supported by the mock client");
+  },
+};
+
+/**
+ * SuiClient serving an in-memory DipCoin deployment for offline tests
+ * Objects are served BCS-encoded like a fullnode, and transactions built by the
+ * SDK are decoded and executed against a DipCoinEngine: coin commands update
+ * coin objects, router calls run the pool state machine and emit the manage
+ * module events. Failed transactions roll back and only pay gas. Router
+ * functions are entry functions that return nothing and send their output coins
+ * to the sender, and a split coin that no command takes by value fails the
+ * transaction with UnusedValueWithoutDrop, as on a node.
+ *
+ * @example
+ * const client = new MockSuiClient();
+ * const sdk = new DipCoinSDK(client.sdkOptions);
+ * client.mint(address, COIN_TYPE_SUI, "10000000000");
+ */
+export class MockSuiClient extends SuiClient {
+  /** Package ID of the simulated DEX */
+  public readonly packageId: string;
+  /** Global config object ID */
+  public readonly globalId: string;
+  /** Registered pools table ID */
+  public readonly registedPoolsId: string;
+  /** Pool state machine, use it to pause the protocol or enable the protocol fee */
+  public readonly engine: DipCoinEngine;
+
+  private objects = new Map<string, MockObject>();
+  private nextObjectId = FIRST_OBJECT_ID;
+  private lamportVersion = 1;
+  private checkpoint = 0;
+  private readonly events: SuiEvent[] = [];
+  private readonly transactions = new Map<
+    string,
+    SuiTransactionBlockResponse
+  >();
+  private readonly referenceGasPrice: bigint;
+  private readonly gasCost: bigint;
+  private readonly now: () => number;
+  private readonly coinMetadata = new Map<string, CoinMetadata>([
+    [
+      COIN_TYPE_SUI,
+      {
+        decimals: 9,
+        name: "Sui",
+        symbol: "SUI",
+        description: "",
+        iconUrl: null,
+        id: null,
+      },
+    ],
+  ]);
+
+  /**
+   * @param options Mock configuration
+   */
+  constructor(options: MockSuiClientOptions = {}) {
+    super({ transport: OFFLINE_TRANSPORT });
+    this.packageId = normalizeSuiAddress(
+      options.packageId || this.newObjectId()
+    );
+    this.globalId = this.newObjectId();
+    this.registedPoolsId = this.newObjectId();
+    this.engine = new DipCoinEngine(this.globalId, options.engine);
+    this.referenceGasPrice = toU64(
+      options.referenceGasPrice ?? String(DEFAULT_REFERENCE_GAS_PRICE),
+      "referenceGasPrice"
+    );
+    this.gasCost = toU64(
+      options.gasCost ?? String(DEFAULT_GAS_COST),
+      "gasCost"
+    );
+    this.now = options.now || Date.now;
+
+    this.addObject({
+      objectId: this.globalId,
+      type: `${this.packageId}::manage::Global`,
+      owner: {
+        Shared: { initial_shared_version: String(this.lamportVersion) },
+      },
+      kind: "global",
+    });
+  }
+
+  /**
+   * SDK options pointing at this client
+   */
+  get sdkOptions(): DipCoinSDKOptions {
+    return {
+      suiRpc: "mock",
+      packageId: this.packageId,
+      globalId: this.globalId,
+      registedPoolsId: this.registedPoolsId,
+      client: this,
+    };
+  }
+
+  /**
+   * Create a coin owned by an address
+   * @param owner The address receiving the coin
+   * @param coinType The coin type (format: packageId::module::struct)
+   * @param amount The coin balance
+   * @returns Object ID of the new coin
+   */
+  public mint(owner: string, coinType: string, amount: U64Amount): string {
+    const objectId = this.newObjectId();
+    this.addObject({
+      objectId,
+      type: this.getCoinObjectType(coinType),
+      owner: { AddressOwner: normalizeSuiAddress(owner) },
+      kind: "coin",
+      coin: {
+        coinType: normalizeStructTag(coinType),
+        balance: toU64(amount),
+      },
+    });
+    return objectId;
+  }
+
+  /**
+   * Register the metadata of a coin type, SUI is registered by default
+   * @param coinType The coin type (format: packageId::module::struct)
+   * @param metadata Coin metadata, symbol defaults to the struct name
+   */
+  public setCoinMetadata(
+    coinType: string,
+    metadata: Pick<CoinMetadata, "decimals"> & Partial<CoinMetadata>
+  ): void {
+    const symbol = metadata.symbol ?? coinType.split("::").pop() ?? "";
+    this.coinMetadata.set(normalizeStructTag(coinType), {
+      name: symbol,
+      symbol,
+      description: "",
+      iconUrl: null,
+      id: null,
+      ...metadata,
+    });
+  }
+
+  async getCoinMetadata(
+    input: GetCoinMetadataParams
+  ): Promise<CoinMetadata | null> {
+    return this.coinMetadata.get(normalizeStructTag(input.coinType)) || null;
+  }
+
+  async getReferenceGasPrice(): Promise<bigint> {
+    return this.referenceGasPrice;
+  }
+
+  async getCoins(input: GetCoinsParams): Promise<PaginatedCoins> {
+    const coinType = normalizeStructTag(input.coinType || COIN_TYPE_SUI);
+    const coins = this.getOwnedCoins(input.owner).filter(
+      (coin) => coin.coin.coinType === coinType
+    );
+    const page = this.paginate(
+      coins,
+      (coin) => coin.objectId,
+      input.cursor,
+      input.limit
+    );
+    return {
+      data: page.data.map((coin) => ({
+        coinType: coin.coin.coinType,
+        coinObjectId: coin.objectId,
+        version: String(coin.version),
+        digest: coin.digest,
+        balance: coin.coin.balance.toString(),
+        previousTransaction: coin.previousTransaction,
+      })),
+      nextCursor: page.nextCursor,
+      hasNextPage: page.hasNextPage,
+    };
+  }
+
+  async getBalance(input: GetBalanceParams): Promise<CoinBalance> {
+    const coinType = normalizeStructTag(input.coinType || COIN_TYPE_SUI);
+    const balances = await this.getAllBalances({ owner: input.owner });
+    return (
+      balances.find((balance) => balance.coinType === coinType) || {
+        coinType,
+        coinObjectCount: 0,
+        totalBalance: "0",
+        lockedBalance: {},
+      }
+    );
+  }
+
+  async getAllBalances(input: GetAllBalancesParams): Promise<CoinBalance[]> {
+    const balances = new Map<string, CoinBalance>();
+    for (const { coin } of this.getOwnedCoins(input.owner)) {
+      const balance = balances.get(coin.coinType) || {
+        coinType: coin.coinType,
+        coinObjectCount: 0,
+        totalBalance: "0",
+        lockedBalance: {},
+      };
+      balance.coinObjectCount++;
+      balance.totalBalance = (
+        BigInt(balance.totalBalance) + coin.balance
+      ).toString();
+      balances.set(coin.coinType, balance);
+    }
+    return [...balances.values()];
+  }
+
+  async getObject(input: GetObjectParams): Promise<SuiObjectResponse> {
+    return this.toObjectResponse(input.id, input.options);
+  }
+
+  async multiGetObjects(
+    input: MultiGetObjectsParams
+  ): Promise<SuiObjectResponse[]> {
+    return input.ids.map((id) => this.toObjectResponse(id, input.options));
+  }
+
+  async getDynamicFields(
+    input: GetDynamicFieldsParams
+  ): Promise<DynamicFieldPage> {
+    const page = this.paginate(
+      this.getFields(input.parentId),
+      (field) => field.objectId,
+      input.cursor,
+      input.limit
+    );
+    return {
+      data: page.data.map((field) => ({
+        name: { type: "0x1::string::String", value: field.field.name },
+        bcsName: toBase58(bcs.string().serialize(field.field.name).toBytes()),
+        bcsEncoding: "base58",
+        type: "DynamicField",
+        objectType: "address",
+        objectId: field.objectId,
+        version: String(field.version),
+        digest: field.digest,
+      })),
+      nextCursor: page.nextCursor,
+      hasNextPage: page.hasNextPage,
+    };
+  }
+
+  async getDynamicFieldObject(
+    input: GetDynamicFieldObjectParams
+  ): Promise<SuiObjectResponse> {
+    const field = this.getFields(input.parentId).find(
+      (object) => object.field.name === input.name.value
+    );
+    if (!field) {
+      return {
+        error: {
+          code: "dynamicFieldNotFound",
+          parent_object_id: normalizeSuiAddress(input.parentId),
+        },
+      };
+    }
+    return this.toObjectResponse(field.objectId, {
+      showContent: true,
+      showType: true,
+      showOwner: true,
+    });
+  }
+
+  async getNormalizedMoveFunction(
+    input: GetNormalizedMoveFunctionParams
+  ): Promise<SuiMoveNormalizedFunction> {
+    if (
+      normalizeSuiAddress(input.package) !== this.packageId ||
+      input.module !== "router"
+    ) {
+      throw new Error(
+        `${input.package}::${input.module}::${input.function} is not supported by the mock client`
+      );
+    }
+
+    const struct = (
+      address: string,
+      module: string,
+      name: string,
+      typeArguments: SuiMoveNormalizedType[] = []
+    ): SuiMoveNormalizedType => ({
+      Struct: { address, module, name, typeArguments },
+    });
+    const typeX: SuiMoveNormalizedType = { TypeParameter: 0 };
+    const typeY: SuiMoveNormalizedType = { TypeParameter: 1 };
+    const coin = (type: SuiMoveNormalizedType) =>
+      struct(SUI_FRAMEWORK_ADDRESS, "coin", "Coin", [type]);
+    const global = {
+      MutableReference: struct(this.packageId, "manage", "Global"),
+    };
+    const pool = {
+      MutableReference: struct(this.packageId, "manage", "Pool", [
+        typeX,
+        typeY,
+      ]),
+    };
+    const ctx = {
+      MutableReference: struct(
+        SUI_FRAMEWORK_ADDRESS,
+        "tx_context",
+        "TxContext"
+      ),
+    };
+
+    // Router functions are entry functions, their outputs go to the sender
+    const signatures: Record<
+      string,
+      [SuiMoveNormalizedType[], SuiMoveNormalizedType[]]
+    > = {
+      create_pool: [[global, coin(typeX), coin(typeY), "U64", ctx], []],
+      add_liquidity: [
+        [global, pool, coin(typeX), "U64", coin(typeY), "U64", ctx],
+        [],
+      ],
+      remove_liquidity: [
+        [
+          global,
+          pool,
+          coin(struct(this.packageId, "manage", "LP", [typeX, typeY])),
+          "U64",
+          "U64",
+          "U64",
+          ctx,
+        ],
+        [],
+      ],
+      [SWAP_EXACT_X_TO_Y]: [[global, pool, coin(typeX), "U64", ctx], []],
+      [SWAP_EXACT_Y_TO_X]: [[global, pool, coin(typeY), "U64", ctx], []],
+      [SWAP_X_TO_EXACT_Y]: [[global, pool, coin(typeX), "U64", ctx], []],
+      [SWAP_Y_TO_EXACT_X]: [[global, pool, coin(typeY), "U64", ctx], []],
+    };
+    const signature = signatures[input.function];
+    if (!signature) {
+      throw new Error(`Function router::${input.function} does not exist`);
+    }
+    return {
+      isEntry: true,
+      parameters: signature[0],
+      return: signature[1],
+      typeParameters: [{ abilities: [] }, { abilities: [] }],
+      visibility: "Public",
+    };
+  }
+
+  async dryRunTransactionBlock(
+    input: DryRunTransactionBlockParams
+  ): Promise<DryRunTransactionBlockResponse> {
+    const data = this.decodeTransaction(input.transactionBlock);
+    const response = this.runTransaction(data, false);
+    return {
+      effects: response.effects,
+      events: response.events,
+      objectChanges: response.objectChanges,
+      balanceChanges: response.balanceChanges,
+      input: {
+        messageVersion: "v1",
+        sender: this.getSender(data),
+        gasData: {
+          owner: this.getGasOwner(data),
+          budget: String(data.gasData.budget),
+          price: String(data.gasData.price),
+          payment: (data.gasData.payment || []).map((ref) => ({
+            ...ref,
+            version: String(ref.version),
+          })),
+        },
+        transaction: {
+          kind: "ProgrammableTransaction",
+          inputs: [],
+          transactions: [],
+        },
+      },
+    };
+  }
+
+  async executeTransactionBlock(
+    input: ExecuteTransactionBlockParams
+  ): Promise<SuiTransactionBlockResponse> {
+    return this.runTransaction(
+      this.decodeTransaction(input.transactionBlock),
+      true
+    );
+  }
+
+  async getTransactionBlock(
+    input: GetTransactionBlockParams
+  ): Promise<SuiTransactionBlockResponse> {
+    const response = this.transactions.get(input.digest);
+    if (!response) {
+      throw new Error(
+        `Could not find the referenced transaction ${input.digest}`
+      );
+    }
+    return response;
+  }
+
+  async queryEvents(input: QueryEventsParams): Promise<PaginatedEvents> {
+    const events = this.events.filter((event) =>
+      this.matchesFilter(event, input.query)
+    );
+    if (input.order === "descending") {
+      events.reverse();
+    }
+    const page = this.paginate(
+      events,
+      (event) => event.id,
+      input.cursor,
+      input.limit,
+      (a, b) => a.txDigest === b.txDigest && a.eventSeq === b.eventSeq
+    );
+    return {
+      data: page.data,
+      nextCursor: page.nextCursor,
+      hasNextPage: page.hasNextPage,
+    };
+  }
+
+  /**
+   * Execute a transaction, rolling the state back if it fails or is simulated
+   * @param data Decoded transaction
+   * @param commit Whether successful changes are kept
+   * @returns Transaction response with effects, events, object and balance changes
+   */
+  private runTransaction(
+    data: TransactionDataBuilder,
+    commit: boolean
+  ): ExecutedTransaction {
+    const sender = this.getSender(data);
+    const before = this.snapshot();
+    const bytes = data.build();
+    const context: ExecutionContext = {
+      data,
+      digest: TransactionDataBuilder.getDigestFromBytes(bytes),
+      sender,
+      gasCoinId: this.smashGasCoins(data),
+      command: 0,
+      results: [],
+      events: [],
+      consumed: new Set(),
+      moved: new Set(),
+      unused: new Map(),
+    };
+    const version = ++this.lamportVersion;
+    const timestampMs = this.now();
+
+    // Owned inputs and mutable shared inputs get a new version even if the transaction fails
+    const mutatedIds = new Set([context.gasCoinId]);
+    for (const input of data.inputs) {
+      const ref = input.Object?.ImmOrOwnedObject || input.Object?.SharedObject;
+      if (
+        ref &&
+        (!input.Object?.SharedObject || input.Object.SharedObject.mutable)
+      ) {
+        mutatedIds.add(normalizeSuiAddress(ref.objectId));
+      }
+    }
+
+    let error: string | undefined;
+    try {
+      this.validateInputs(context);
+      data.commands.forEach((command, index) => {
+        context.command = index;
+        context.results.push(this.executeCommand(command, context));
+      });
+      this.assertNoUnusedValues(context);
+      this.dropEmptyCoins(context);
+    } catch (executionError) {
+      error = this.formatExecutionError(executionError, context.command);
+      this.restore(before);
+      context.events = [];
+      this.smashGasCoins(data);
+    }
+
+    // Gas is charged whether the transaction succeeds or not
+    const gasCoin = this.getGasCoin(context).coin;
+    if (gasCoin.balance < this.gasCost) {
+      if (!error) {
+        this.restore(before);
+        this.smashGasCoins(data);
+        context.events = [];
+      }
+      error = "InsufficientGas";
+    }
+    const charged =
+      gasCoin.balance < this.gasCost ? gasCoin.balance : this.gasCost;
+    this.getGasCoin(context).coin.balance -= charged;
+
+    const response = this.buildResponse(
+      context,
+      before,
+      mutatedIds,
+      version,
+      timestampMs,
+      error
+    );
+    if (commit) {
+      this.events.push(...(response.events || []));
+      this.transactions.set(response.digest, response);
+    } else {
+      this.restore(before);
+    }
+    return response;
+  }
+
+  /**
+   * Check that owned inputs are the latest versions and belong to the sender
+   */
+  private validateInputs(context: ExecutionContext): void {
+    const gasOwner = this.getGasOwner(context.data);
+    for (const input of context.data.inputs) {
+      const ref = input.Object?.ImmOrOwnedObject;
+      if (!ref) {
+        continue;
+      }
+      const object = this.objects.get(normalizeSuiAddress(ref.objectId));
+      if (!object || object.version !== Number(ref.version)) {
+        throw new ExecutionError(
+          `Object ${ref.objectId} version ${ref.version} is not available for consumption`
+        );
+      }
+      const owner = this.getOwner(object);
+      if (owner !== context.sender && owner !== gasOwner) {
+        throw new ExecutionError(
+          `Object ${ref.objectId} is not owned by the sender ${context.sender}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Merge the gas payment coins into the first one, as the node does before execution
+   * A simulation without gas payment pays with every SUI coin of the gas owner
+   * that is not a transaction input.
+   * @returns Object ID of the gas coin
+   */
+  private smashGasCoins(data: TransactionDataBuilder): string {
+    const gasOwner = this.getGasOwner(data);
+    const inputIds = new Set(
+      data.inputs
+        .map((input) => input.Object?.ImmOrOwnedObject?.objectId)
+        .filter((objectId): objectId is string => !!objectId)
+        .map((objectId) => normalizeSuiAddress(objectId))
+    );
+    const paymentIds = data.gasData.payment?.length
+      ? data.gasData.payment.map((ref) => normalizeSuiAddress(ref.objectId))
+      : this.getOwnedCoins(gasOwner)
+          .filter(
+            (coin) =>
+              coin.coin.coinType === COIN_TYPE_SUI &&
+              !inputIds.has(coin.objectId)
+          )
+          .map((coin) => coin.objectId);
+    if (paymentIds.length === 0) {
+      throw new Error("No valid gas coins found for the transaction.");
+    }
+
+    const [gasCoinId, ...otherIds] = paymentIds;
+    const gasCoin = this.objects.get(gasCoinId);
+    if (!isCoin(gasCoin) || gasCoin.coin.coinType !== COIN_TYPE_SUI) {
+      throw new Error(`Gas object ${gasCoinId} is not a SUI coin`);
+    }
+    for (const objectId of otherIds) {
+      const coin = this.objects.get(objectId);
+      if (!isCoin(coin) || coin.coin.coinType !== COIN_TYPE_SUI) {
+        throw new Error(`Gas object ${objectId} is not a SUI coin`);
+      }
+      gasCoin.coin.balance += coin.coin.balance;
+      this.objects.delete(objectId);
+    }
+    return gasCoinId;
+  }
+
+  private executeCommand(
+    command: Command,
+    context: ExecutionContext
+  ): (string | undefined)[] {
+    switch (command.$kind) {
+      case "SplitCoins": {
+        const coin = this.getCoin(command.SplitCoins.coin, context);
+        return command.SplitCoins.amounts.map((amount, index) => {
+          const value = this.getPure(amount, bcs.u64(), context);
+          if (coin.coin.balance < BigInt(value)) {
+            throw new ExecutionError("InsufficientCoinBalance");
+          }
+          coin.coin.balance -= BigInt(value);
+          const objectId = this.createCoin(
+            context,
+            coin.coin.coinType,
+            BigInt(value)
+          );
+          context.unused.set(objectId, [context.command, index]);
+          return objectId;
+        });
+      }
+      case "MergeCoins": {
+        const destination = this.getCoin(
+          command.MergeCoins.destination,
+          context
+        );
+        command.MergeCoins.sources.forEach((source, index) => {
+          const coin = this.moveCoin(source, context, undefined, index + 1);
+          if (coin.objectId === context.gasCoinId) {
+            throw new ExecutionError(
+              "The gas coin cannot be merged into another coin"
+            );
+          }
+          if (coin.coin.coinType !== destination.coin.coinType) {
+            throw new ExecutionError(
+              "CommandArgumentError { arg_idx: 1, kind: TypeMismatch }"
+            );
+          }
+          destination.coin.balance += coin.coin.balance;
+          this.objects.delete(coin.objectId);
+        });
+        return [];
+      }
+      case "TransferObjects": {
+        const recipient = this.getPure(
+          command.TransferObjects.address,
+          bcs.Address,
+          context
+        );
+        command.TransferObjects.objects.forEach((argument, index) => {
+          const coin = this.moveCoin(argument, context, undefined, index);
+          coin.owner = { AddressOwner: normalizeSuiAddress(recipient) };
+          context.consumed.delete(coin.objectId);
+        });
+        return [];
+      }
+      case "MoveCall": {
+        const {
+          package: packageId,
+          module,
+          function: functionName,
+        } = command.MoveCall;
+        if (
+          normalizeSuiAddress(packageId) !== this.packageId ||
+          module !== "router"
+        ) {
+          throw new ExecutionError(
+            `${packageId}::${module}::${functionName} is not supported by the mock client`
+          );
+        }
+        return this.executeRouterCall(command.MoveCall, context);
+      }
+      default:
+        throw new ExecutionError(
+          `${command.$kind} commands are not supported by the mock client`
+        );
+    }
+  }
+
+  /**
+   * Run a router function against the engine
+   * @returns Values returned by the function, none as router functions are entry functions
+   */
+  private executeRouterCall(
+    call: NonNullable<Command["MoveCall"]>,
+    context: ExecutionContext
+  ): (string | undefined)[] {
+    const args = call.arguments;
+    const [typeX, typeY] = call.typeArguments.map((type) =>
+      normalizeStructTag(type)
+    );
+    const u64 = (index: number) =>
+      BigNumber(this.getPure(args[index], bcs.u64(), context));
+    this.assertGlobal(args[0], context);
+
+    switch (call.function) {
+      case "create_pool": {
+        const coinX = this.moveCoin(args[1], context, typeX, 1);
+        const coinY = this.moveCoin(args[2], context, typeY, 2);
+        const amountX = BigNumber(coinX.coin.balance.toString());
+        const amountY = BigNumber(coinY.coin.balance.toString());
+        const poolId = this.newObjectId();
+        const { amounts, event } = this.engine.createPool(
+          poolId,
+          typeX,
+          typeY,
+          amountX,
+          amountY,
+          u64(3)
+        );
+        this.takeCoin(coinX, amountX, context);
+        this.takeCoin(coinY, amountY, context);
+
+        this.addObject({
+          objectId: poolId,
+          type: `${this.packageId}::manage::Pool<${typeX}, ${typeY}>`,
+          owner: {
+            Shared: { initial_shared_version: String(this.lamportVersion) },
+          },
+          kind: "pool",
+          previousTransaction: context.digest,
+        });
+        this.addObject({
+          objectId: this.newObjectId(),
+          type: "0x2::dynamic_field::Field<0x1::string::String, address>",
+          owner: { ObjectOwner: this.registedPoolsId },
+          kind: "field",
+          field: { name: getLpName(typeX, typeY), value: poolId },
+          previousTransaction: context.digest,
+        });
+        this.createCoin(
+          context,
+          this.getLpType(typeX, typeY),
+          this.toBigInt(amounts[0])
+        );
+        context.events.push(event);
+        return [];
+      }
+      case "add_liquidity": {
+        const poolId = this.getPoolId(args[1], typeX, typeY, context);
+        const coinX = this.moveCoin(args[2], context, typeX, 2);
+        const coinY = this.moveCoin(args[4], context, typeY, 4);
+        const { amounts, event } = this.engine.addLiquidity(
+          poolId,
+          BigNumber(coinX.coin.balance.toString()),
+          u64(3),
+          BigNumber(coinY.coin.balance.toString()),
+          u64(5)
+        );
+        this.takeCoin(coinX, amounts[0], context);
+        this.takeCoin(coinY, amounts[1], context);
+        this.createCoin(
+          context,
+          this.getLpType(typeX, typeY),
+          this.toBigInt(amounts[2])
+        );
+        context.events.push(event);
+        return [];
+      }
+      case "remove_liquidity": {
+        const poolId = this.getPoolId(args[1], typeX, typeY, context);
+        const lpCoin = this.moveCoin(
+          args[2],
+          context,
+          this.getLpType(typeX, typeY),
+          2
+        );
+        const lpAmount = u64(3);
+        if (lpCoin.coin.balance < this.toBigInt(lpAmount)) {
+          throw new SimulatedAbort("0x2::balance", "split", 2);
+        }
+        const { amounts, event } = this.engine.removeLiquidity(
+          poolId,
+          lpAmount,
+          u64(4),
+          u64(5)
+        );
+        this.takeCoin(lpCoin, lpAmount, context);
+        this.createCoin(context, typeX, this.toBigInt(amounts[0]));
+        this.createCoin(context, typeY, this.toBigInt(amounts[1]));
+        context.events.push(event);
+        return [];
+      }
+      case SWAP_EXACT_X_TO_Y:
+      case SWAP_EXACT_Y_TO_X:
+      case SWAP_X_TO_EXACT_Y:
+      case SWAP_Y_TO_EXACT_X: {
+        const isXToY =
+          call.function === SWAP_EXACT_X_TO_Y ||
+          call.function === SWAP_X_TO_EXACT_Y;
+        const isExactIn =
+          call.function === SWAP_EXACT_X_TO_Y ||
+          call.function === SWAP_EXACT_Y_TO_X;
+        const poolId = this.getPoolId(args[1], typeX, typeY, context);
+        const coinIn = this.moveCoin(
+          args[2],
+          context,
+          isXToY ? typeX : typeY,
+          2
+        );
+        const balanceIn = BigNumber(coinIn.coin.balance.toString());
+        const { amounts, event } = isExactIn
+          ? this.engine.swapExactIn(
+              poolId,
+              isXToY,
+              balanceIn,
+              u64(3),
+              call.function
+            )
+          : this.engine.swapExactOut(
+              poolId,
+              isXToY,
+              balanceIn,
+              u64(3),
+              call.function
+            );
+        this.takeCoin(coinIn, amounts[0], context);
+        this.createCoin(
+          context,
+          isXToY ? typeY : typeX,
+          this.toBigInt(amounts[1])
+        );
+        context.events.push(event);
+        return [];
+      }
+      default:
+        throw new ExecutionError(
+          `Function router::${call.function} does not exist`
+        );
+    }
+  }
+
+  /**
+   * Take an amount from a coin passed by value, the rest of the coin goes back to the sender
+   */
+  private takeCoin(
+    coin: MockCoin,
+    amount: BigNumber,
+    context: ExecutionContext
+  ): void {
+    coin.coin.balance -= this.toBigInt(amount);
+    context.consumed.add(coin.objectId);
+  }
+
+  /**
+   * Fail like a node if a split coin was neither consumed nor transferred
+   */
+  private assertNoUnusedValues(context: ExecutionContext): void {
+    for (const [resultIndex, secondaryIndex] of context.unused.values()) {
+      throw new ExecutionError(
+        `UnusedValueWithoutDrop { result_idx: ${resultIndex}, secondary_idx: ${secondaryIndex} }`
+      );
+    }
+  }
+
+  /**
+   * Delete coins that were used up by Move calls or created empty
+   */
+  private dropEmptyCoins(context: ExecutionContext): void {
+    for (const object of [...this.objects.values()]) {
+      if (
+        object.coin?.balance === BigInt(0) &&
+        object.objectId !== context.gasCoinId &&
+        (context.consumed.has(object.objectId) ||
+          object.previousTransaction === context.digest)
+      ) {
+        this.objects.delete(object.objectId);
+      }
+    }
+  }
+
+  private createCoin(
+    context: ExecutionContext,
+    coinType: string,
+    balance: bigint
+  ): string {
+    const objectId = this.newObjectId();
+    this.addObject({
+      objectId,
+      type: this.getCoinObjectType(coinType),
+      owner: { AddressOwner: context.sender },
+      kind: "coin",
+      coin: { coinType: normalizeStructTag(coinType), balance },
+      previousTransaction: context.digest,
+    });
+    return objectId;
+  }
+
+  /**
+   * Take a coin argument by value, it cannot be used by a later command
+   */
+  private moveCoin(
+    argument: Argument,
+    context: ExecutionContext,
+    coinType?: string,
+    argIndex = 0
+  ): MockCoin {
+    const coin = this.getCoin(argument, context, coinType, argIndex);
+    if (context.moved.has(coin.objectId)) {
+      throw new ExecutionError(
+        `CommandArgumentError { arg_idx: ${argIndex}, kind: ArgumentWithoutValue }`
+      );
+    }
+    context.moved.add(coin.objectId);
+    context.unused.delete(coin.objectId);
+    return coin;
+  }
+
+  private getCoin(
+    argument: Argument,
+    context: ExecutionContext,
+    coinType?: string,
+    argIndex = 0
+  ): MockCoin {
+    const objectId = this.getObjectId(argument, context, argIndex);
+    if (objectId && context.moved.has(objectId)) {
+      throw new ExecutionError(
+        `CommandArgumentError { arg_idx: ${argIndex}, kind: ArgumentWithoutValue }`
+      );
+    }
+    const object = objectId ? this.objects.get(objectId) : undefined;
+    if (!isCoin(object)) {
+      throw new ExecutionError(
+        `CommandArgumentError { arg_idx: ${argIndex}, kind: InvalidValueUsage }`
+      );
+    }
+    if (coinType && object.coin.coinType !== normalizeStructTag(coinType)) {
+      throw new ExecutionError(
+        `CommandArgumentError { arg_idx: ${argIndex}, kind: TypeMismatch }`
+      );
+    }
+    return object;
+  }
+
+  private getPoolId(
+    argument: Argument,
+    typeX: string,
+    typeY: string,
+    context: ExecutionContext
+  ): string {
+    const poolId = this.getObjectId(argument, context, 1);
+    const types = poolId ? this.engine.getPoolTypes(poolId) : undefined;
+    if (!poolId || !types) {
+      throw new ExecutionError(
+        "CommandArgumentError { arg_idx: 1, kind: InvalidValueUsage }"
+      );
+    }
+    if (types[0] !== typeX || types[1] !== typeY) {
+      throw new ExecutionError(
+        "CommandArgumentError { arg_idx: 1, kind: TypeMismatch }"
+      );
+    }
+    return poolId;
+  }
+
+  private assertGlobal(argument: Argument, context: ExecutionContext): void {
+    if (this.getObjectId(argument, context) !== this.globalId) {
+      throw new ExecutionError(
+        "CommandArgumentError { arg_idx: 0, kind: TypeMismatch }"
+      );
+    }
+  }
+
+  private getObjectId(
+    argument: Argument,
+    context: ExecutionContext,
+    argIndex = 0
+  ): string | undefined {
+    switch (argument.$kind) {
+      case "GasCoin":
+        return context.gasCoinId;
+      case "Input": {
+        const input = context.data.inputs[argument.Input];
+        const ref =
+          input?.Object?.ImmOrOwnedObject ||
+          input?.Object?.SharedObject ||
+          input?.Object?.Receiving;
+        return ref ? normalizeSuiAddress(ref.objectId) : undefined;
+      }
+      case "Result":
+        return this.getResult(argument.Result, 0, context, argIndex);
+      case "NestedResult":
+        return this.getResult(
+          argument.NestedResult[0],
+          argument.NestedResult[1],
+          context,
+          argIndex
+        );
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Object ID of a command result, entry function calls have no results to reference
+   */
+  private getResult(
+    resultIndex: number,
+    secondaryIndex: number,
+    context: ExecutionContext,
+    argIndex: number
+  ): string {
+    const results = context.results[resultIndex];
+    if (!results) {
+      throw new ExecutionError(
+        `CommandArgumentError { arg_idx: ${argIndex}, kind: IndexOutOfBounds { idx: ${resultIndex} } }`
+      );
+    }
+    const objectId = results[secondaryIndex];
+    if (!objectId) {
+      throw new ExecutionError(
+        `CommandArgumentError { arg_idx: ${argIndex}, kind: SecondaryIndexOutOfBounds { result_idx: ${resultIndex}, secondary_idx: ${secondaryIndex} } }`
+      );
+    }
+    return objectId;
+  }
+
+  private getPure<T, Input>(
+    argument: Argument,
+    schema: BcsType<T, Input>,
+    context: ExecutionContext
+  ): T {
+    const input =
+      argument.$kind === "Input"
+        ? context.data.inputs[argument.Input]
+        : undefined;
+    if (!input?.Pure) {
+      throw new ExecutionError("Expected a pure input argument");
+    }
+    return schema.parse(fromBase64(input.Pure.bytes));
+  }
+
+  /**
+   * Build the node response of an executed transaction
+   */
+  private buildResponse(
+    context: ExecutionContext,
+    before: MockState,
+    mutatedIds: Set<string>,
+    version: number,
+    timestampMs: number,
+    error?: string
+  ): ExecutedTransaction {
+    const { digest, sender } = context;
+    const created: OwnedObjectRef[] = [];
+    const mutated: OwnedObjectRef[] = [];
+    const objectChanges: SuiObjectChange[] = [];
+
+    for (const object of this.objects.values()) {
+      const previous = before.objects.get(object.objectId);
+      if (previous && !mutatedIds.has(object.objectId)) {
+        continue;
+      }
+      object.version = version;
+      object.digest = this.newDigest();
+      object.previousTransaction = digest;
+      const ref: OwnedObjectRef = {
+        owner: object.owner,
+        reference: {
+          objectId: object.objectId,
+          version: String(version),
+          digest: object.digest,
+        },
+      };
+      if (previous) {
+        mutated.push(ref);
+        objectChanges.push({
+          type: "mutated",
+          sender,
+          owner: object.owner,
+          objectType: object.type,
+          objectId: object.objectId,
+          version: String(version),
+          previousVersion: String(previous.version),
+          digest: object.digest,
+        });
+      } else {
+        created.push(ref);
+        objectChanges.push({
+          type: "created",
+          sender,
+          owner: object.owner,
+          objectType: object.type,
+          objectId: object.objectId,
+          version: String(version),
+          digest: object.digest,
+        });
+      }
+    }
+    const deleted = [...before.objects.values()]
+      .filter((object) => !this.objects.has(object.objectId))
+      .map((object) => {
+        objectChanges.push({
+          type: "deleted",
+          sender,
+          objectType: object.type,
+          objectId: object.objectId,
+          version: String(version),
+        });
+        return {
+          objectId: object.objectId,
+          version: String(version),
+          digest: "7gyGAp71YXQRoxmFBaHxofQXAipvgHyBKPyxmdSJxyvz",
+        };
+      });
+
+    const gasCoin = this.getGasCoin(context);
+    const checkpoint = String(++this.checkpoint);
+    return {
+      digest,
+      effects: {
+        messageVersion: "v1",
+        status: error ? { status: "failure", error } : { status: "success" },
+        executedEpoch: "0",
+        gasUsed: {
+          computationCost: this.gasCost.toString(),
+          storageCost: "0",
+          storageRebate: "0",
+          nonRefundableStorageFee: "0",
+        },
+        transactionDigest: digest,
+        created,
+        mutated,
+        deleted,
+        gasObject: {
+          owner: gasCoin.owner,
+          reference: {
+            objectId: gasCoin.objectId,
+            version: String(gasCoin.version),
+            digest: gasCoin.digest,
+          },
+        },
+        dependencies: [],
+      },
+      events: context.events.map((event, index) => ({
+        id: { txDigest: digest, eventSeq: String(index) },
+        packageId: this.packageId,
+        transactionModule: "router",
+        sender,
+        type: `${this.packageId}::manage::${event.name}`,
+        parsedJson: event.fields,
+        bcs: "",
+        bcsEncoding: "base64",
+        timestampMs: String(timestampMs),
+      })),
+      objectChanges,
+      balanceChanges: this.getBalanceChanges(before),
+      timestampMs: String(timestampMs),
+      checkpoint,
+    };
+  }
+
+  /**
+   * Net coin balance changes per owner and coin type against a previous state
+   */
+  private getBalanceChanges(before: MockState): BalanceChange[] {
+    const totals = new Map<string, bigint>();
+    const add = (objects: Iterable<MockObject>, sign: bigint) => {
+      for (const object of objects) {
+        if (!object.coin) {
+          continue;
+        }
+        const key = `${this.getOwner(object)}|${object.coin.coinType}`;
+        totals.set(
+          key,
+          (totals.get(key) || BigInt(0)) + sign * object.coin.balance
+        );
+      }
+    };
+    add(before.objects.values(), BigInt(-1));
+    add(this.objects.values(), BigInt(1));
+
+    const changes: BalanceChange[] = [];
+    for (const [key, amount] of totals) {
+      if (amount !== BigInt(0)) {
+        const [owner, coinType] = key.split("|");
+        changes.push({
+          owner: { AddressOwner: owner },
+          coinType,
+          amount: amount.toString(),
+        });
+      }
+    }
+    return changes;
+  }
+
+  private matchesFilter(event: SuiEvent, filter: SuiEventFilter): boolean {
+    if ("MoveEventModule" in filter) {
+      return (
+        normalizeSuiAddress(filter.MoveEventModule.package) ===
+          event.packageId && filter.MoveEventModule.module === "manage"
+      );
+    }
+    if ("MoveModule" in filter) {
+      return (
+        normalizeSuiAddress(filter.MoveModule.package) === event.packageId &&
+        filter.MoveModule.module === event.transactionModule
+      );
+    }
+    if ("MoveEventType" in filter) {
+      return (
+        normalizeStructTag(filter.MoveEventType) ===
+        normalizeStructTag(event.type)
+      );
+    }
+    if ("Sender" in filter) {
+      return normalizeSuiAddress(filter.Sender) === event.sender;
+    }
+    if ("Transaction" in filter) {
+      return filter.Transaction === event.id.txDigest;
+    }
+    if ("Any" in filter) {
+      return filter.Any.some((any) => this.matchesFilter(event, any));
+    }
+    return true;
+  }
+
+  private toObjectResponse(
+    id: string,
+    options?: SuiObjectDataOptions | null
+  ): SuiObjectResponse {
+    const objectId = normalizeSuiAddress(id);
+    const object = this.objects.get(objectId);
+    if (!object) {
+      return { error: { code: "notExists", object_id: objectId } };
+    }
+
+    const [fields, bcsBytes] = this.getObjectFields(object);
+    const hasPublicTransfer = object.kind === "coin";
+    return {
+      data: {
+        objectId,
+        version: String(object.version),
+        digest: object.digest,
+        type: options?.showType ? object.type : undefined,
+        owner: options?.showOwner ? object.owner : undefined,
+        previousTransaction: options?.showPreviousTransaction
+          ? object.previousTransaction
+          : undefined,
+        storageRebate: options?.showStorageRebate ? "0" : undefined,
+        content: options?.showContent
+          ? ({
+              dataType: "moveObject",
+              type: object.type,
+              hasPublicTransfer,
+              fields,
+            } as SuiParsedData)
+          : undefined,
+        bcs: options?.showBcs
+          ? {
+              dataType: "moveObject",
+              type: object.type,
+              hasPublicTransfer,
+              version: String(object.version),
+              bcsBytes: toBase64(bcsBytes),
+            }
+          : undefined,
+      },
+    };
+  }
+
+  /**
+   * Move fields and BCS bytes of an object
+   */
+  private getObjectFields(
+    object: MockObject
+  ): [Record<string, unknown>, Uint8Array] {
+    const id = { id: object.objectId };
+    if (isCoin(object)) {
+      return [
+        { id, balance: object.coin.balance.toString() },
+        CoinBcs.serialize({
+          id: object.objectId,
+          balance: object.coin.balance,
+        }).toBytes(),
+      ];
+    }
+    if (isField(object)) {
+      return [
+        { id, ...object.field },
+        FieldBcs.serialize({ id: object.objectId, ...object.field }).toBytes(),
+      ];
+    }
+    switch (object.kind) {
+      case "pool": {
+        const pool = this.engine.getPool(object.objectId);
+        if (!pool) {
+          throw new Error(`Pool ${object.objectId} does not exist`);
+        }
+        const fields = {
+          ...pool,
+          bal_x: pool.bal_x.toString(),
+          bal_y: pool.bal_y.toString(),
+          fee_bal_x: pool.fee_bal_x.toString(),
+          fee_bal_y: pool.fee_bal_y.toString(),
+          lp_supply: pool.lp_supply.toString(),
+          fee_rate: pool.fee_rate.toString(),
+          min_liquidity: pool.min_liquidity.toString(),
+          min_add_liquidity_lp_amount:
+            pool.min_add_liquidity_lp_amount.toString(),
+        };
+        return [{ ...fields, id }, PoolBcs.serialize(fields).toBytes()];
+      }
+      case "global": {
+        const global = this.engine.global;
+        return [{ ...global, id }, GlobalBcs.serialize(global).toBytes()];
+      }
+      default:
+        throw new Error(`Object ${object.objectId} has no content`);
+    }
+  }
+
+  private formatExecutionError(error: unknown, command: number): string {
+    if (error instanceof SimulatedAbort) {
+      const [address, module] = error.module.startsWith("0x2::")
+        ? [normalizeSuiAddress(SUI_FRAMEWORK_ADDRESS), error.module.slice(5)]
+        : [this.packageId, error.module];
+      return `MoveAbort(MoveLocation { module: ModuleId { address: ${address.slice(
+        2
+      )}, name: Identifier("${module}") }, function: 0, instruction: 0, function_name: Some("${
+        error.functionName
+      }") }, ${error.code}) in command ${command}`;
+    }
+    return `${formatError(error)} in command ${command}`;
+  }
+
+  private decodeTransaction(
+    transactionBlock: Uint8Array | string
+  ): TransactionDataBuilder {
+    return TransactionDataBuilder.fromBytes(
+      typeof transactionBlock === "string"
+        ? fromBase64(transactionBlock)
+        : transactionBlock
+    );
+  }
+
+  private getOwnedCoins(owner: string): MockCoin[] {
+    const address = normalizeSuiAddress(owner);
+    return [...this.objects.values()].filter(
+      (object): object is MockCoin =>
+        isCoin(object) && this.getOwner(object) === address
+    );
+  }
+
+  private getFields(parentId: string): MockField[] {
+    const address = normalizeSuiAddress(parentId);
+    return [...this.objects.values()].filter(
+      (object): object is MockField =>
+        isField(object) &&
+        typeof object.owner === "object" &&
+        "ObjectOwner" in object.owner &&
+        object.owner.ObjectOwner === address
+    );
+  }
+
+  private getGasCoin(context: ExecutionContext): MockCoin {
+    const gasCoin = this.objects.get(context.gasCoinId);
+    if (!isCoin(gasCoin)) {
+      throw new Error(`Gas object ${context.gasCoinId} is not a coin`);
+    }
+    return gasCoin;
+  }
+
+  private getSender(data: TransactionDataBuilder): string {
+    if (!data.sender) {
+      throw new Error("Missing transaction sender");
+    }
+    return normalizeSuiAddress(data.sender);
+  }
+
+  private getGasOwner(data: TransactionDataBuilder): string {
+    return data.gasData.owner
+      ? normalizeSuiAddress(data.gasData.owner)
+      : this.getSender(data);
+  }
+
+  private getOwner(object: MockObject): string | undefined {
+    return typeof object.owner === "object" && "AddressOwner" in object.owner
+      ? object.owner.AddressOwner
+      : undefined;
+  }
+
+  private getLpType(typeX: string, typeY: string): string {
+    return normalizeStructTag(
+      `${this.packageId}::manage::LP<${typeX}, ${typeY}>`
+    );
+  }
+
+  private getCoinObjectType(coinType: string): string {
+    return `0x2::coin::Coin<${normalizeStructTag(coinType)}>`;
+  }
+
+  private toBigInt(amount: BigNumber): bigint {
+    return BigInt(amount.toFixed());
+  }
+
+  /**
+   * Page through items with a cursor pointing at the last item returned
+   */
+  private paginate<T, C>(
+    items: T[],
+    getCursor: (item: T) => C,
+    cursor?: C | null,
+    limit?: number | null,
+    equals: (a: C, b: C) => boolean = (a, b) => a === b
+  ): { data: T[]; nextCursor: C | null; hasNextPage: boolean } {
+    const start = cursor
+      ? items.findIndex((item) => equals(getCursor(item), cursor)) + 1
+      : 0;
+    const end = start + (limit || EVENT_PAGE_LIMIT);
+    const data = items.slice(start, end);
+    return {
+      data,
+      nextCursor: data.length
+        ? getCursor(data[data.length - 1])
+        : cursor ?? null,
+      hasNextPage: end < items.length,
+    };
+  }
+
+  private addObject(
+    object: Omit<MockObject, "version" | "digest" | "previousTransaction"> & {
+      previousTransaction?: string;
+    }
+  ): void {
+    this.objects.set(object.objectId, {
+      version: this.lamportVersion,
+      digest: this.newDigest(),
+      previousTransaction: object.previousTransaction || this.newDigest(),
+      ...object,
+    } as MockObject);
+  }
+
+  private newObjectId(): string {
+    return normalizeSuiAddress((this.nextObjectId++).toString(16));
+  }
+
+  private newDigest(): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return toBase58(bytes);
+  }
+
+  private snapshot(): MockState {
+    return {
+      objects: new Map(
+        [...this.objects].map(([objectId, object]) => [
+          objectId,
+          { ...object, coin: object.coin && { ...object.coin } },
+        ])
+      ),
+      engine: this.engine.snapshot(),
+      nextObjectId: this.nextObjectId,
+    };
+  }
+
+  private restore(state: MockState): void {
+    this.objects = state.objects;
+    this.engine.restore(state.engine);
+    this.nextObjectId = state.nextObjectId;
+  }
+}
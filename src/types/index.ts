@@ -2,6 +2,13 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import BigNumber from "bignumber.js";
+import { EventId, SuiClient, SuiObjectChange } from "@mysten/sui/client";
+import {
+  Transaction,
+  TransactionObjectArgument,
+} from "@mysten/sui/transactions";
+import { Keypair } from "@mysten/sui/cryptography";
+import { DipCoinErrorCode } from "../errors";
 
 /**
  * SDK Configuration Interface
@@ -11,10 +18,68 @@ export interface DipCoinSDKOptions {
   suiRpc: string;
   /** Current DEX contract address after upgrade */
   packageId: string;
+  /** Package that first defined the DEX types, LP coins and events are tagged with it, defaults to packageId */
+  originalPackageId?: string;
   /** Global config object ID */
   globalId: string;
   /** Global registered pools table ID (Table<String, address> type) */
   registedPoolsId: string;
+  /** Strategy for picking coin objects to spend, defaults to largest-first */
+  coinSelectionStrategy?: CoinSelectionStrategy;
+  /** Enables the pool state cache, pools are fetched on every call if omitted */
+  poolCache?: PoolCacheOptions;
+  /** Custom client, e.g. a MockSuiClient for offline tests, created from suiRpc if omitted */
+  client?: SuiClient;
+}
+
+/**
+ * Pool state cache configuration
+ */
+export interface PoolCacheOptions {
+  /** Time to live of cached pools in milliseconds, defaults to 2000 */
+  ttlMs?: number;
+  /** Per-pool time to live in milliseconds, keyed by pool ID */
+  poolTtlMs?: Record<string, number>;
+}
+
+/**
+ * Strategy for picking coin objects to spend
+ * - largest-first: biggest coins first, fewest merges for large amounts
+ * - smallest-first: smallest coins first, cleans up dust
+ * - fewest-inputs: a single coin if one covers the amount
+ */
+export type CoinSelectionStrategy =
+  | "largest-first"
+  | "smallest-first"
+  | "fewest-inputs";
+
+/**
+ * Raw on-chain token amount, must be an integer within the Move u64 range
+ * Use bigint or a decimal string for amounts above Number.MAX_SAFE_INTEGER.
+ */
+export type U64Amount = BigNumber | bigint | string;
+
+/**
+ * Human-readable token amount in whole coins, e.g. "1.5" for 1.5 USDC
+ * Converted to base units with the coin metadata decimals. Prefer strings or
+ * BigNumber, numbers are subject to floating point rounding.
+ */
+export type UiAmount = BigNumber | number | string;
+
+/**
+ * Coin metadata needed to convert and display amounts
+ */
+export interface CoinInfo {
+  /** Coin type in normalized package::module::struct format */
+  coinType: string;
+  /** Number of decimals of the base unit (e.g. 9 for SUI) */
+  decimals: number;
+  /** Ticker symbol (e.g. SUI) */
+  symbol: string;
+  /** Display name */
+  name: string;
+  /** Icon URL if the coin publishes one */
+  iconUrl?: string;
 }
 
 /**
@@ -28,13 +93,51 @@ export interface AddLiquidityParams {
   /** Token Y type in package::module::struct format (e.g. 0xdba...::wsol::WSOL) */
   typeY: string;
   /** Amount of token X to add */
-  amountX: BigNumber;
+  amountX: U64Amount;
   /** Amount of token Y to add */
-  amountY: BigNumber;
+  amountY: U64Amount;
   /** Slippage tolerance, defaults to 0.05 (5%) if not specified */
   slippage?: number;
 }
 
+/**
+ * Parameters for adding liquidity with amounts in whole coins
+ */
+export interface UiAddLiquidityParams
+  extends Omit<AddLiquidityParams, "amountX" | "amountY"> {
+  /** Amount of token X to add, in whole coins */
+  amountX: UiAmount;
+  /** Amount of token Y to add, in whole coins */
+  amountY: UiAmount;
+}
+
+/**
+ * Parameters for creating a new pool
+ */
+export interface CreatePoolParams {
+  /** Token X type in package::module::struct format (e.g. 0xdba...::usdc::USDC) */
+  typeX: string;
+  /** Token Y type in package::module::struct format (e.g. 0xdba...::wsol::WSOL) */
+  typeY: string;
+  /** Initial amount of token X seeded into the pool */
+  amountX: U64Amount;
+  /** Initial amount of token Y seeded into the pool */
+  amountY: U64Amount;
+  /** Pool fee rate in basis points (e.g. 30 means 0.3%) */
+  feeRate: number;
+}
+
+/**
+ * Parameters for creating a new pool with amounts in whole coins
+ */
+export interface UiCreatePoolParams
+  extends Omit<CreatePoolParams, "amountX" | "amountY"> {
+  /** Initial amount of token X seeded into the pool, in whole coins */
+  amountX: UiAmount;
+  /** Initial amount of token Y seeded into the pool, in whole coins */
+  amountY: UiAmount;
+}
+
 /**
  * Parameters for removing liquidity from a pool
  */
@@ -46,7 +149,7 @@ export interface RemoveLiquidityParams {
   /** Token Y type in package::module::struct format */
   typeY: string;
   /** Amount of LP tokens (Coin<LP<X,Y>> type) to remove */
-  removeLpAmount: BigNumber;
+  removeLpAmount: U64Amount;
   /** Slippage tolerance, defaults to 0.05 (5%) if not specified */
   slippage?: number;
 }
@@ -62,13 +165,186 @@ export interface SwapParams {
   /** Token Y type in package::module::struct format */
   typeY: string;
   /** Input token amount for exact input swaps */
-  amountIn?: BigNumber;
+  amountIn?: U64Amount;
   /** Output token amount for exact output swaps */
-  amountOut?: BigNumber;
+  amountOut?: U64Amount;
   /** Slippage tolerance, defaults to 0.05 (5%) if not specified */
   slippage?: number;
 }
 
+/**
+ * Parameters for swap operations with amounts in whole coins
+ */
+export interface UiSwapParams
+  extends Omit<SwapParams, "amountIn" | "amountOut"> {
+  /** Input token amount for exact input swaps, in whole coins of typeX */
+  amountIn?: UiAmount;
+  /** Output token amount for exact output swaps, in whole coins of typeY */
+  amountOut?: UiAmount;
+}
+
+/**
+ * Parameters for adding liquidity from a single token
+ */
+export interface ZapInParams {
+  /** Pool ID to add liquidity to */
+  pooId: string;
+  /** Token type held by the user, in package::module::struct format */
+  typeX: string;
+  /** Other token type of the pool, in package::module::struct format */
+  typeY: string;
+  /** Amount of token X to add, part of it is swapped to token Y */
+  amountIn: U64Amount;
+  /** Slippage tolerance of the swap and the liquidity addition, defaults to 0.05 (5%) */
+  slippage?: number;
+}
+
+/**
+ * Parameters for removing liquidity to a single token
+ */
+export interface ZapOutParams {
+  /** Pool ID to remove liquidity from */
+  pooId: string;
+  /** Token X type in package::module::struct format */
+  typeX: string;
+  /** Token Y type in package::module::struct format */
+  typeY: string;
+  /** Amount of LP tokens (Coin<LP<X,Y>> type) to remove */
+  removeLpAmount: U64Amount;
+  /** Token type to receive, typeX or typeY */
+  typeOut: string;
+  /** Slippage tolerance of the combined output, defaults to 0.05 (5%) */
+  slippage?: number;
+}
+
+/**
+ * Quote of removing liquidity to a single token
+ */
+export interface ZapOutQuote {
+  /** Token type received */
+  typeOut: string;
+  /** Token X withdrawn from the pool */
+  amountX: BigNumber;
+  /** Token Y withdrawn from the pool */
+  amountY: BigNumber;
+  /** Withdrawn amount of the other token swapped back through the pool */
+  swapAmountIn: BigNumber;
+  /** Output token bought by the swap */
+  swapAmountOut: BigNumber;
+  /** Expected total output token received */
+  amountOut: BigNumber;
+  /** Minimum total output token accepted with slippage */
+  amountOutMin: BigNumber;
+}
+
+/**
+ * Parameters for multi-hop swaps routed across registered pools
+ */
+export interface MultiHopSwapParams {
+  /** Input token type in package::module::struct format */
+  typeIn: string;
+  /** Output token type in package::module::struct format */
+  typeOut: string;
+  /** Input token amount for exact input swaps */
+  amountIn?: U64Amount;
+  /** Output token amount for exact output swaps */
+  amountOut?: U64Amount;
+  /** Slippage tolerance, defaults to 0.05 (5%) if not specified */
+  slippage?: number;
+  /** Maximum number of pools a route may go through, defaults to 3 */
+  maxHops?: number;
+}
+
+/**
+ * A single pool swap within a route
+ */
+export interface RouteHop {
+  /** Pool ID the hop swaps in */
+  poolId: string;
+  /** Sorted token X type of the pool */
+  typeX: string;
+  /** Sorted token Y type of the pool */
+  typeY: string;
+  /** Token type sold in this hop */
+  typeIn: string;
+  /** Token type bought in this hop */
+  typeOut: string;
+  /** Amount sold in this hop */
+  amountIn: BigNumber;
+  /** Amount bought in this hop */
+  amountOut: BigNumber;
+}
+
+/**
+ * Swap path across one or more pools
+ */
+export interface SwapRoute {
+  /** Token types visited by the route, from input to output */
+  path: string[];
+  /** Pool swaps in execution order */
+  hops: RouteHop[];
+  /** Total input amount of the route */
+  amountIn: BigNumber;
+  /** Total output amount of the route */
+  amountOut: BigNumber;
+}
+
+/**
+ * Swap quote computed from the current pool state without building a transaction
+ */
+export interface SwapQuote {
+  /** Input token amount, exact for exact input quotes */
+  amountIn: BigNumber;
+  /** Output token amount, exact for exact output quotes */
+  amountOut: BigNumber;
+  /** Minimum output accepted after slippage, set for exact input quotes */
+  amountOutMin?: BigNumber;
+  /** Maximum input spent after slippage, set for exact output quotes */
+  amountInMax?: BigNumber;
+  /** Part of the swap fee kept by liquidity providers, in input token */
+  lpFee: BigNumber;
+  /** Part of the swap fee sent to the protocol, in input token */
+  protocolFee: BigNumber;
+  /** Output token per input token before the swap */
+  spotPriceBefore: BigNumber;
+  /** Output token per input token after the swap */
+  spotPriceAfter: BigNumber;
+  /** Output token received per input token spent */
+  executionPrice: BigNumber;
+  /** Relative price loss caused by the trade size, excluding fees (0.01 means 1%) */
+  priceImpact: BigNumber;
+}
+
+/**
+ * Swap quote with amounts in whole coins and prices adjusted for decimals
+ */
+export interface UiSwapQuote {
+  /** Metadata of the input token */
+  coinIn: CoinInfo;
+  /** Metadata of the output token */
+  coinOut: CoinInfo;
+  /** Input token amount, exact for exact input quotes */
+  amountIn: string;
+  /** Output token amount, exact for exact output quotes */
+  amountOut: string;
+  /** Minimum output accepted after slippage, set for exact input quotes */
+  amountOutMin?: string;
+  /** Maximum input spent after slippage, set for exact output quotes */
+  amountInMax?: string;
+  /** Part of the swap fee kept by liquidity providers, in input token */
+  lpFee: string;
+  /** Part of the swap fee sent to the protocol, in input token */
+  protocolFee: string;
+  /** Whole output coins per whole input coin before the swap */
+  spotPriceBefore: BigNumber;
+  /** Whole output coins per whole input coin after the swap */
+  spotPriceAfter: BigNumber;
+  /** Whole output coins received per whole input coin spent */
+  executionPrice: BigNumber;
+  /** Relative price loss caused by the trade size, excluding fees (0.01 means 1%) */
+  priceImpact: BigNumber;
+}
+
 /**
  * Extended pool information including address and LP token name
  */
@@ -77,6 +353,58 @@ export interface PoolInfo extends Pool {
   poolAddress: string;
   /** LP token name */
   lpName: string;
+  /** Sorted token X type of the pool */
+  typeX: string;
+  /** Sorted token Y type of the pool */
+  typeY: string;
+}
+
+/**
+ * Registered pools table entry that could not be listed
+ */
+export interface SkippedPoolEntry {
+  /** Object ID of the table entry */
+  entryId: string;
+  /** LP token name of the entry, if it could be read */
+  lpName?: string;
+  /** Pool address of the entry, if it could be read */
+  poolAddress?: string;
+  /** Reason the entry was skipped */
+  error: string;
+}
+
+/**
+ * Pools registered in the global pools table
+ */
+export interface PoolList {
+  /** Pools that were listed */
+  pools: PoolInfo[];
+  /** Entries that were skipped because they or their pool could not be read */
+  skipped: SkippedPoolEntry[];
+}
+
+/**
+ * Liquidity position held by an address in a pool
+ */
+export interface LpPosition {
+  /** Pool ID */
+  poolId: string;
+  /** LP coin type, packageId::manage::LP<X, Y> */
+  lpType: string;
+  /** Sorted token X type of the pool */
+  typeX: string;
+  /** Sorted token Y type of the pool */
+  typeY: string;
+  /** LP tokens held */
+  lpBalance: BigNumber;
+  /** Share of the pool LP supply, as a fraction */
+  share: BigNumber;
+  /** Token X withdrawn when removing the whole position */
+  amountX: BigNumber;
+  /** Token Y withdrawn when removing the whole position */
+  amountY: BigNumber;
+  /** Current pool state */
+  pool: Pool;
 }
 
 /**
@@ -125,6 +453,8 @@ export interface SDKResponse<T = any> {
   data?: T;
   /** Error message if failed */
   error?: string;
+  /** Error code if failed */
+  errorCode?: DipCoinErrorCode;
 }
 
 /**
@@ -136,7 +466,15 @@ export interface TransferParams {
   /** Coin type in package::module::struct format (e.g. 0x2::sui::SUI) */
   coinType: string;
   /** Amount to transfer */
-  amount: BigNumber;
+  amount: U64Amount;
+}
+
+/**
+ * Parameters for transfer operations with the amount in whole coins
+ */
+export interface UiTransferParams extends Omit<TransferParams, "amount"> {
+  /** Amount to transfer, in whole coins */
+  amount: UiAmount;
 }
 
 /**
@@ -149,6 +487,525 @@ export interface TxResponse {
   status: boolean;
   /** Error message if failed */
   error?: string;
+  /** Error code if failed, for branching without matching error messages */
+  errorCode?: DipCoinErrorCode;
   /** Created pool ID for pool creation transactions */
   createdPoolId?: string;
+  /** Dry-run result, only set when the transaction was simulated */
+  simulation?: SimulationResult;
+  /** DipCoin events emitted by the transaction */
+  events?: DipCoinEvent[];
+  /** Net gas cost in MIST (computation + storage - rebate) */
+  gasUsed?: BigNumber;
+  /** Balance changes caused by the transaction, including gas */
+  balanceChanges?: CoinBalanceChange[];
+  /** Objects created, mutated, transferred or deleted by the transaction */
+  objectChanges?: SuiObjectChange[];
+  /** Checkpoint that includes the transaction, set when waiting for finality */
+  checkpoint?: string;
+  /**
+   * Whether the wait for finality succeeded, only set with waitForFinality.
+   * false when the effects are known but the checkpoint wait failed, see
+   * finalityError.
+   */
+  finalized?: boolean;
+  /** Reason the wait for finality failed */
+  finalityError?: string;
+  /**
+   * Set when the transaction was submitted but its effects could not be
+   * fetched, e.g. because waiting for them timed out. status is false although
+   * the transaction may still succeed, look it up later by txId.
+   */
+  pending?: boolean;
+}
+
+/**
+ * Response of an operation executed as a sequence of separate transactions
+ * The sequence is not atomic: transactions that succeeded before a failed one
+ * are not rolled back. The top-level fields describe the last executed
+ * transaction, status is only true if every transaction succeeded.
+ */
+export interface SequentialTxResponse extends TxResponse {
+  /** Responses of the executed transactions in execution order */
+  steps: TxResponse[];
+  /**
+   * Set when a transaction failed after earlier ones succeeded, so their
+   * output coins stay in the wallet instead of completing the operation
+   */
+  partial: boolean;
+}
+
+/**
+ * Options for building a transaction
+ */
+export interface BuildTxOptions {
+  /**
+   * Build for a sponsored transaction whose gas is paid by another address,
+   * SUI inputs are then taken from the sender's coins instead of the gas coin
+   */
+  sponsored?: boolean;
+}
+
+/**
+ * Options for executing a transaction
+ */
+export interface ExecuteOptions {
+  /** Sponsor that pays the gas, the transaction is signed by both the signer and the sponsor */
+  sponsor?: Keypair | DipCoinSigner;
+  /** Only simulate the transaction through a dry run instead of signing it */
+  dryRun?: boolean;
+  /**
+   * Wait until the transaction is included in a checkpoint before returning,
+   * the response reports finalized: false if the wait fails after the effects
+   * are known
+   */
+  waitForFinality?: boolean;
+  /** Maximum time to wait for finality in milliseconds, defaults to one minute */
+  finalityTimeoutMs?: number;
+}
+
+/**
+ * Signature over transaction bytes
+ */
+export interface SignedTransaction {
+  /** Signed transaction bytes in base64 */
+  bytes: string;
+  /** Serialized signature in base64 */
+  signature: string;
+}
+
+/**
+ * Signer that can authorize DipCoin transactions
+ * Implementations exist for keypairs, Wallet Standard wallets and remote signing
+ * services, see the signer module.
+ */
+export interface DipCoinSigner {
+  /** Get the Sui address of the signer */
+  getAddress(): Promise<string>;
+  /** Sign built transaction bytes */
+  signTransaction(bytes: Uint8Array): Promise<SignedTransaction>;
+  /**
+   * Optionally sign and submit a transaction in one step, e.g. for wallets that
+   * execute transactions themselves. Returns the transaction digest.
+   */
+  executeTransaction?(tx: Transaction): Promise<{ digest: string }>;
+}
+
+/**
+ * Location and code of a Move abort
+ */
+export interface MoveAbort {
+  /** Package address of the aborting module */
+  packageId: string;
+  /** Module name (e.g. router) */
+  module: string;
+  /** Function name if reported by the node */
+  functionName?: string;
+  /** Abort code */
+  code: number;
+  /** Index of the transaction command that aborted */
+  command?: number;
+}
+
+/**
+ * Balance change of one coin type for one owner
+ */
+export interface CoinBalanceChange {
+  /** Owner address, or object ID for object owned coins */
+  owner: string;
+  /** Coin type in package::module::struct format */
+  coinType: string;
+  /** Amount received, negative if spent */
+  amount: BigNumber;
+}
+
+/**
+ * Result of a transaction dry run
+ */
+export interface SimulationResult {
+  /** Whether the transaction would succeed */
+  status: boolean;
+  /** Digest the transaction would have */
+  txId: string;
+  /** Balance changes the transaction would cause, including gas */
+  balanceChanges: CoinBalanceChange[];
+  /** Net gas cost in MIST (computation + storage - rebate) */
+  gasEstimate: BigNumber;
+  /** DipCoin events the transaction would emit */
+  events: DipCoinEvent[];
+  /** Failure reason if the transaction would fail */
+  error?: string;
+  /** Error code of the failure */
+  errorCode?: DipCoinErrorCode;
+  /** Decoded Move abort if the failure is an abort */
+  abort?: MoveAbort;
+}
+
+/**
+ * Fields shared by all DipCoin events
+ */
+export interface DipCoinEventBase {
+  /** Pool the event was emitted for */
+  poolId: string;
+  /** Address that sent the transaction */
+  sender: string;
+  /** Transaction digest */
+  txId: string;
+  /** Sequence number of the event within its transaction */
+  eventSeq: string;
+  /** Event timestamp in milliseconds, if the node reports it */
+  timestampMs?: number;
+  /** Pool token X balance after the operation */
+  reserveX: BigNumber;
+  /** Pool token Y balance after the operation */
+  reserveY: BigNumber;
+}
+
+/**
+ * Swap executed in a pool
+ */
+export interface DipCoinSwapEvent extends DipCoinEventBase {
+  type: "swap";
+  /** Amount of token X sold to the pool */
+  amountXIn: BigNumber;
+  /** Amount of token Y sold to the pool */
+  amountYIn: BigNumber;
+  /** Amount of token X bought from the pool */
+  amountXOut: BigNumber;
+  /** Amount of token Y bought from the pool */
+  amountYOut: BigNumber;
+}
+
+/**
+ * Liquidity added to a pool
+ */
+export interface DipCoinAddLiquidityEvent extends DipCoinEventBase {
+  type: "addLiquidity";
+  /** Amount of token X deposited */
+  amountX: BigNumber;
+  /** Amount of token Y deposited */
+  amountY: BigNumber;
+  /** LP tokens minted */
+  lpAmount: BigNumber;
+}
+
+/**
+ * Liquidity removed from a pool
+ */
+export interface DipCoinRemoveLiquidityEvent extends DipCoinEventBase {
+  type: "removeLiquidity";
+  /** Amount of token X withdrawn */
+  amountX: BigNumber;
+  /** Amount of token Y withdrawn */
+  amountY: BigNumber;
+  /** LP tokens burned */
+  lpAmount: BigNumber;
+}
+
+/**
+ * Any parsed DipCoin event
+ */
+export type DipCoinEvent =
+  | DipCoinSwapEvent
+  | DipCoinAddLiquidityEvent
+  | DipCoinRemoveLiquidityEvent;
+
+/**
+ * Update delivered to pool subscription handlers
+ */
+export interface PoolEventUpdate {
+  /** Parsed DipCoin event */
+  event: DipCoinEvent;
+  /** Pool state fetched after the polled page of events, null if it could not be loaded */
+  pool: Pool | null;
+  /** Cursor of the event, save it to resume the subscription after it */
+  cursor: EventId;
+}
+
+/**
+ * Handler called for every event of a pool subscription
+ */
+export type PoolEventHandler = (
+  update: PoolEventUpdate
+) => void | Promise<void>;
+
+/**
+ * Pool subscription options
+ */
+export interface SubscribeOptions {
+  /**
+   * Resume after this event cursor, null replays every event from the start
+   * Only new events are delivered if omitted.
+   */
+  cursor?: EventId | null;
+  /** Delay between polls in milliseconds, defaults to 1000 */
+  pollIntervalMs?: number;
+  /** Upper bound of the retry delay after consecutive failed polls, defaults to 30000 */
+  maxBackoffMs?: number;
+  /** Called with RPC and handler errors, the subscription keeps polling */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Time window of pool analytics, Unix timestamps in milliseconds
+ */
+export interface PoolStatsParams {
+  /** Window start, defaults to 24 hours before endTime */
+  startTime?: number;
+  /** Window end, defaults to now */
+  endTime?: number;
+  /** Maximum number of event pages fetched, defaults to STATS_MAX_EVENT_PAGES */
+  maxPages?: number;
+}
+
+/**
+ * Aggregated pool activity over a time window
+ * Fees and TVL are estimates from the events and the current state: the
+ * protocol share of every swap fee uses the current protocol fee flag, even for
+ * swaps made while it was different, and TVL is twice the current Y reserve.
+ * BigNumber fields serialize to decimal strings with JSON.stringify.
+ */
+export interface PoolStats {
+  /** Pool ID */
+  poolId: string;
+  /** Window start, Unix timestamp in milliseconds */
+  startTime: number;
+  /** Window end, Unix timestamp in milliseconds */
+  endTime: number;
+  /** Number of swaps in the window */
+  swapCount: number;
+  /** Number of liquidity additions in the window */
+  addLiquidityCount: number;
+  /** Number of liquidity removals in the window */
+  removeLiquidityCount: number;
+  /** Traded amount of token X, bought and sold */
+  volumeX: BigNumber;
+  /** Traded amount of token Y, bought and sold */
+  volumeY: BigNumber;
+  /** Swap fees in token X kept by LPs, split with the current protocol fee flag */
+  lpFeeX: BigNumber;
+  /** Swap fees in token Y kept by LPs, split with the current protocol fee flag */
+  lpFeeY: BigNumber;
+  /** Swap fees in token X taken by the protocol, split with the current protocol fee flag */
+  protocolFeeX: BigNumber;
+  /** Swap fees in token Y taken by the protocol, split with the current protocol fee flag */
+  protocolFeeY: BigNumber;
+  /** Current reserve of token X */
+  reserveX: BigNumber;
+  /** Current reserve of token Y */
+  reserveY: BigNumber;
+  /** Total value locked in units of token Y, approximated as twice the current Y reserve */
+  tvlY: BigNumber;
+  /** LP fee APR annualised from the window, as a fraction (0.12 = 12%) */
+  apr: BigNumber;
+  /** Whether the page limit was reached before the window start, the figures then only cover the newest events */
+  isTruncated: boolean;
+}
+
+/**
+ * Result of comparing the configured package with the packages on chain
+ */
+export interface PackageUpgradeStatus {
+  /** Configured call target package */
+  packageId: string;
+  /** Version of the configured package, 0 if the package was not found */
+  packageVersion: number;
+  /** Package that defined the Global type on chain */
+  originalPackageId: string;
+  /** UpgradeCap of the package */
+  upgradeCapId: string;
+  /** Latest package according to the UpgradeCap */
+  latestPackageId: string;
+  /** Version of the latest package */
+  latestPackageVersion: number;
+  /** Whether the configured package is not the latest one */
+  isStale: boolean;
+  /** Whether the configured original package differs from the one on chain */
+  isOriginalMismatch: boolean;
+}
+
+/**
+ * Snapshot of a liquidity position taken when it was opened
+ */
+export interface LpEntrySnapshot {
+  /** Token X deposited */
+  amountX: BigNumber;
+  /** Token Y deposited */
+  amountY: BigNumber;
+  /** LP tokens received */
+  lpAmount: BigNumber;
+  /** Pool reserve of token X at entry */
+  reserveX: BigNumber;
+  /** Pool reserve of token Y at entry */
+  reserveY: BigNumber;
+}
+
+/**
+ * Token the values of a position P&L are expressed in
+ */
+export type PnlQuote = "x" | "y";
+
+/**
+ * Profit and loss of a liquidity position compared to holding its deposit
+ * Values are expressed in the quote token.
+ */
+export interface PositionPnl {
+  /** Token the values are expressed in */
+  quote: PnlQuote;
+  /** Price of token X in token Y the position is valued at */
+  price: BigNumber;
+  /** Token X the position would withdraw */
+  amountX: BigNumber;
+  /** Token Y the position would withdraw */
+  amountY: BigNumber;
+  /** Value of the position */
+  positionValue: BigNumber;
+  /** Value of the deposited tokens if they had been held */
+  holdValue: BigNumber;
+  /** Value of the deposited tokens at the entry price */
+  entryValue: BigNumber;
+  /** Value of the swap fees earned by the position */
+  feesEarned: BigNumber;
+  /** Impermanent loss as a fraction of the hold value, zero or negative */
+  impermanentLoss: BigNumber;
+  /** Value lost to price divergence before fees, zero or negative */
+  impermanentLossValue: BigNumber;
+  /** Position value minus hold value, fees included */
+  netPnl: BigNumber;
+  /** Position value minus entry value, the return of the deposit in the quote token */
+  entryPnl: BigNumber;
+}
+
+/**
+ * Parameters for appending an exact input swap to a composed transaction
+ */
+export interface ComposeSwapExactInParams {
+  /** Pool ID to perform swap in */
+  pooId: string;
+  /** Input token type in package::module::struct format */
+  typeX: string;
+  /** Output token type in package::module::struct format */
+  typeY: string;
+  /** Input coin, swapped entirely */
+  coinIn: TransactionObjectArgument;
+  /** Minimum output amount, the transaction aborts below it */
+  amountOutMin: U64Amount;
+}
+
+/**
+ * Parameters for appending an exact output swap to a composed transaction
+ */
+export interface ComposeSwapExactOutParams {
+  /** Pool ID to perform swap in */
+  pooId: string;
+  /** Input token type in package::module::struct format */
+  typeX: string;
+  /** Output token type in package::module::struct format */
+  typeY: string;
+  /** Input coin, its balance is the maximum input */
+  coinIn: TransactionObjectArgument;
+  /** Exact output amount */
+  amountOut: U64Amount;
+}
+
+/**
+ * Parameters for appending a liquidity addition to a composed transaction
+ */
+export interface ComposeAddLiquidityParams {
+  /** Pool ID to add liquidity to */
+  pooId: string;
+  /** Token X type in package::module::struct format */
+  typeX: string;
+  /** Token Y type in package::module::struct format */
+  typeY: string;
+  /** Coin of token X to add */
+  coinX: TransactionObjectArgument;
+  /** Coin of token Y to add */
+  coinY: TransactionObjectArgument;
+  /** Minimum amount of token X added */
+  coinXMin: U64Amount;
+  /** Minimum amount of token Y added */
+  coinYMin: U64Amount;
+}
+
+/**
+ * Parameters for appending a liquidity removal to a composed transaction
+ */
+export interface ComposeRemoveLiquidityParams {
+  /** Pool ID to remove liquidity from */
+  pooId: string;
+  /** Token X type in package::module::struct format */
+  typeX: string;
+  /** Token Y type in package::module::struct format */
+  typeY: string;
+  /** LP coin (Coin<LP<X,Y>> type) to remove liquidity with */
+  lpCoin: TransactionObjectArgument;
+  /** Amount of LP tokens to remove */
+  lpAmount: U64Amount;
+  /** Minimum amount of token X withdrawn */
+  coinXMin: U64Amount;
+  /** Minimum amount of token Y withdrawn */
+  coinYMin: U64Amount;
+}
+
+/**
+ * Initial state of the in-memory DipCoin engine
+ */
+export interface DipCoinEngineOptions {
+  /** Whether the protocol starts paused, defaults to false */
+  paused?: boolean;
+  /** Whether the protocol fee starts enabled, defaults to false */
+  openProtocolFee?: boolean;
+  /** min_add_liquidity_lp_amount of created pools, defaults to 1000 */
+  minAddLiquidityLpAmount?: U64Amount;
+}
+
+/**
+ * Complete state of the in-memory DipCoin engine
+ */
+export interface DipCoinEngineState {
+  /** Global config */
+  global: Global;
+  /** Pools keyed by pool ID */
+  pools: Map<string, Pool>;
+  /** Sorted [typeX, typeY] of every pool keyed by pool ID */
+  poolTypes: Map<string, [string, string]>;
+  /** Registered pools table, LP names mapped to pool IDs */
+  registry: Map<string, string>;
+}
+
+/**
+ * Event emitted by an engine operation, fields are formatted like the on-chain JSON
+ */
+export interface EngineEvent {
+  /** Event struct name in the manage module */
+  name: string;
+  /** Event fields */
+  fields: Record<string, string>;
+}
+
+/**
+ * Result of an engine operation
+ */
+export interface EngineResult {
+  /** Amounts moved by the operation, see the operation for their order */
+  amounts: BigNumber[];
+  /** Emitted event */
+  event: EngineEvent;
+}
+
+/**
+ * Mock SuiClient configuration
+ */
+export interface MockSuiClientOptions {
+  /** DEX package ID served by the mock, generated if omitted */
+  packageId?: string;
+  /** Initial engine state */
+  engine?: DipCoinEngineOptions;
+  /** Reference gas price in MIST, defaults to 1000 */
+  referenceGasPrice?: U64Amount;
+  /** Computation cost charged to every transaction in MIST, defaults to 1000000 */
+  gasCost?: U64Amount;
+  /** Clock used for event and transaction timestamps, defaults to Date.now */
+  now?: () => number;
 }
@@ -0,0 +1,142 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { SuiClient } from "@mysten/sui/client";
+import { normalizeStructTag, parseStructTag } from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+import { CoinInfo, U64Amount, UiAmount } from "../types";
+import { InvalidParamsError } from "../errors";
+import { parseU64 } from "./utils";
+
+/**
+ * Resolves coin decimals and symbols from on-chain coin metadata
+ * Metadata does not change once published, so it is cached for the lifetime of
+ * the service. Concurrent lookups of the same coin share one request.
+ */
+export class CoinMetadataService {
+  private readonly client: SuiClient;
+  private readonly entries = new Map<string, Promise<CoinInfo | null>>();
+
+  /**
+   * @param client Sui client the metadata is fetched with
+   */
+  constructor(client: SuiClient) {
+    this.client = client;
+  }
+
+  /**
+   * Get the metadata of a coin
+   * @param coinType Coin type in package::module::struct format
+   * @returns Coin metadata, or null if the coin has none
+   */
+  public get(coinType: string): Promise<CoinInfo | null> {
+    const key = normalizeStructTag(coinType);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = this.fetch(key);
+      this.entries.set(key, entry);
+      // Failed lookups are retried on the next call
+      entry.catch(() => this.entries.delete(key));
+    }
+    return entry;
+  }
+
+  /**
+   * Get the metadata of a coin that must have metadata
+   * @param coinType Coin type in package::module::struct format
+   * @returns Coin metadata
+   * @throws {InvalidParamsError} If the coin has no metadata
+   */
+  public async require(coinType: string): Promise<CoinInfo> {
+    const info = await this.get(coinType);
+    if (!info) {
+      throw new InvalidParamsError(
+        `No coin metadata for ${coinType}, pass the amount in base units`
+      );
+    }
+    return info;
+  }
+
+  /**
+   * Register the metadata of a coin, e.g. one that publishes no CoinMetadata
+   * @param info Coin metadata
+   */
+  public set(info: CoinInfo): void {
+    const coinType = normalizeStructTag(info.coinType);
+    this.entries.set(coinType, Promise.resolve({ ...info, coinType }));
+  }
+
+  /**
+   * Drop cached metadata
+   * @param coinTypes Coin types to drop, every coin if omitted
+   */
+  public invalidate(coinTypes?: string | string[]): void {
+    if (coinTypes === undefined) {
+      this.entries.clear();
+      return;
+    }
+    for (const coinType of Array.isArray(coinTypes) ? coinTypes : [coinTypes]) {
+      this.entries.delete(normalizeStructTag(coinType));
+    }
+  }
+
+  private async fetch(coinType: string): Promise<CoinInfo | null> {
+    const metadata = await this.client.getCoinMetadata({ coinType });
+    if (!metadata) {
+      return null;
+    }
+    return {
+      coinType,
+      decimals: metadata.decimals,
+      // Some coins publish an empty symbol, fall back to the struct name
+      symbol: metadata.symbol || parseStructTag(coinType).name,
+      name: metadata.name,
+      iconUrl: metadata.iconUrl ?? undefined,
+    };
+  }
+}
+
+/**
+ * Converts a human-readable amount to base units
+ * @param amount Amount in whole coins, e.g. "1.5" for 1.5 USDC
+ * @param decimals Decimals of the coin
+ * @param name Parameter name used in the error message
+ * @returns Amount in base units, e.g. 1500000 for 1.5 USDC
+ *
+ * @example
+ * toBaseUnits("1.5", 6) // Returns: BigNumber(1500000)
+ */
+export function toBaseUnits(
+  amount: UiAmount,
+  decimals: number,
+  name = "amount"
+): BigNumber {
+  const value = BigNumber.isBigNumber(amount)
+    ? amount
+    : BigNumber(amount.toString());
+  if (!value.isFinite() || value.lt(0)) {
+    throw new InvalidParamsError(
+      `${name} must be a non-negative number, got ${amount}`
+    );
+  }
+  const baseUnits = value.shiftedBy(decimals);
+  if (!baseUnits.isInteger()) {
+    throw new InvalidParamsError(
+      `${name} has more than ${decimals} decimals, got ${amount}`
+    );
+  }
+  return parseU64(baseUnits, name);
+}
+
+/**
+ * Converts an amount in base units to a human-readable amount
+ * @param amount Amount in base units
+ * @param decimals Decimals of the coin
+ * @returns Amount in whole coins without trailing zeros
+ *
+ * @example
+ * fromBaseUnits(1500000n, 6) // Returns: "1.5"
+ */
+export function fromBaseUnits(amount: U64Amount, decimals: number): string {
+  return BigNumber(amount.toString()).shiftedBy(-decimals).toFixed();
+}
@@ -0,0 +1,102 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { CoinStruct, SuiClient } from "@mysten/sui/client";
+import BigNumber from "bignumber.js";
+import { CoinSelectionStrategy } from "../types";
+
+/**
+ * Fetches every coin object of a type owned by an address, following all pages
+ * @param client SuiClient instance
+ * @param ownerAddress The address of the coin owner
+ * @param type The coin type (format: packageId::module::struct)
+ * @returns All coin objects of the type
+ */
+export async function getAllCoins(
+  client: SuiClient,
+  ownerAddress: string,
+  type: string
+): Promise<CoinStruct[]> {
+  const coins: CoinStruct[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await client.getCoins({
+      owner: ownerAddress,
+      coinType: type,
+      cursor,
+    });
+    coins.push(...page.data);
+    cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+  } while (cursor);
+  return coins;
+}
+
+/**
+ * Selects coins covering an amount with the given strategy
+ * - largest-first: uses the biggest coins, fewest merges for large amounts
+ * - smallest-first: uses the smallest coins first to clean up dust, falls back
+ *   to largest-first if that needs more than maxInputs coins
+ * - fewest-inputs: uses the smallest single coin covering the amount if there is
+ *   one, otherwise largest-first
+ *
+ * @param coins Available coin objects
+ * @param amount The amount to cover
+ * @param strategy Coin selection strategy
+ * @param maxInputs Maximum number of coins that may be selected
+ * @returns Selected coins, or null if the amount cannot be covered within maxInputs coins
+ */
+export function selectCoins(
+  coins: CoinStruct[],
+  amount: BigNumber,
+  strategy: CoinSelectionStrategy,
+  maxInputs: number
+): CoinStruct[] | null {
+  const ascending = [...coins].sort(
+    (a, b) => BigNumber(a.balance).comparedTo(b.balance) ?? 0
+  );
+  const descending = [...ascending].reverse();
+
+  switch (strategy) {
+    case "smallest-first":
+      return (
+        accumulateCoins(ascending, amount, maxInputs) ||
+        accumulateCoins(descending, amount, maxInputs)
+      );
+    case "fewest-inputs": {
+      const single = ascending.find((coin) =>
+        BigNumber(coin.balance).gte(amount)
+      );
+      return single ? [single] : accumulateCoins(descending, amount, maxInputs);
+    }
+    case "largest-first":
+    default:
+      return accumulateCoins(descending, amount, maxInputs);
+  }
+}
+
+/**
+ * Takes coins in order until their total covers the amount
+ * @param coins Ordered coin objects
+ * @param amount The amount to cover
+ * @param maxInputs Maximum number of coins that may be taken
+ * @returns Taken coins, or null if the amount is not covered within maxInputs coins
+ */
+function accumulateCoins(
+  coins: CoinStruct[],
+  amount: BigNumber,
+  maxInputs: number
+): CoinStruct[] | null {
+  const selected: CoinStruct[] = [];
+  let total = BigNumber(0);
+  for (const coin of coins) {
+    if (selected.length >= maxInputs) {
+      return null;
+    }
+    selected.push(coin);
+    total = total.plus(coin.balance);
+    if (total.gte(amount)) {
+      return selected;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { MoveAbort } from "../types";
+
+/**
+ * Formats an error object into a string message
+ * @param error Error object to format
+ * @returns Formatted error message string
+ */
+export function formatError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Extracts the abort location and code from a Move abort error message
+ * @param error Execution error status or error message
+ * @returns Decoded Move abort or null if the error is not an abort
+ *
+ * @example
+ * parseMoveAbort(
+ *   'MoveAbort(MoveLocation { module: ModuleId { address: 3f52..., name: Identifier("router") }, ' +
+ *     'function: 5, instruction: 21, function_name: Some("swap_exact_x_to_y") }, 3) in command 2'
+ * )
+ * // Returns: { packageId: "0x3f52...", module: "router", functionName: "swap_exact_x_to_y", code: 3, command: 2 }
+ */
+export function parseMoveAbort(error: string): MoveAbort | null {
+  const match =
+    /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (?:0x)?([0-9a-fA-F]+), name: Identifier\("(\w+)"\) \}, function: \d+, instruction: \d+, function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)(?: in command (\d+))?/.exec(
+      error
+    );
+  if (!match) {
+    return null;
+  }
+  return {
+    packageId: normalizeSuiAddress(match[1]),
+    module: match[2],
+    functionName: match[3],
+    code: Number(match[4]),
+    command: match[5] !== undefined ? Number(match[5]) : undefined,
+  };
+}
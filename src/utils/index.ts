@@ -2,4 +2,10 @@
 // SPDX-License-Identifier: Apache-2.0
 
 export * from "./utils";
+export * from "./error_message";
 export * from "./swap_math";
+export * from "./swap_router";
+export * from "./coin_selection";
+export * from "./pool_cache";
+export * from "./coin_metadata";
+export * from "./pool_analytics";
@@ -0,0 +1,147 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { DipCoinEvent, Global, Pool, PoolStats } from "../types";
+import { FEE_RATE_SCALE, YEAR_MS } from "../constants";
+import { SwapMath } from "./swap_math";
+
+/**
+ * Utility class for aggregating pool events into volume, fee and APR figures
+ */
+export class PoolAnalytics {
+  /**
+   * Aggregate the events of a pool over a time window
+   * Fees are charged on the swap input at the pool fee rate, the protocol share
+   * is split off while the protocol fee is enabled.
+   * @param pool Current pool state
+   * @param global Current global state
+   * @param events Events of the pool, events outside the window are ignored
+   * @param startTime Window start, Unix timestamp in milliseconds
+   * @param endTime Window end, Unix timestamp in milliseconds
+   * @returns Pool statistics
+   */
+  public static aggregate(
+    pool: Pool,
+    global: Global,
+    events: DipCoinEvent[],
+    startTime: number,
+    endTime: number
+  ): PoolStats {
+    const feeRate = BigNumber(pool.fee_rate.toString());
+    const reserveX = BigNumber(pool.bal_x.toString());
+    const reserveY = BigNumber(pool.bal_y.toString());
+    const stats: PoolStats = {
+      poolId: pool.id,
+      startTime,
+      endTime,
+      swapCount: 0,
+      addLiquidityCount: 0,
+      removeLiquidityCount: 0,
+      volumeX: BigNumber(0),
+      volumeY: BigNumber(0),
+      lpFeeX: BigNumber(0),
+      lpFeeY: BigNumber(0),
+      protocolFeeX: BigNumber(0),
+      protocolFeeY: BigNumber(0),
+      reserveX,
+      reserveY,
+      tvlY: reserveY.multipliedBy(2),
+      apr: BigNumber(0),
+      isTruncated: false,
+    };
+
+    for (const event of events) {
+      if (
+        event.timestampMs === undefined ||
+        event.timestampMs < startTime ||
+        event.timestampMs > endTime
+      ) {
+        continue;
+      }
+
+      switch (event.type) {
+        case "swap": {
+          stats.swapCount++;
+          stats.volumeX = stats.volumeX
+            .plus(event.amountXIn)
+            .plus(event.amountXOut);
+          stats.volumeY = stats.volumeY
+            .plus(event.amountYIn)
+            .plus(event.amountYOut);
+
+          const [lpFeeX, protocolFeeX] = this.getFees(
+            feeRate,
+            event.amountXIn,
+            global.is_open_protocol_fee
+          );
+          const [lpFeeY, protocolFeeY] = this.getFees(
+            feeRate,
+            event.amountYIn,
+            global.is_open_protocol_fee
+          );
+          stats.lpFeeX = stats.lpFeeX.plus(lpFeeX);
+          stats.lpFeeY = stats.lpFeeY.plus(lpFeeY);
+          stats.protocolFeeX = stats.protocolFeeX.plus(protocolFeeX);
+          stats.protocolFeeY = stats.protocolFeeY.plus(protocolFeeY);
+          break;
+        }
+        case "addLiquidity":
+          stats.addLiquidityCount++;
+          break;
+        case "removeLiquidity":
+          stats.removeLiquidityCount++;
+          break;
+      }
+    }
+
+    stats.apr = this.getApr(stats);
+    return stats;
+  }
+
+  /**
+   * Annualise the LP fees of a window against the current TVL
+   * Token X fees are valued in token Y at the current spot price.
+   * @param stats Aggregated statistics
+   * @returns APR as a fraction, 0 for empty pools or windows
+   */
+  public static getApr(stats: PoolStats): BigNumber {
+    const windowMs = stats.endTime - stats.startTime;
+    if (windowMs <= 0 || stats.reserveX.isZero() || stats.tvlY.isZero()) {
+      return BigNumber(0);
+    }
+    const lpFeeValueY = stats.lpFeeY.plus(
+      stats.lpFeeX.multipliedBy(stats.reserveY).dividedBy(stats.reserveX)
+    );
+    return lpFeeValueY
+      .dividedBy(stats.tvlY)
+      .multipliedBy(YEAR_MS)
+      .dividedBy(windowMs);
+  }
+
+  /**
+   * Split the fee charged on a swap input into the LP and protocol shares
+   * @param feeRate Pool fee rate in basis points
+   * @param amountIn Swap input amount
+   * @param isProtocolFeeOpen Whether the protocol fee is enabled
+   * @returns Tuple of [lpFee, protocolFee]
+   */
+  private static getFees(
+    feeRate: BigNumber,
+    amountIn: BigNumber,
+    isProtocolFeeOpen: boolean
+  ): [BigNumber, BigNumber] {
+    if (amountIn.isZero()) {
+      return [BigNumber(0), BigNumber(0)];
+    }
+    const totalFee = SwapMath.mulDiv(
+      amountIn,
+      feeRate,
+      BigNumber(FEE_RATE_SCALE)
+    );
+    const protocolFee = isProtocolFeeOpen
+      ? SwapMath.getFeeToTeam(feeRate, amountIn)
+      : BigNumber(0);
+    return [totalFee.minus(protocolFee), protocolFee];
+  }
+}
@@ -0,0 +1,95 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { Pool, PoolCacheOptions } from "../types";
+import { DEFAULT_POOL_CACHE_TTL_MS } from "../constants";
+
+/**
+ * Cached pool state with its expiry time
+ */
+interface PoolCacheEntry {
+  pool: Pool;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache of pool objects with a TTL per pool
+ */
+export class PoolCache {
+  private readonly entries = new Map<string, PoolCacheEntry>();
+  private readonly ttlMs: number;
+  private readonly poolTtlMs = new Map<string, number>();
+
+  /**
+   * @param options Cache options, default and per-pool TTLs
+   */
+  constructor(options: PoolCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_POOL_CACHE_TTL_MS;
+    for (const [poolId, ttlMs] of Object.entries(options.poolTtlMs || {})) {
+      this.setPoolTtl(poolId, ttlMs);
+    }
+  }
+
+  /**
+   * Get a cached pool if it has not expired
+   * @param poolId Pool object ID
+   * @returns Cached pool, or undefined if missing or expired
+   */
+  public get(poolId: string): Pool | undefined {
+    const key = normalizeSuiAddress(poolId);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.pool;
+  }
+
+  /**
+   * Store a pool, it expires after the TTL configured for it
+   * @param poolId Pool object ID
+   * @param pool Pool state
+   */
+  public set(poolId: string, pool: Pool): void {
+    const key = normalizeSuiAddress(poolId);
+    this.entries.set(key, {
+      pool,
+      expiresAt: Date.now() + (this.poolTtlMs.get(key) ?? this.ttlMs),
+    });
+  }
+
+  /**
+   * Override the TTL of a single pool, e.g. a shorter one for busy pools
+   * @param poolId Pool object ID
+   * @param ttlMs Time to live in milliseconds
+   */
+  public setPoolTtl(poolId: string, ttlMs: number): void {
+    this.poolTtlMs.set(normalizeSuiAddress(poolId), ttlMs);
+  }
+
+  /**
+   * Drop cached pools
+   * @param poolIds Pool object IDs to drop, every pool if omitted
+   */
+  public invalidate(poolIds?: string | string[]): void {
+    if (poolIds === undefined) {
+      this.entries.clear();
+      return;
+    }
+    for (const poolId of Array.isArray(poolIds) ? poolIds : [poolIds]) {
+      this.entries.delete(normalizeSuiAddress(poolId));
+    }
+  }
+
+  /**
+   * IDs of every cached pool, including expired ones
+   * @returns Pool object IDs
+   */
+  public keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
@@ -99,6 +99,26 @@ export class SwapMath {
       .integerValue(BigNumber.ROUND_DOWN);
   }
 
+  /**
+   * Calculate token amounts withdrawn when burning LP tokens
+   * @param lpAmount Amount of LP tokens to burn
+   * @param coinXReserve Current reserve of token X in pool
+   * @param coinYReserve Current reserve of token Y in pool
+   * @param lpSupply Current total supply of LP tokens
+   * @returns Tuple of [coinXOut, coinYOut]
+   */
+  public static getRemoveLiquidityAmounts(
+    lpAmount: BigNumber,
+    coinXReserve: BigNumber,
+    coinYReserve: BigNumber,
+    lpSupply: BigNumber
+  ): [BigNumber, BigNumber] {
+    return [
+      this.mulDiv(coinXReserve, lpAmount, lpSupply),
+      this.mulDiv(coinYReserve, lpAmount, lpSupply),
+    ];
+  }
+
   /**
    * Calculate LP token amount to mint for provided liquidity
    * @param optimalCoinX Optimal amount of token X being added
@@ -250,6 +270,50 @@ export class SwapMath {
     return amountIn;
   }
 
+  /**
+   * Calculate the part of a single token input to swap before adding liquidity
+   * Solves (amountIn - swapIn) / (reserveIn + swapIn) = amountOut / (reserveOut - amountOut)
+   * so that both halves match the pool ratio after the swap.
+   * @param feeRate Fee rate to apply to swap
+   * @param amountIn Total input token amount
+   * @param reserveIn Reserve of input token
+   * @returns Amount of input token to swap
+   * @throws For invalid parameters
+   */
+  public static getZapInSwapAmount(
+    feeRate: BigNumber,
+    amountIn: BigNumber,
+    reserveIn: BigNumber
+  ): BigNumber {
+    if (feeRate.isGreaterThan(this.MAX_FEE_RATE)) {
+      throw new Error("Invalid fee rate");
+    }
+    if (amountIn.isZero()) {
+      throw new Error("Zero amount");
+    }
+    if (reserveIn.isZero()) {
+      throw new Error("Reserves empty");
+    }
+
+    // swapIn = (sqrt(((1 + m) * R)^2 + 4 * m * a * R) - (1 + m) * R) / (2 * m), m = 1 - fee
+    const feeMultiplier = this.FEE_SCALE.minus(feeRate).dividedBy(
+      this.FEE_SCALE
+    );
+    const b = feeMultiplier.plus(1).multipliedBy(reserveIn);
+    return b
+      .multipliedBy(b)
+      .plus(
+        feeMultiplier
+          .multipliedBy(4)
+          .multipliedBy(amountIn)
+          .multipliedBy(reserveIn)
+      )
+      .sqrt()
+      .minus(b)
+      .dividedBy(feeMultiplier.multipliedBy(2))
+      .integerValue(BigNumber.ROUND_DOWN);
+  }
+
   /**
    * Verify that LP token value (k = x*y) has not decreased after operation
    * @param oldReserveX Previous reserve of token X
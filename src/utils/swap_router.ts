@@ -0,0 +1,225 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { PoolInfo, RouteHop, SwapRoute } from "../types";
+import { SwapMath } from "./swap_math";
+
+/**
+ * Edge of the pool graph, pointing from the token sold to the token bought
+ */
+interface PoolEdge {
+  pool: PoolInfo;
+  typeIn: string;
+  typeOut: string;
+}
+
+/**
+ * Utility class for finding the best swap path across registered pools
+ */
+export class SwapRouter {
+  public static readonly DEFAULT_MAX_HOPS = 3;
+
+  /**
+   * Build an adjacency list of tradable token pairs from pool information
+   * @param pools Pools to route through
+   * @returns Map from token type to the pools that sell it
+   */
+  public static buildGraph(pools: PoolInfo[]): Map<string, PoolEdge[]> {
+    const graph = new Map<string, PoolEdge[]>();
+    const addEdge = (edge: PoolEdge) => {
+      const edges = graph.get(edge.typeIn) || [];
+      edges.push(edge);
+      graph.set(edge.typeIn, edges);
+    };
+
+    for (const pool of pools) {
+      // Empty pools cannot quote any swap
+      if (pool.bal_x === BigInt(0) || pool.bal_y === BigInt(0)) {
+        continue;
+      }
+      const typeX = normalizeStructTag(pool.typeX);
+      const typeY = normalizeStructTag(pool.typeY);
+      addEdge({ pool, typeIn: typeX, typeOut: typeY });
+      addEdge({ pool, typeIn: typeY, typeOut: typeX });
+    }
+    return graph;
+  }
+
+  /**
+   * Find the route that returns the most output for an exact input amount
+   * @param pools Pools to route through
+   * @param typeIn Input token type
+   * @param typeOut Output token type
+   * @param amountIn Exact input amount
+   * @param maxHops Maximum number of pools a route may go through
+   * @returns Best route, or null if the tokens are not connected
+   */
+  public static findBestExactInRoute(
+    pools: PoolInfo[],
+    typeIn: string,
+    typeOut: string,
+    amountIn: BigNumber,
+    maxHops: number = this.DEFAULT_MAX_HOPS
+  ): SwapRoute | null {
+    let best: SwapRoute | null = null;
+    for (const edges of this.findPaths(pools, typeIn, typeOut, maxHops)) {
+      const hops: RouteHop[] = [];
+      let amount = amountIn;
+      try {
+        for (const edge of edges) {
+          const [reserveIn, reserveOut] = this.getReserves(edge);
+          const amountOut = SwapMath.getAmountOut(
+            BigNumber(edge.pool.fee_rate.toString()),
+            amount,
+            reserveIn,
+            reserveOut
+          );
+          if (amountOut.lte(0)) {
+            throw new Error("Zero amount");
+          }
+          hops.push(this.toHop(edge, amount, amountOut));
+          amount = amountOut;
+        }
+      } catch (error) {
+        // Path cannot be quoted with this amount, try the next one
+        continue;
+      }
+
+      if (!best || amount.gt(best.amountOut)) {
+        best = this.toRoute(hops);
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Find the route that requires the least input for an exact output amount
+   * @param pools Pools to route through
+   * @param typeIn Input token type
+   * @param typeOut Output token type
+   * @param amountOut Exact output amount
+   * @param maxHops Maximum number of pools a route may go through
+   * @returns Best route, or null if the tokens are not connected
+   */
+  public static findBestExactOutRoute(
+    pools: PoolInfo[],
+    typeIn: string,
+    typeOut: string,
+    amountOut: BigNumber,
+    maxHops: number = this.DEFAULT_MAX_HOPS
+  ): SwapRoute | null {
+    let best: SwapRoute | null = null;
+    for (const edges of this.findPaths(pools, typeIn, typeOut, maxHops)) {
+      const hops: RouteHop[] = [];
+      let amount = amountOut;
+      try {
+        // Walk the path backwards, each hop must output what the next one needs
+        for (let i = edges.length - 1; i >= 0; i--) {
+          const [reserveIn, reserveOut] = this.getReserves(edges[i]);
+          if (amount.gte(reserveOut)) {
+            throw new Error("Insufficient liquidity");
+          }
+          const amountIn = SwapMath.getAmountIn(
+            BigNumber(edges[i].pool.fee_rate.toString()),
+            amount,
+            reserveIn,
+            reserveOut
+          );
+          hops.unshift(this.toHop(edges[i], amountIn, amount));
+          amount = amountIn;
+        }
+      } catch (error) {
+        // Path cannot provide this amount, try the next one
+        continue;
+      }
+
+      if (!best || amount.lt(best.amountIn)) {
+        best = this.toRoute(hops);
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Enumerate every simple path between two tokens
+   * @param pools Pools to route through
+   * @param typeIn Input token type
+   * @param typeOut Output token type
+   * @param maxHops Maximum number of pools a path may go through
+   * @returns Paths as lists of pool edges
+   */
+  private static findPaths(
+    pools: PoolInfo[],
+    typeIn: string,
+    typeOut: string,
+    maxHops: number
+  ): PoolEdge[][] {
+    const graph = this.buildGraph(pools);
+    const start = normalizeStructTag(typeIn);
+    const target = normalizeStructTag(typeOut);
+    if (start === target) {
+      throw new Error("Type in and type out cannot be the same");
+    }
+
+    const paths: PoolEdge[][] = [];
+    const visited = new Set<string>([start]);
+    const walk = (type: string, edges: PoolEdge[]) => {
+      if (edges.length >= maxHops) {
+        return;
+      }
+      for (const edge of graph.get(type) || []) {
+        if (visited.has(edge.typeOut)) {
+          continue;
+        }
+        if (edge.typeOut === target) {
+          paths.push([...edges, edge]);
+          continue;
+        }
+        visited.add(edge.typeOut);
+        walk(edge.typeOut, [...edges, edge]);
+        visited.delete(edge.typeOut);
+      }
+    };
+    walk(start, []);
+    return paths;
+  }
+
+  /**
+   * Get pool reserves ordered by swap direction
+   * @param edge Pool edge
+   * @returns Tuple of [reserveIn, reserveOut]
+   */
+  private static getReserves(edge: PoolEdge): [BigNumber, BigNumber] {
+    const isXToY = edge.typeIn === normalizeStructTag(edge.pool.typeX);
+    const reserveIn = isXToY ? edge.pool.bal_x : edge.pool.bal_y;
+    const reserveOut = isXToY ? edge.pool.bal_y : edge.pool.bal_x;
+    return [BigNumber(reserveIn.toString()), BigNumber(reserveOut.toString())];
+  }
+
+  private static toHop(
+    edge: PoolEdge,
+    amountIn: BigNumber,
+    amountOut: BigNumber
+  ): RouteHop {
+    return {
+      poolId: edge.pool.poolAddress,
+      typeX: edge.pool.typeX,
+      typeY: edge.pool.typeY,
+      typeIn: edge.typeIn,
+      typeOut: edge.typeOut,
+      amountIn,
+      amountOut,
+    };
+  }
+
+  private static toRoute(hops: RouteHop[]): SwapRoute {
+    return {
+      path: [hops[0].typeIn, ...hops.map((hop) => hop.typeOut)],
+      hops,
+      amountIn: hops[0].amountIn,
+      amountOut: hops[hops.length - 1].amountOut,
+    };
+  }
+}
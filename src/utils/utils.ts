@@ -3,9 +3,21 @@
 
 import { SuiClient } from "@mysten/sui/client";
 import { BCS, getSuiMoveConfig } from "@benfen/bcs";
-import { RawData } from "@mysten/sui/client";
-import { Pool, Global } from "../types";
+import {
+  BalanceChange,
+  GasCostSummary,
+  ObjectOwner,
+  RawData,
+  SuiObjectChange,
+  SuiObjectResponse,
+} from "@mysten/sui/client";
+import BigNumber from "bignumber.js";
+import { Argument, Command, Transaction } from "@mysten/sui/transactions";
+import { Pool, Global, CoinBalanceChange, U64Amount } from "../types";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
 import { Buffer } from "buffer";
+import { MAX_U64, MULTI_GET_OBJECTS_LIMIT } from "../constants";
+import { InvalidParamsError } from "../errors";
 
 const EQUAL = 0;
 const LESS_THAN = 1;
@@ -15,90 +27,123 @@ const GREATER_THAN = 2;
  * Fetches and deserializes a Pool object from the Sui blockchain
  * @param client SuiClient instance
  * @param poolObjectId The object ID of the pool to fetch
- * @returns Deserialized Pool object or null if not found/error
+ * @returns Deserialized Pool object or null if not found
+ * @throws If the request fails or the object is not a Pool
  */
 export async function getPool(
   client: SuiClient,
   poolObjectId: string
 ): Promise<Pool | null> {
-  try {
-    const result = await client.getObject({
-      id: poolObjectId,
-      options: { showContent: true, showBcs: true, showType: true },
-    });
+  const result = await client.getObject({
+    id: poolObjectId,
+    options: { showContent: true, showBcs: true, showType: true },
+  });
 
-    const data = result.data?.bcs as RawData;
-    if (!data || data.dataType !== "moveObject") {
-      return null;
-    }
-
-    const bcsBytes = (data as { bcsBytes: string }).bcsBytes;
-    const bcs = new BCS(getSuiMoveConfig());
-
-    // Register Pool structure with BCS fields mapping
-    bcs.registerStructType("Pool", {
-      id: BCS.ADDRESS,
-      bal_x: BCS.U64,
-      bal_y: BCS.U64,
-      fee_bal_x: BCS.U64,
-      fee_bal_y: BCS.U64,
-      lp_supply: BCS.U64,
-      fee_rate: BCS.U64,
-      min_liquidity: BCS.U64,
-      min_add_liquidity_lp_amount: BCS.U64,
+  return decodePool(result);
+}
+
+/**
+ * Fetches and deserializes multiple Pool objects with batched requests
+ * @param client SuiClient instance
+ * @param poolObjectIds The object IDs of the pools to fetch
+ * @returns Deserialized Pool objects in request order, null for pools not found
+ *          and for objects that are not a Pool
+ * @throws If a request fails
+ */
+export async function getPools(
+  client: SuiClient,
+  poolObjectIds: string[]
+): Promise<(Pool | null)[]> {
+  const pools: (Pool | null)[] = [];
+  for (let i = 0; i < poolObjectIds.length; i += MULTI_GET_OBJECTS_LIMIT) {
+    const results = await client.multiGetObjects({
+      ids: poolObjectIds.slice(i, i + MULTI_GET_OBJECTS_LIMIT),
+      options: { showContent: true, showBcs: true, showType: true },
     });
+    // A malformed object only drops its own entry
+    pools.push(
+      ...results.map((result) => {
+        try {
+          return decodePool(result);
+        } catch {
+          return null;
+        }
+      })
+    );
+  }
+  return pools;
+}
 
-    // Deserialize BCS bytes to Pool object
-    const bytes = Uint8Array.from(Buffer.from(bcsBytes || "", "base64"));
-    let pool = bcs.de("Pool", bytes) as Pool;
-    pool.id = normalizeAddress(pool.id);
-    return pool;
-  } catch (error) {
-    console.error("Failed to get Pool data:", error);
+/**
+ * Deserializes a Pool object from an object response fetched with showBcs
+ * @param result Object response
+ * @returns Deserialized Pool object or null if not a Move object
+ */
+export function decodePool(result: SuiObjectResponse): Pool | null {
+  const data = result.data?.bcs as RawData;
+  if (!data || data.dataType !== "moveObject") {
     return null;
   }
+
+  const bcsBytes = (data as { bcsBytes: string }).bcsBytes;
+  const bcs = new BCS(getSuiMoveConfig());
+
+  // Register Pool structure with BCS fields mapping
+  bcs.registerStructType("Pool", {
+    id: BCS.ADDRESS,
+    bal_x: BCS.U64,
+    bal_y: BCS.U64,
+    fee_bal_x: BCS.U64,
+    fee_bal_y: BCS.U64,
+    lp_supply: BCS.U64,
+    fee_rate: BCS.U64,
+    min_liquidity: BCS.U64,
+    min_add_liquidity_lp_amount: BCS.U64,
+  });
+
+  // Deserialize BCS bytes to Pool object
+  const bytes = Uint8Array.from(Buffer.from(bcsBytes || "", "base64"));
+  const pool = bcs.de("Pool", bytes) as Pool;
+  pool.id = normalizeAddress(pool.id);
+  return pool;
 }
 
 /**
  * Fetches and deserializes a Global object from the Sui blockchain
  * @param client SuiClient instance
  * @param globalObjectId The object ID of the global config to fetch
- * @returns Deserialized Global object or null if not found/error
+ * @returns Deserialized Global object or null if not found
+ * @throws If the request fails
  */
 export async function getGlobal(
   client: SuiClient,
   globalObjectId: string
 ): Promise<Global | null> {
-  try {
-    const result = await client.getObject({
-      id: globalObjectId,
-      options: { showContent: true, showBcs: true, showType: true },
-    });
+  const result = await client.getObject({
+    id: globalObjectId,
+    options: { showContent: true, showBcs: true, showType: true },
+  });
 
-    const data = result.data?.bcs as RawData;
-    if (!data || data.dataType !== "moveObject") {
-      return null;
-    }
+  const data = result.data?.bcs as RawData;
+  if (!data || data.dataType !== "moveObject") {
+    return null;
+  }
 
-    const bcsBytes = (data as { bcsBytes: string }).bcsBytes;
-    const bcs = new BCS(getSuiMoveConfig());
+  const bcsBytes = (data as { bcsBytes: string }).bcsBytes;
+  const bcs = new BCS(getSuiMoveConfig());
 
-    // Register Global structure with BCS fields mapping
-    bcs.registerStructType("Global", {
-      id: BCS.ADDRESS,
-      has_paused: BCS.BOOL,
-      is_open_protocol_fee: BCS.BOOL,
-    });
+  // Register Global structure with BCS fields mapping
+  bcs.registerStructType("Global", {
+    id: BCS.ADDRESS,
+    has_paused: BCS.BOOL,
+    is_open_protocol_fee: BCS.BOOL,
+  });
 
-    // Deserialize BCS bytes to Global object
-    const bytes = Uint8Array.from(Buffer.from(bcsBytes || "", "base64"));
-    let global = bcs.de("Global", bytes) as Global;
-    global.id = normalizeAddress(global.id);
-    return global;
-  } catch (error) {
-    console.error("Failed to get Global data:", error);
-    return null;
-  }
+  // Deserialize BCS bytes to Global object
+  const bytes = Uint8Array.from(Buffer.from(bcsBytes || "", "base64"));
+  let global = bcs.de("Global", bytes) as Global;
+  global.id = normalizeAddress(global.id);
+  return global;
 }
 
 /**
@@ -121,15 +166,6 @@ export async function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms * 1000));
 }
 
-/**
- * Formats an error object into a string message
- * @param error Error object to format
- * @returns Formatted error message string
- */
-export function formatError(error: unknown): string {
-  return error instanceof Error ? error.message : String(error);
-}
-
 /**
  * Compare two serialized byte arrays
  * @param bytesX First byte array
@@ -194,7 +230,7 @@ export function isSortedTypes(typeX: string, typeY: string) {
  * This method generates a complete type identifier for LP tokens. It orders the coin types
  * based on their BCS serialized byte array comparison to ensure consistent LP type identifiers.
  *
- * @param packageId Contract ID
+ * @param packageId Original (type-origin) package ID of the contract, not the latest upgrade
  * @param typeX First coin type
  * @param typeY Second coin type
  * @returns Tuple containing [sortedTypeX, sortedTypeY, lpType] where lpType follows format:
@@ -259,3 +295,161 @@ export function getLpName(typeX: string, typeY: string): string {
   // Construct LP token name
   return `LP-${normalizedTypeX}-${normalizedTypeY}`;
 }
+
+/**
+ * Finds the ID of a newly created pool in a transaction's object changes
+ * @param objectChanges Object changes returned with the executed transaction
+ * @param packageId Original (type-origin) package ID of the contract, not the latest upgrade
+ * @returns Created pool ID or undefined if no pool was created
+ */
+export function getCreatedPoolId(
+  objectChanges: SuiObjectChange[] | null | undefined,
+  packageId: string
+): string | undefined {
+  const poolType = `${normalizeSuiAddress(packageId)}::manage::Pool<`;
+  const created = objectChanges?.find(
+    (change) =>
+      change.type === "created" && change.objectType.startsWith(poolType)
+  );
+  return created && created.type === "created" ? created.objectId : undefined;
+}
+
+/**
+ * Parses the sorted coin types back out of an LP token name
+ * This is the inverse of getLpName, the '0x' prefixes removed there are restored.
+ *
+ * @param lpName LP token name in format `LP-${coinType1}-${coinType2}`
+ * @returns Tuple of sorted coin types [typeX, typeY]
+ * @throws {InvalidParamsError} If the name is not an LP token name
+ *
+ * @example
+ * parseLpName("LP-456::coin::USDC-789::coin::WSOL")
+ * // Returns: ["0x456::coin::USDC", "0x789::coin::WSOL"]
+ */
+export function parseLpName(lpName: string): [string, string] {
+  const match = /^LP-([^-]+)-([^-]+)$/.exec(lpName);
+  if (!match) {
+    throw new InvalidParamsError(`Invalid LP name: ${lpName}`);
+  }
+  return [`0x${match[1]}`, `0x${match[2]}`];
+}
+
+/**
+ * Gets a printable owner from an object owner
+ * @param owner Object owner returned by the RPC
+ * @returns Owner address, parent object ID, or the owner kind for shared and immutable objects
+ */
+export function getOwnerAddress(owner: ObjectOwner): string {
+  if (typeof owner === "string") {
+    return owner;
+  }
+  if ("AddressOwner" in owner) {
+    return owner.AddressOwner;
+  }
+  if ("ObjectOwner" in owner) {
+    return owner.ObjectOwner;
+  }
+  if ("ConsensusV2" in owner) {
+    return owner.ConsensusV2.authenticator.SingleOwner;
+  }
+  return "Shared";
+}
+
+/**
+ * Converts RPC balance changes into SDK balance changes
+ * @param balanceChanges Balance changes returned with the transaction
+ * @returns Balance changes with printable owners and BigNumber amounts
+ */
+export function parseBalanceChanges(
+  balanceChanges?: BalanceChange[] | null
+): CoinBalanceChange[] {
+  return (balanceChanges || []).map((change) => ({
+    owner: getOwnerAddress(change.owner),
+    coinType: change.coinType,
+    amount: BigNumber(change.amount),
+  }));
+}
+
+/**
+ * Calculates the net gas cost of a transaction
+ * @param gasUsed Gas cost summary from the transaction effects
+ * @returns Net gas cost in MIST (computation + storage - rebate)
+ */
+export function getGasCost(gasUsed: GasCostSummary): BigNumber {
+  return BigNumber(gasUsed.computationCost)
+    .plus(gasUsed.storageCost)
+    .minus(gasUsed.storageRebate);
+}
+
+/**
+ * Checks whether any command of a transaction uses the gas coin as an argument
+ * @param tx Built transaction
+ * @returns true if the gas coin is used outside of gas payment
+ */
+export function usesGasCoin(tx: Transaction): boolean {
+  return tx
+    .getData()
+    .commands.some((command) =>
+      getCommandArguments(command).some(
+        (argument) => argument.$kind === "GasCoin"
+      )
+    );
+}
+
+/**
+ * Collects the arguments a transaction command takes
+ * @param command Transaction command
+ * @returns Arguments of the command
+ */
+function getCommandArguments(command: Command): Argument[] {
+  switch (command.$kind) {
+    case "MoveCall":
+      return command.MoveCall.arguments;
+    case "TransferObjects":
+      return [
+        ...command.TransferObjects.objects,
+        command.TransferObjects.address,
+      ];
+    case "SplitCoins":
+      return [command.SplitCoins.coin, ...command.SplitCoins.amounts];
+    case "MergeCoins":
+      return [command.MergeCoins.destination, ...command.MergeCoins.sources];
+    case "MakeMoveVec":
+      return command.MakeMoveVec.elements;
+    case "Upgrade":
+      return [command.Upgrade.ticket];
+    case "$Intent":
+      return Object.values(command.$Intent.inputs).flat();
+    default:
+      return [];
+  }
+}
+
+/**
+ * Parses an amount and checks that it is an integer within the Move u64 range
+ * @param value Amount as BigNumber, bigint or decimal string
+ * @param name Parameter name used in the error message
+ * @returns Amount as BigNumber, exact for the whole u64 range
+ */
+export function parseU64(value: U64Amount, name = "amount"): BigNumber {
+  const amount = BigNumber.isBigNumber(value)
+    ? value
+    : BigNumber(value.toString());
+  if (!amount.isInteger() || amount.lt(0) || amount.gt(MAX_U64.toString())) {
+    throw new InvalidParamsError(
+      `${name} must be an integer between 0 and ${MAX_U64}, got ${value}`
+    );
+  }
+  return amount;
+}
+
+/**
+ * Converts an amount to the bigint passed to a Move u64 argument
+ * Never goes through a JavaScript number, so no precision is lost above 2^53.
+ * @param value Amount as BigNumber, bigint or decimal string
+ * @param name Parameter name used in the error message
+ * @returns Amount as bigint
+ */
+export function toU64(value: U64Amount, name = "amount"): bigint {
+  return BigInt(parseU64(value, name).toFixed());
+}
@@ -0,0 +1,218 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { COIN_TYPE_SUI } from "../src/constants";
+import { DipCoinErrorCode, DipCoinSDK, PackageUpgradeStatus } from "../src";
+import { CliIO, runCli } from "../src/cli";
+import { MockSuiClient } from "../src/testing";
+import { orderType } from "../src/utils";
+
+const [X, Y] = orderType(
+  normalizeStructTag("0xa::a::A"),
+  normalizeStructTag("0xb::b::B")
+);
+
+describe("runCli", () => {
+  let client: MockSuiClient;
+  let output: string[];
+  let errors: string[];
+
+  const io: CliIO = {
+    print: (line) => output.push(line),
+    error: (line) => errors.push(line),
+    confirm: async () => true,
+  };
+
+  const run = (...argv: string[]) => runCli(argv, io, client.sdkOptions);
+
+  const mockUpgradeStatus = (status: Partial<PackageUpgradeStatus>) =>
+    jest.spyOn(DipCoinSDK.prototype, "checkPackageUpgrade").mockResolvedValue({
+      status: true,
+      data: {
+        packageId: client.packageId,
+        packageVersion: 1,
+        originalPackageId: client.packageId,
+        upgradeCapId: normalizeSuiAddress("0xcap"),
+        latestPackageId: client.packageId,
+        latestPackageVersion: 1,
+        isStale: false,
+        isOriginalMismatch: false,
+        ...status,
+      },
+    });
+
+  beforeEach(() => {
+    client = new MockSuiClient();
+    output = [];
+    errors = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("package upgrades", () => {
+    it("warns when the configured package was upgraded", async () => {
+      const latestPackageId = normalizeSuiAddress("0x1234");
+      mockUpgradeStatus({
+        isStale: true,
+        latestPackageId,
+        latestPackageVersion: 2,
+      });
+
+      expect(await run("pools")).toBe(0);
+      expect(errors).toEqual([
+        `Warning: package ${client.packageId} was upgraded, set packageId to ${latestPackageId} (version 2)`,
+      ]);
+      expect(output).toEqual(["No pools found"]);
+    });
+
+    it("warns when originalPackageId does not match the Global config", async () => {
+      const originalPackageId = normalizeSuiAddress("0x5678");
+      mockUpgradeStatus({ isOriginalMismatch: true, originalPackageId });
+
+      expect(await run("pools")).toBe(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain(`set it to ${originalPackageId}`);
+    });
+
+    it("does not warn for the latest package", async () => {
+      mockUpgradeStatus({});
+
+      expect(await run("pools")).toBe(0);
+      expect(errors).toEqual([]);
+    });
+
+    it("runs the command when the upgrade check fails", async () => {
+      // The mock client serves no UpgradeCap
+      expect(await run("pools")).toBe(0);
+      expect(errors).toEqual([]);
+      expect(output).toEqual(["No pools found"]);
+    });
+  });
+
+  describe("commands", () => {
+    let keypair: Ed25519Keypair;
+    let address: string;
+    let pooId: string;
+    const privateKey = process.env.DIPCOIN_PRIVATE_KEY;
+
+    const balance = async (coinType: string) =>
+      BigInt(
+        (await client.getBalance({ owner: address, coinType })).totalBalance
+      );
+
+    beforeEach(async () => {
+      keypair = new Ed25519Keypair();
+      address = keypair.getPublicKey().toSuiAddress();
+      process.env.DIPCOIN_PRIVATE_KEY = keypair.getSecretKey();
+      client.setCoinMetadata(X, { decimals: 6 });
+      client.setCoinMetadata(Y, { decimals: 6 });
+      client.mint(address, COIN_TYPE_SUI, "100000000000");
+      client.mint(address, X, "100000000000");
+      client.mint(address, Y, "100000000000");
+      const sdk = new DipCoinSDK(client.sdkOptions);
+      await sdk.createPool(keypair, {
+        typeX: X,
+        typeY: Y,
+        amountX: "10000000000",
+        amountY: "20000000000",
+        feeRate: 30,
+      });
+      pooId = await sdk.getPoolId(X, Y);
+    });
+
+    afterEach(() => {
+      if (privateKey === undefined) {
+        delete process.env.DIPCOIN_PRIVATE_KEY;
+      } else {
+        process.env.DIPCOIN_PRIVATE_KEY = privateKey;
+      }
+    });
+
+    it("reads the chain through the injected client", async () => {
+      const getObject = jest.spyOn(client, "getObject");
+
+      expect(await run("pool", pooId)).toBe(0);
+      expect(getObject).toHaveBeenCalledWith(
+        expect.objectContaining({ id: pooId })
+      );
+      expect(output).toEqual(
+        expect.arrayContaining([
+          `Token X         ${X}`,
+          "Reserve X       10000",
+          "Reserve Y       20000",
+        ])
+      );
+    });
+
+    it("lists the registered pools", async () => {
+      expect(await run("pools")).toBe(0);
+      expect(output).toEqual([
+        `${pooId}  A/B  reserves 10000 / 20000  fee 0.3%`,
+      ]);
+    });
+
+    it("quotes a swap without signing", async () => {
+      const before = await balance(X);
+
+      expect(await run("quote", "--in", X, "--out", Y, "--amount", "1")).toBe(
+        0
+      );
+      expect(output).toContain("Amount in     1");
+      expect(await balance(X)).toBe(before);
+    });
+
+    it("signs and executes a swap with --yes", async () => {
+      const before = await balance(X);
+
+      expect(
+        await run("swap", "--in", X, "--out", Y, "--amount", "1", "--yes")
+      ).toBe(0);
+      expect(output).toContainEqual(expect.stringMatching(/^Status +success$/));
+      expect(await balance(X)).toBe(before - 1000000n);
+    });
+
+    it("only simulates a swap with --dry-run", async () => {
+      const before = await balance(X);
+
+      expect(
+        await run("swap", "--in", X, "--out", Y, "--amount", "1", "--dry-run")
+      ).toBe(0);
+      expect(output).toContainEqual(expect.stringMatching(/^Status +success$/));
+      expect(await balance(X)).toBe(before);
+    });
+
+    it("does not sign a transaction that is not confirmed", async () => {
+      const before = await balance(X);
+      const declining: CliIO = { ...io, confirm: async () => false };
+
+      expect(
+        await runCli(
+          ["swap", "--in", X, "--out", Y, "--amount", "1"],
+          declining,
+          client.sdkOptions
+        )
+      ).toBe(1);
+      expect(errors).toEqual(["Aborted"]);
+      expect(await balance(X)).toBe(before);
+    });
+
+    it("prints JSON errors with their code", async () => {
+      expect(await run("pool", "--json")).toBe(1);
+      expect(JSON.parse(output.join("\n"))).toMatchObject({
+        status: false,
+        errorCode: DipCoinErrorCode.InvalidParams,
+      });
+    });
+
+    it("rejects unknown commands", async () => {
+      expect(await run("mint")).toBe(1);
+      expect(errors).toEqual([
+        "Error: Unknown command mint, run dipcoin --help",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { InvalidParamsError } from "../src/errors";
+import { fromBaseUnits, toBaseUnits } from "../src/utils";
+
+describe("toBaseUnits", () => {
+  it("shifts whole coins by the decimals", () => {
+    expect(toBaseUnits("1.5", 6)).toEqual(BigNumber(1500000));
+    expect(toBaseUnits(2, 9)).toEqual(BigNumber(2000000000));
+    expect(toBaseUnits(BigNumber("0.000001"), 6)).toEqual(BigNumber(1));
+  });
+
+  it("rejects more decimals than the coin has", () => {
+    expect(() => toBaseUnits("1.0000001", 6, "amountIn")).toThrow(
+      "amountIn has more than 6 decimals, got 1.0000001"
+    );
+  });
+
+  it("rejects negative and non-numeric amounts", () => {
+    expect(() => toBaseUnits("-1", 6)).toThrow(InvalidParamsError);
+    expect(() => toBaseUnits("abc", 6)).toThrow(InvalidParamsError);
+  });
+
+  it("rejects amounts above u64", () => {
+    expect(() => toBaseUnits("18446744073709.551616", 6)).toThrow(
+      InvalidParamsError
+    );
+  });
+});
+
+describe("fromBaseUnits", () => {
+  it("drops trailing zeros", () => {
+    expect(fromBaseUnits(BigInt(1500000), 6)).toBe("1.5");
+    expect(fromBaseUnits("1", 9)).toBe("0.000000001");
+    expect(fromBaseUnits(BigNumber(0), 6)).toBe("0");
+  });
+
+  it("round-trips toBaseUnits", () => {
+    expect(fromBaseUnits(toBaseUnits("123.456789", 6), 6)).toBe("123.456789");
+  });
+});
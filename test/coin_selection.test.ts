@@ -0,0 +1,56 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { CoinStruct } from "@mysten/sui/client";
+import BigNumber from "bignumber.js";
+import { selectCoins } from "../src/utils";
+
+function coin(id: string, balance: number): CoinStruct {
+  return {
+    coinObjectId: id,
+    coinType: "0x2::sui::SUI",
+    balance: String(balance),
+    digest: "",
+    previousTransaction: "",
+    version: "1",
+  };
+}
+
+const ids = (coins: CoinStruct[] | null) =>
+  coins && coins.map((selected) => selected.coinObjectId);
+
+describe("selectCoins", () => {
+  const coins = [coin("a", 5), coin("b", 50), coin("c", 20), coin("d", 1)];
+
+  it("largest-first uses the biggest coins", () => {
+    expect(ids(selectCoins(coins, BigNumber(60), "largest-first", 10))).toEqual(
+      ["b", "c"]
+    );
+  });
+
+  it("smallest-first uses the dust first", () => {
+    expect(ids(selectCoins(coins, BigNumber(6), "smallest-first", 10))).toEqual(
+      ["d", "a"]
+    );
+  });
+
+  it("smallest-first falls back to largest-first above maxInputs", () => {
+    expect(ids(selectCoins(coins, BigNumber(60), "smallest-first", 2))).toEqual(
+      ["b", "c"]
+    );
+  });
+
+  it("fewest-inputs uses the smallest single coin covering the amount", () => {
+    expect(ids(selectCoins(coins, BigNumber(10), "fewest-inputs", 10))).toEqual(
+      ["c"]
+    );
+    expect(ids(selectCoins(coins, BigNumber(70), "fewest-inputs", 10))).toEqual(
+      ["b", "c"]
+    );
+  });
+
+  it("returns null if the amount cannot be covered", () => {
+    expect(selectCoins(coins, BigNumber(77), "largest-first", 10)).toBeNull();
+    expect(selectCoins(coins, BigNumber(60), "largest-first", 1)).toBeNull();
+  });
+});
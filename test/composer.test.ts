@@ -0,0 +1,86 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { COIN_TYPE_SUI } from "../src/constants";
+import { DipCoinErrorCode, DipCoinSDK } from "../src";
+import { MockSuiClient } from "../src/testing";
+
+const A = normalizeStructTag("0xa::a::A");
+
+describe("DipCoinTxComposer", () => {
+  let client: MockSuiClient;
+  let sdk: DipCoinSDK;
+  let keypair: Ed25519Keypair;
+  let address: string;
+  const recipient = new Ed25519Keypair().getPublicKey().toSuiAddress();
+
+  const balance = async (owner: string) =>
+    BigInt((await client.getBalance({ owner, coinType: A })).totalBalance);
+
+  beforeEach(() => {
+    client = new MockSuiClient();
+    sdk = new DipCoinSDK(client.sdkOptions);
+    keypair = new Ed25519Keypair();
+    address = keypair.getPublicKey().toSuiAddress();
+    client.mint(address, COIN_TYPE_SUI, "100000000000");
+    for (let i = 0; i < 3; i++) {
+      client.mint(address, A, "10000000000");
+    }
+  });
+
+  it("splits several amounts of one type from one merged coin", async () => {
+    const tx = new Transaction();
+    const composer = sdk.compose(tx, address);
+    const coins = [
+      await composer.coin(A, "8000000000"),
+      await composer.coin(A, "8000000000"),
+    ];
+    composer.transfer(coins, recipient);
+
+    const result = await sdk.executeTransaction(keypair, tx);
+    expect(result.status).toBe(true);
+    expect(await balance(recipient)).toBe(BigInt(16000000000));
+  });
+
+  it("does not take coins the SDK already split on the transaction", async () => {
+    const tx = new Transaction();
+    const split = await sdk.splitCoin(address, A, "8000000000", tx);
+    const composer = sdk.compose(tx, address);
+    composer.transfer([split, await composer.coin(A, "8000000000")], recipient);
+
+    const result = await sdk.executeTransaction(keypair, tx);
+    expect(result.status).toBe(true);
+    expect(await balance(recipient)).toBe(BigInt(16000000000));
+  });
+
+  it("keeps the SDK from splitting coins the composer took", async () => {
+    const tx = new Transaction();
+    const composer = sdk.compose(tx, address);
+    const coin = await composer.coin(A, "8000000000");
+    const split = await sdk.splitCoin(address, A, "8000000000", tx);
+    composer.transfer([coin, split], recipient);
+
+    const result = await sdk.executeTransaction(keypair, tx);
+    expect(result.status).toBe(true);
+    expect(await balance(recipient)).toBe(BigInt(16000000000));
+
+    // The composer takes every remaining coin
+    const next = new Transaction();
+    await sdk.compose(next, address).coin(A, "14000000000");
+    await expect(sdk.splitCoin(address, A, "1", next)).rejects.toMatchObject({
+      code: DipCoinErrorCode.InsufficientBalance,
+    });
+  });
+
+  it("rejects amounts above the balance left for the transaction", async () => {
+    const tx = new Transaction();
+    const composer = sdk.compose(tx, address);
+    await composer.coin(A, "20000000000");
+    await expect(composer.coin(A, "20000000000")).rejects.toMatchObject({
+      code: DipCoinErrorCode.InsufficientBalance,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { SuiMoveNormalizedFunction } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { COIN_TYPE_SUI } from "../src/constants";
+import { CreatePoolParams, DipCoinErrorCode, DipCoinSDK } from "../src";
+import { MockSuiClient } from "../src/testing";
+
+const A = normalizeStructTag("0xa::a::A");
+const B = normalizeStructTag("0xb::b::B");
+const C = normalizeStructTag("0xc::c::C");
+
+describe("createPool", () => {
+  let client: MockSuiClient;
+  let sdk: DipCoinSDK;
+  let address: string;
+
+  const params = (typeY: string): CreatePoolParams => ({
+    typeX: A,
+    typeY,
+    amountX: "10000000000",
+    amountY: "20000000000",
+    feeRate: 30,
+  });
+
+  // Serves the mock's create_pool ABI with the given changes
+  const mockCreatePool = (changes: Partial<SuiMoveNormalizedFunction>) => {
+    const getNormalizedMoveFunction =
+      client.getNormalizedMoveFunction.bind(client);
+    return jest
+      .spyOn(client, "getNormalizedMoveFunction")
+      .mockImplementation(async (input) => ({
+        ...(await getNormalizedMoveFunction(input)),
+        ...changes,
+      }));
+  };
+
+  beforeEach(() => {
+    client = new MockSuiClient();
+    sdk = new DipCoinSDK(client.sdkOptions);
+    address = new Ed25519Keypair().getPublicKey().toSuiAddress();
+    client.mint(address, COIN_TYPE_SUI, "100000000000");
+    client.mint(address, A, "100000000000");
+    client.mint(address, B, "100000000000");
+    client.mint(address, C, "100000000000");
+  });
+
+  it("reads the create_pool ABI once per package", async () => {
+    const spy = mockCreatePool({});
+
+    await sdk.buildCreatePoolTx(address, params(B));
+    await sdk.buildCreatePoolTx(address, params(C));
+
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("accepts a public create_pool that is not an entry function", async () => {
+    mockCreatePool({ isEntry: false, visibility: "Public" });
+
+    await expect(
+      sdk.buildCreatePoolTx(address, params(B))
+    ).resolves.toBeDefined();
+  });
+
+  it("rejects a create_pool that cannot be called from a transaction", async () => {
+    mockCreatePool({ isEntry: false, visibility: "Friend" });
+
+    await expect(
+      sdk.buildCreatePoolTx(address, params(B))
+    ).rejects.toMatchObject({ code: DipCoinErrorCode.InvalidParams });
+  });
+
+  it("rejects a create_pool that returns values the transaction would drop", async () => {
+    mockCreatePool({ isEntry: false, return: ["U64"] });
+
+    await expect(
+      sdk.buildCreatePoolTx(address, params(B))
+    ).rejects.toMatchObject({ code: DipCoinErrorCode.InvalidParams });
+  });
+
+  it("retries the check after a failed ABI request", async () => {
+    const spy = jest
+      .spyOn(client, "getNormalizedMoveFunction")
+      .mockRejectedValueOnce(new Error("Network error"));
+
+    await expect(
+      sdk.buildCreatePoolTx(address, params(B))
+    ).rejects.toMatchObject({ code: DipCoinErrorCode.InvalidParams });
+    await expect(
+      sdk.buildCreatePoolTx(address, params(B))
+    ).resolves.toBeDefined();
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+});
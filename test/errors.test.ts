@@ -0,0 +1,124 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+import { COIN_TYPE_SUI } from "../src/constants";
+import {
+  DipCoinErrorCode,
+  DipCoinSDK,
+  DipCoinSigner,
+  InsufficientBalanceError,
+  InvalidParamsError,
+  toDipCoinError,
+} from "../src";
+import { MockSuiClient } from "../src/testing";
+import { orderType } from "../src/utils";
+
+function moveAbort(address: string, module: string, code: number): string {
+  return `MoveAbort(MoveLocation { module: ModuleId { address: ${address}, name: Identifier("${module}") }, function: 1, instruction: 5, function_name: Some("split") }, ${code}) in command 0`;
+}
+
+describe("toDipCoinError", () => {
+  it("maps Sui framework aborts to their codes", () => {
+    const error = toDipCoinError(new Error(moveAbort("0x2", "balance", 2)));
+    expect(error).toBeInstanceOf(InsufficientBalanceError);
+    expect(error.abort).toMatchObject({ module: "balance", code: 2 });
+  });
+
+  it("reports DEX aborts as MOVE_ABORT", () => {
+    const error = toDipCoinError(moveAbort("0x5", "router", 2));
+    expect(error.code).toBe(DipCoinErrorCode.MoveAbort);
+    expect(error.abort).toMatchObject({ module: "router", command: 0 });
+  });
+
+  it("keeps DipCoin errors and wraps anything else", () => {
+    const error = new InvalidParamsError("bad");
+    expect(toDipCoinError(error)).toBe(error);
+    expect(toDipCoinError("boom").code).toBe(DipCoinErrorCode.Unknown);
+  });
+});
+
+describe("pre-flight checks", () => {
+  const A = normalizeStructTag("0xa::a::A");
+  const B = normalizeStructTag("0xb::b::B");
+  const C = normalizeStructTag("0xc::c::C");
+
+  let client: MockSuiClient;
+  let sdk: DipCoinSDK;
+  let keypair: Ed25519Keypair;
+  let address: string;
+
+  beforeEach(async () => {
+    client = new MockSuiClient();
+    sdk = new DipCoinSDK(client.sdkOptions);
+    keypair = new Ed25519Keypair();
+    address = keypair.getPublicKey().toSuiAddress();
+    client.mint(address, COIN_TYPE_SUI, "100000000000");
+    for (const type of [A, B, C]) {
+      client.mint(address, type, "100000000000");
+    }
+    for (const [typeX, typeY] of [
+      [A, B],
+      [B, C],
+    ]) {
+      await sdk.createPool(keypair, {
+        typeX,
+        typeY,
+        amountX: "10000000000",
+        amountY: "10000000000",
+        feeRate: 30,
+      });
+    }
+  });
+
+  it("reports a paused protocol without signing", async () => {
+    client.engine.setPaused(true);
+    const pooId = await sdk.getPoolId(A, B);
+    const result = await sdk.addLiquidity(keypair, {
+      pooId,
+      typeX: A,
+      typeY: B,
+      amountX: "1000000",
+      amountY: "1000000",
+    });
+    expect(result.errorCode).toBe(DipCoinErrorCode.ProtocolPaused);
+    expect(result.txId).toBe("");
+  });
+
+  it("reports slippage when the pool moves between route hops", async () => {
+    const poolBC = await sdk.getPoolId(B, C);
+    const [typeX] = orderType(B, C);
+    const signer: DipCoinSigner = {
+      getAddress: async () => address,
+      signTransaction: (bytes) => keypair.signTransaction(bytes),
+      executeTransaction: async (tx) => {
+        const { digest } = await client.signAndExecuteTransaction({
+          transaction: tx,
+          signer: keypair,
+        });
+        // Another trader sells B into the second pool after the first hop
+        client.engine.swapExactIn(
+          poolBC,
+          typeX === B,
+          BigNumber(5000000000),
+          BigNumber(0),
+          "swap_exact_x_to_y"
+        );
+        return { digest };
+      },
+    };
+
+    const result = await sdk.multiHopSwapExactInSequential(signer, {
+      typeIn: A,
+      typeOut: C,
+      amountIn: "1000000000",
+      slippage: 0.01,
+    });
+    expect(result.status).toBe(false);
+    expect(result.steps.map((step) => step.status)).toEqual([true, false]);
+    expect(result.errorCode).toBe(DipCoinErrorCode.SlippageExceeded);
+    expect(result.partial).toBe(true);
+  });
+});
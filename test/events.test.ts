@@ -0,0 +1,122 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { SuiEvent } from "@mysten/sui/client";
+import BigNumber from "bignumber.js";
+import { parseDipCoinEvent, parseDipCoinEvents } from "../src/events";
+
+const PACKAGE_ID = "0x5";
+const POOL_ID = "0x9";
+
+function event(type: string, parsedJson: unknown): SuiEvent {
+  return {
+    id: { txDigest: "digest", eventSeq: "0" },
+    packageId: PACKAGE_ID,
+    transactionModule: "router",
+    sender: "0x1",
+    type,
+    parsedJson,
+    bcs: "",
+    bcsEncoding: "base64",
+    timestampMs: "1700000000000",
+  };
+}
+
+const swap = event("0x5::manage::SwapEvent", {
+  pool_id: POOL_ID,
+  bal_x: "1000",
+  bal_y: "2000",
+  coin_x_in: "10",
+  coin_y_in: "0",
+  coin_x_out: "0",
+  coin_y_out: "19",
+});
+
+describe("parseDipCoinEvent", () => {
+  it("decodes swap events", () => {
+    expect(parseDipCoinEvent(swap, PACKAGE_ID)).toEqual({
+      poolId:
+        "0x0000000000000000000000000000000000000000000000000000000000000009",
+      sender: "0x1",
+      txId: "digest",
+      eventSeq: "0",
+      timestampMs: 1700000000000,
+      reserveX: BigNumber(1000),
+      reserveY: BigNumber(2000),
+      type: "swap",
+      amountXIn: BigNumber(10),
+      amountYIn: BigNumber(0),
+      amountXOut: BigNumber(0),
+      amountYOut: BigNumber(19),
+    });
+  });
+
+  it("decodes liquidity events", () => {
+    const fields = {
+      pool_id: POOL_ID,
+      bal_x: "1000",
+      bal_y: "2000",
+      coin_x_amount: "100",
+      coin_y_amount: "200",
+      lp_amount: "141",
+    };
+    expect(
+      parseDipCoinEvent(
+        event("0x5::manage::AddLiquidityEvent", fields),
+        PACKAGE_ID
+      )
+    ).toMatchObject({
+      type: "addLiquidity",
+      amountX: BigNumber(100),
+      amountY: BigNumber(200),
+      lpAmount: BigNumber(141),
+    });
+    expect(
+      parseDipCoinEvent(
+        event("0x5::manage::RemoveLiquidityEvent", fields),
+        PACKAGE_ID
+      )
+    ).toMatchObject({ type: "removeLiquidity" });
+  });
+
+  it("skips events of other packages", () => {
+    expect(
+      parseDipCoinEvent(
+        event("0x6::manage::SwapEvent", swap.parsedJson),
+        PACKAGE_ID
+      )
+    ).toBeNull();
+  });
+
+  it("skips unknown events and malformed fields", () => {
+    expect(
+      parseDipCoinEvent(
+        event("0x5::manage::OtherEvent", swap.parsedJson),
+        PACKAGE_ID
+      )
+    ).toBeNull();
+    expect(
+      parseDipCoinEvent(
+        event("0x5::manage::SwapEvent", { pool_id: POOL_ID, bal_x: "1" }),
+        PACKAGE_ID
+      )
+    ).toBeNull();
+    expect(
+      parseDipCoinEvent(
+        event("0x5::manage::SwapEvent", {
+          ...(swap.parsedJson as object),
+          coin_x_in: 10,
+        }),
+        PACKAGE_ID
+      )
+    ).toBeNull();
+  });
+
+  it("parseDipCoinEvents keeps the DipCoin events in order", () => {
+    const other = event("0x6::pool::SwapEvent", {});
+    expect(
+      parseDipCoinEvents({ events: [other, swap, swap] }, PACKAGE_ID)
+    ).toHaveLength(2);
+    expect(parseDipCoinEvents([], PACKAGE_ID)).toEqual([]);
+  });
+});
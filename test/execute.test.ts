@@ -0,0 +1,185 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { COIN_TYPE_SUI } from "../src/constants";
+import {
+  DipCoinErrorCode,
+  DipCoinSDK,
+  DipCoinSigner,
+  TransferParams,
+} from "../src";
+import { MockSuiClient } from "../src/testing";
+import { orderType } from "../src/utils";
+
+const recipient = normalizeSuiAddress("0x5");
+const [X, Y] = orderType(
+  normalizeStructTag("0xa::a::A"),
+  normalizeStructTag("0xb::b::B")
+);
+
+describe("executeTransaction", () => {
+  let client: MockSuiClient;
+  let sdk: DipCoinSDK;
+  let keypair: Ed25519Keypair;
+  let address: string;
+  let pooId: string;
+
+  const balance = async (owner: string, coinType: string) =>
+    BigInt((await client.getBalance({ owner, coinType })).totalBalance);
+
+  const swap = (signer: Ed25519Keypair | DipCoinSigner, options = {}) =>
+    sdk.swapExactXToY(
+      signer,
+      { pooId, typeX: X, typeY: Y, amountIn: "1000000", slippage: 0.01 },
+      options
+    );
+
+  beforeEach(async () => {
+    client = new MockSuiClient();
+    sdk = new DipCoinSDK(client.sdkOptions);
+    keypair = new Ed25519Keypair();
+    address = keypair.getPublicKey().toSuiAddress();
+    client.mint(address, COIN_TYPE_SUI, "100000000000");
+    client.mint(address, X, "100000000000");
+    client.mint(address, Y, "100000000000");
+    await sdk.createPool(keypair, {
+      typeX: X,
+      typeY: Y,
+      amountX: "10000000000",
+      amountY: "20000000000",
+      feeRate: 30,
+    });
+    pooId = await sdk.getPoolId(X, Y);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("finality", () => {
+    it("reports the checkpoint of a finalized transaction", async () => {
+      const txResponse = await swap(keypair, { waitForFinality: true });
+
+      expect(txResponse.status).toBe(true);
+      expect(txResponse.finalized).toBe(true);
+      expect(txResponse.finalityError).toBeUndefined();
+      expect(txResponse.checkpoint).toBeDefined();
+    });
+
+    it("leaves finalized unset without waitForFinality", async () => {
+      const txResponse = await swap(keypair);
+
+      expect(txResponse.status).toBe(true);
+      expect(txResponse.finalized).toBeUndefined();
+    });
+
+    it("reports a failed checkpoint wait instead of swallowing it", async () => {
+      jest
+        .spyOn(client, "waitForTransaction")
+        .mockRejectedValue(new Error("Timed out"));
+
+      const txResponse = await swap(keypair, { waitForFinality: true });
+
+      // The effects are known, so the transaction itself succeeded
+      expect(txResponse.status).toBe(true);
+      expect(txResponse.txId).not.toBe("");
+      expect(txResponse.finalized).toBe(false);
+      expect(txResponse.finalityError).toContain(txResponse.txId);
+      expect(txResponse.finalityError).toContain("Timed out");
+    });
+
+    it("reports a transaction submitted by the signer as pending when its effects cannot be fetched", async () => {
+      const signer: DipCoinSigner = {
+        getAddress: async () => address,
+        signTransaction: (bytes) => keypair.signTransaction(bytes),
+        executeTransaction: async (tx) =>
+          client.signAndExecuteTransaction({
+            transaction: tx,
+            signer: keypair,
+          }),
+      };
+      jest
+        .spyOn(client, "waitForTransaction")
+        .mockRejectedValue(new Error("Timed out"));
+
+      const txResponse = await swap(signer, { waitForFinality: true });
+
+      expect(txResponse.status).toBe(false);
+      expect(txResponse.pending).toBe(true);
+      expect(txResponse.txId).not.toBe("");
+      expect(txResponse.error).toContain("Timed out");
+    });
+  });
+
+  describe("sponsored transactions", () => {
+    let sponsor: Ed25519Keypair;
+    let sponsorAddress: string;
+
+    beforeEach(() => {
+      sponsor = new Ed25519Keypair();
+      sponsorAddress = sponsor.getPublicKey().toSuiAddress();
+      client.mint(sponsorAddress, COIN_TYPE_SUI, "10000000000");
+    });
+
+    it("pays the gas from the sponsor's coins", async () => {
+      const senderSui = await balance(address, COIN_TYPE_SUI);
+      const sponsorSui = await balance(sponsorAddress, COIN_TYPE_SUI);
+
+      const txResponse = await sdk.transfer(
+        keypair,
+        { to: recipient, coinType: COIN_TYPE_SUI, amount: "1000000" },
+        { sponsor }
+      );
+
+      expect(txResponse.status).toBe(true);
+      expect(await balance(address, COIN_TYPE_SUI)).toBe(senderSui - 1000000n);
+      expect(await balance(recipient, COIN_TYPE_SUI)).toBe(1000000n);
+      expect(await balance(sponsorAddress, COIN_TYPE_SUI)).toBe(
+        sponsorSui - BigInt(txResponse.gasUsed!.toFixed())
+      );
+    });
+
+    it("refuses to spend the sponsor's gas coin on transaction inputs", async () => {
+      const tx = await sdk.buildTransferTx(address, {
+        to: recipient,
+        coinType: COIN_TYPE_SUI,
+        amount: "1000000",
+      });
+
+      await expect(
+        sdk.executeTransaction(keypair, tx, { sponsor })
+      ).rejects.toMatchObject({ code: DipCoinErrorCode.InvalidParams });
+      expect(await balance(recipient, COIN_TYPE_SUI)).toBe(0n);
+    });
+  });
+
+  describe("transfer", () => {
+    it.each([0n, "0"])(
+      "rejects a zero amount %p as invalid",
+      async (amount) => {
+        const txResponse = await sdk.transfer(keypair, {
+          to: recipient,
+          coinType: X,
+          amount,
+        });
+
+        expect(txResponse.status).toBe(false);
+        expect(txResponse.errorCode).toBe(DipCoinErrorCode.InvalidParams);
+        expect(txResponse.error).toContain(
+          "Transfer amount must be greater than 0"
+        );
+      }
+    );
+
+    it("rejects a missing amount", async () => {
+      await expect(
+        sdk.buildTransferTx(address, {
+          to: recipient,
+          coinType: X,
+        } as TransferParams)
+      ).rejects.toThrow("Recipient address, coin type and amount are required");
+    });
+  });
+});
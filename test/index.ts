@@ -18,9 +18,6 @@ config({ path: "../.env" });
 const sdk = initDipCoinSDK({
   network: "testnet",
 });
-let DECIMALS = 10 ** 6;
-let DECIMALS_SUI = 10 ** 9;
-
 let keypair = fromExportedKeypair(process.env.PK1!);
 
 async function main() {
@@ -29,18 +26,19 @@ async function main() {
   // console.log(sdk.optionsField);
   // console.log(keypair.getPublicKey().toSuiAddress());
   //await removeLiquidity();
-  //await swapExactXToY(BigNumber(100000));
-  // await swapXToExactY(BigNumber(100 * DECIMALS));
+  //await swapExactXToY("0.0001");
+  // await swapXToExactY("100");
   // console.log(process.env.TYPE_USDC!);
   // console.log(
   //   await sdk.getPoolId(process.env.TYPE_WSOL!, process.env.TYPE_CETUS!)
   // );
   //  await getPoolId();
+  // await createPool();
   // await addLiquidity();
   // await removeLiquidity();
-  //await swapXToExactY(BigNumber(0.02 * DECIMALS));
-  // await swapExactXToY(BigNumber(0.02 * DECIMALS_SUI));
-  //await swapXToExactY(BigNumber(1000000));
+  //await swapXToExactY("0.02");
+  // await swapExactXToY("0.02");
+  //await swapXToExactY("1");
 
   // transfer
   await transfer();
@@ -63,6 +61,22 @@ async function main() {
 //   }
 // }
 
+// fails with INVALID_PARAMS unless the deployed router::create_pool is public
+async function createPool() {
+  const txResponse = await sdk.createPoolUi(keypair, {
+    typeX: process.env.COIN_TYPE_PEPE!,
+    typeY: process.env.COIN_TYPE_WSOL!,
+    amountX: "1000",
+    amountY: "10",
+    feeRate: 100,
+  });
+  if (txResponse.status) {
+    console.log(`create pool success, poolId:${txResponse.createdPoolId}`);
+  } else {
+    console.log("create pool failed:", txResponse.error);
+  }
+}
+
 async function getPoolId() {
   try {
     const poolId = await sdk.getPoolId(
@@ -77,12 +91,12 @@ async function getPoolId() {
 }
 
 async function addLiquidity() {
-  const txResponse = await sdk.addLiquidity(keypair, {
+  const txResponse = await sdk.addLiquidityUi(keypair, {
     pooId: process.env.POOL_OBJECT_SUI_USDC!,
     typeX: process.env.TYPE_SUI!,
     typeY: process.env.TYPE_USDC!,
-    amountX: BigNumber(0.1 * DECIMALS_SUI),
-    amountY: BigNumber(1.8 * DECIMALS),
+    amountX: "0.1",
+    amountY: "1.8",
     slippage: 0.03,
   });
   if (txResponse.status) {
@@ -107,7 +121,7 @@ async function removeLiquidity() {
   }
 }
 
-async function swapExactXToY(amountXIn: BigNumber) {
+async function swapExactXToY(amountXIn: string) {
   // typeX: process.env.TYPE_SUI!,
   // typeY: process.env.TYPE_USDC!,
 
@@ -115,7 +129,7 @@ async function swapExactXToY(amountXIn: BigNumber) {
   // typeX: process.env.TYPE_SUI!,
   // typeY: process.env.TYPE_USDC!,
 
-  const txResponse = await sdk.swapExactXToY(keypair, {
+  const txResponse = await sdk.swapExactXToYUi(keypair, {
     pooId: process.env.POOL_OBJECT_SUI_USDC!,
     typeX: process.env.TYPE_SUI!, //10 WSOL-> ? USDC  ;  x:USDC y:WSOL
     typeY: process.env.TYPE_USDC!,
@@ -129,8 +143,8 @@ async function swapExactXToY(amountXIn: BigNumber) {
   }
 }
 
-async function swapXToExactY(amountYOut: BigNumber) {
-  const txResponse = await sdk.swapXToExactY(keypair, {
+async function swapXToExactY(amountYOut: string) {
+  const txResponse = await sdk.swapXToExactYUi(keypair, {
     pooId: process.env.POOL_OBJECT_SUI_USDC!,
     typeX: process.env.TYPE_USDC!,
     typeY: process.env.TYPE_SUI!,
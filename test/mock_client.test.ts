@@ -0,0 +1,265 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+import { COIN_TYPE_SUI } from "../src/constants";
+import { DipCoinErrorCode, DipCoinSDK } from "../src";
+import { MockSuiClient } from "../src/testing";
+import { orderType, SwapMath } from "../src/utils";
+
+const A = normalizeStructTag("0xa::a::A");
+const B = normalizeStructTag("0xb::b::B");
+const C = normalizeStructTag("0xc::c::C");
+// Pools store their tokens in sorted order
+const [X, Y] = orderType(A, B);
+
+describe("MockSuiClient", () => {
+  let client: MockSuiClient;
+  let sdk: DipCoinSDK;
+  let keypair: Ed25519Keypair;
+  let address: string;
+  let pooId: string;
+
+  const balance = async (coinType: string) =>
+    BigInt(
+      (await client.getBalance({ owner: address, coinType })).totalBalance
+    );
+
+  beforeEach(async () => {
+    client = new MockSuiClient();
+    sdk = new DipCoinSDK(client.sdkOptions);
+    keypair = new Ed25519Keypair();
+    address = keypair.getPublicKey().toSuiAddress();
+    // SUI only pays gas, so the pools trade other tokens and balances stay exact
+    client.mint(address, COIN_TYPE_SUI, "100000000000");
+    client.mint(address, A, "100000000000");
+    client.mint(address, B, "100000000000");
+    client.mint(address, C, "100000000000");
+
+    const result = await sdk.createPool(keypair, {
+      typeX: X,
+      typeY: Y,
+      amountX: "10000000000",
+      amountY: "20000000000",
+      feeRate: 30,
+    });
+    expect(result.status).toBe(true);
+    pooId = await sdk.getPoolId(X, Y);
+    expect(result.createdPoolId).toBe(pooId);
+  });
+
+  it("creates pools with the deposited reserves", async () => {
+    const { data: pool } = await sdk.getPool(pooId);
+    expect(pool?.bal_x.toString()).toBe("10000000000");
+    expect(pool?.bal_y.toString()).toBe("20000000000");
+    expect(await balance(Y)).toBe(BigInt(80000000000));
+
+    const result = await sdk.createPool(keypair, {
+      typeX: X,
+      typeY: Y,
+      amountX: "10000000000",
+      amountY: "20000000000",
+      feeRate: 30,
+    });
+    expect(result.status).toBe(false);
+  });
+
+  it("adds and removes liquidity", async () => {
+    const { data: before } = await sdk.getPool(pooId);
+    const added = await sdk.addLiquidity(keypair, {
+      pooId,
+      typeX: X,
+      typeY: Y,
+      amountX: "1000000000",
+      amountY: "2000000000",
+    });
+    expect(added.status).toBe(true);
+    expect(added.events?.map((event) => event.type)).toEqual(["addLiquidity"]);
+
+    const { data: after } = await sdk.getPool(pooId);
+    expect(BigInt(after!.lp_supply) > BigInt(before!.lp_supply)).toBe(true);
+
+    const removed = await sdk.removeLiquidity(keypair, {
+      pooId,
+      typeX: X,
+      typeY: Y,
+      removeLpAmount: "1000000",
+    });
+    expect(removed.status).toBe(true);
+    const { data: final } = await sdk.getPool(pooId);
+    expect(BigInt(final!.lp_supply)).toBe(
+      BigInt(after!.lp_supply) - BigInt(1000000)
+    );
+  });
+
+  it("swaps with the constant product", async () => {
+    const before = await balance(Y);
+    const result = await sdk.swapExactXToY(keypair, {
+      pooId,
+      typeX: X,
+      typeY: Y,
+      amountIn: "1000000",
+    });
+    expect(result.status).toBe(true);
+    const [event] = result.events ?? [];
+    expect(event?.type).toBe("swap");
+    const amountOut = SwapMath.getAmountOut(
+      BigNumber(30),
+      BigNumber(1000000),
+      BigNumber(10000000000),
+      BigNumber(20000000000)
+    );
+    expect(event?.type === "swap" && event.amountYOut).toEqual(amountOut);
+    expect((await balance(Y)) - before).toBe(BigInt(amountOut.toFixed()));
+  });
+
+  it("routes multi-hop swaps through a shared token", async () => {
+    await sdk.createPool(keypair, {
+      typeX: B,
+      typeY: C,
+      amountX: "10000000000",
+      amountY: "5000000000",
+      feeRate: 30,
+    });
+
+    const beforeIn = await balance(A);
+    const exactIn = await sdk.multiHopSwapExactInSequential(keypair, {
+      typeIn: A,
+      typeOut: C,
+      amountIn: "1000000000",
+      slippage: 0.01,
+    });
+    expect(exactIn.status).toBe(true);
+    expect(exactIn.steps).toHaveLength(2);
+    expect(beforeIn - (await balance(A))).toBe(BigInt(1000000000));
+
+    const beforeOut = await balance(C);
+    const exactOut = await sdk.multiHopSwapExactOutSequential(keypair, {
+      typeIn: A,
+      typeOut: C,
+      amountOut: "100000000",
+      slippage: 0.01,
+    });
+    expect(exactOut.status).toBe(true);
+    expect((await balance(C)) - beforeOut).toBe(BigInt(100000000));
+  });
+
+  it("zaps a single token in and out of a pool", async () => {
+    const { data: before } = await sdk.getPool(pooId);
+    const zapIn = await sdk.zapInSequential(keypair, {
+      pooId,
+      typeX: A,
+      typeY: B,
+      amountIn: "1000000000",
+    });
+    expect(zapIn.status).toBe(true);
+    const events = zapIn.steps.flatMap((step) => step.events ?? []);
+    expect(events.map((event) => event.type)).toEqual(["swap", "addLiquidity"]);
+    const { data: pool } = await sdk.getPool(pooId);
+    expect(BigInt(pool!.lp_supply) > BigInt(before!.lp_supply)).toBe(true);
+
+    const balanceBefore = await balance(A);
+    const zapOut = await sdk.zapOutSequential(keypair, {
+      pooId,
+      typeX: X,
+      typeY: Y,
+      removeLpAmount: "100000000",
+      typeOut: A,
+    });
+    expect(zapOut.status).toBe(true);
+    expect((await balance(A)) > balanceBefore).toBe(true);
+  });
+
+  it("executes composed transactions", async () => {
+    const tx = new Transaction();
+    const composer = sdk.compose(tx, address);
+    const coinIn = await composer.coin(A, "8000000000");
+    const coinX = await composer.coin(A, "8000000000");
+    const coinY = await composer.coin(B, "1000000000");
+    composer.swapExactIn({
+      pooId,
+      typeX: A,
+      typeY: B,
+      coinIn,
+      amountOutMin: "0",
+    });
+    composer.addLiquidity({
+      pooId,
+      typeX: A,
+      typeY: B,
+      coinX,
+      coinY,
+      coinXMin: "0",
+      coinYMin: "0",
+    });
+
+    const result = await sdk.executeTransaction(keypair, tx);
+    expect(result.status).toBe(true);
+    expect(result.events?.map((event) => event.type)).toEqual([
+      "swap",
+      "addLiquidity",
+    ]);
+  });
+
+  describe("simulation", () => {
+    it("dry runs without changing state", async () => {
+      const before = await balance(Y);
+      const result = await sdk.swapExactXToY(
+        keypair,
+        { pooId, typeX: X, typeY: Y, amountIn: "1000000" },
+        { dryRun: true }
+      );
+      expect(result.status).toBe(true);
+      expect(result.simulation?.events.map((event) => event.type)).toEqual([
+        "swap",
+      ]);
+      expect(await balance(Y)).toBe(before);
+    });
+
+    it("rejects unused values without drop", async () => {
+      const tx = new Transaction();
+      tx.splitCoins(tx.gas, [tx.pure.u64(5)]);
+      const result = await sdk.executeTransaction(keypair, tx, {
+        dryRun: true,
+      });
+      expect(result.status).toBe(false);
+      expect(result.error).toContain("UnusedValueWithoutDrop");
+    });
+
+    it("reports a paused protocol before signing", async () => {
+      client.engine.setPaused(true);
+      const result = await sdk.swapExactXToY(keypair, {
+        pooId,
+        typeX: X,
+        typeY: Y,
+        amountIn: "1000000",
+      });
+      expect(result.status).toBe(false);
+      expect(result.errorCode).toBe(DipCoinErrorCode.ProtocolPaused);
+      expect(result.txId).toBe("");
+    });
+
+    it("decodes aborts of router calls", async () => {
+      const tx = new Transaction();
+      const composer = sdk.compose(tx, address);
+      composer.swapExactIn({
+        pooId,
+        typeX: X,
+        typeY: Y,
+        coinIn: await composer.coin(X, "1000000"),
+        amountOutMin: "0",
+      });
+      client.engine.setPaused(true);
+
+      const result = await sdk.executeTransaction(keypair, tx, {
+        dryRun: true,
+      });
+      expect(result.status).toBe(false);
+      expect(result.errorCode).toBe(DipCoinErrorCode.MoveAbort);
+      expect(result.simulation?.abort?.module).toBe("router");
+    });
+  });
+});
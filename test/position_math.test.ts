@@ -0,0 +1,101 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { PositionMath } from "../src/analytics";
+import { InvalidParamsError } from "../src/errors";
+import { LpEntrySnapshot, Pool } from "../src/types";
+
+const snapshot: LpEntrySnapshot = {
+  amountX: BigNumber(100),
+  amountY: BigNumber(400),
+  lpAmount: BigNumber(200),
+  reserveX: BigNumber(1000),
+  reserveY: BigNumber(4000),
+};
+
+function pool(reserveX: number, reserveY: number, lpSupply: number): Pool {
+  return {
+    id: "0x1",
+    bal_x: BigInt(reserveX),
+    bal_y: BigInt(reserveY),
+    fee_bal_x: BigInt(0),
+    fee_bal_y: BigInt(0),
+    lp_supply: BigInt(lpSupply),
+    fee_rate: BigInt(30),
+    min_liquidity: BigInt(1000),
+    min_add_liquidity_lp_amount: BigInt(1000),
+  };
+}
+
+const closeTo = (value: BigNumber, expected: number) =>
+  expect(value.toNumber()).toBeCloseTo(expected, 6);
+
+describe("PositionMath", () => {
+  it("getImpermanentLoss matches the constant product formula", () => {
+    expect(PositionMath.getImpermanentLoss(1).toNumber()).toBe(0);
+    closeTo(PositionMath.getImpermanentLoss(4), -0.2);
+    closeTo(PositionMath.getImpermanentLoss(2), (2 * Math.SQRT2) / 3 - 1);
+  });
+
+  describe("calcPnl", () => {
+    it("is flat against an unchanged pool", () => {
+      const pnl = PositionMath.calcPnl(snapshot, pool(1000, 4000, 2000));
+      expect(pnl.positionValue).toEqual(BigNumber(800));
+      expect(pnl.entryValue).toEqual(BigNumber(800));
+      expect(pnl.netPnl.toNumber()).toBe(0);
+      expect(pnl.entryPnl.toNumber()).toBe(0);
+      expect(pnl.feesEarned.toNumber()).toBe(0);
+    });
+
+    it("attributes growth of the constant product to fees", () => {
+      // Same price, reserves 1% larger for the same LP supply
+      const pnl = PositionMath.calcPnl(snapshot, pool(1010, 4040, 2000));
+      closeTo(pnl.feesEarned, 8);
+      closeTo(pnl.impermanentLoss, 0);
+      closeTo(pnl.netPnl, 8);
+      closeTo(pnl.entryPnl, 8);
+    });
+
+    it("values the position in token X", () => {
+      const pnl = PositionMath.calcPnl(snapshot, pool(1000, 4000, 2000), "x");
+      expect(pnl.quote).toBe("x");
+      expect(pnl.positionValue).toEqual(BigNumber(200));
+      expect(pnl.entryValue).toEqual(BigNumber(200));
+    });
+
+    it("rejects empty pools", () => {
+      expect(() => PositionMath.calcPnl(snapshot, pool(0, 0, 0))).toThrow(
+        InvalidParamsError
+      );
+    });
+  });
+
+  describe("simulatePriceChange", () => {
+    it("returns the impermanent loss of the scenario", () => {
+      const pnl = PositionMath.simulatePriceChange(snapshot, 1);
+      closeTo(pnl.price, 8);
+      closeTo(pnl.impermanentLoss, (2 * Math.SQRT2) / 3 - 1);
+      closeTo(pnl.holdValue, 1200);
+      closeTo(pnl.positionValue, 800 * Math.SQRT2);
+      // Against the entry value, the position gained from the price move
+      closeTo(pnl.entryPnl, 800 * Math.SQRT2 - 800);
+      expect(pnl.feesEarned.toNumber()).toBe(0);
+    });
+
+    it("rejects a price change of -100% or lower", () => {
+      expect(() => PositionMath.simulatePriceChange(snapshot, -1)).toThrow(
+        InvalidParamsError
+      );
+    });
+
+    it("rejects empty snapshots", () => {
+      expect(() =>
+        PositionMath.simulatePriceChange(
+          { ...snapshot, lpAmount: BigNumber(0) },
+          0.1
+        )
+      ).toThrow(InvalidParamsError);
+    });
+  });
+});
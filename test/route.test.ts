@@ -0,0 +1,153 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { COIN_TYPE_SUI } from "../src/constants";
+import { DipCoinErrorCode, DipCoinSDK, DipCoinSigner } from "../src";
+import { MockSuiClient } from "../src/testing";
+
+const A = normalizeStructTag("0xa::a::A");
+const B = normalizeStructTag("0xb::b::B");
+const C = normalizeStructTag("0xc::c::C");
+const D = normalizeStructTag("0xd::d::D");
+
+describe("sequential multi-hop swaps", () => {
+  let client: MockSuiClient;
+  let sdk: DipCoinSDK;
+  let keypair: Ed25519Keypair;
+  let address: string;
+
+  const balance = async (coinType: string) =>
+    BigInt(
+      (await client.getBalance({ owner: address, coinType })).totalBalance
+    );
+
+  beforeEach(async () => {
+    client = new MockSuiClient();
+    sdk = new DipCoinSDK(client.sdkOptions);
+    keypair = new Ed25519Keypair();
+    address = keypair.getPublicKey().toSuiAddress();
+    client.mint(address, COIN_TYPE_SUI, "100000000000");
+    for (const type of [A, B, C, D]) {
+      client.mint(address, type, "100000000000");
+    }
+    for (const [typeX, typeY] of [
+      [A, B],
+      [B, C],
+    ]) {
+      await sdk.createPool(keypair, {
+        typeX,
+        typeY,
+        amountX: "10000000000",
+        amountY: "20000000000",
+        feeRate: 30,
+      });
+    }
+  });
+
+  it("sells what each hop bought in the next hop", async () => {
+    const route = await sdk.findBestRoute({
+      typeIn: A,
+      typeOut: C,
+      amountIn: "1000000000",
+    });
+    const beforeA = await balance(A);
+    const beforeB = await balance(B);
+    const beforeC = await balance(C);
+
+    const result = await sdk.multiHopSwapExactInSequential(keypair, {
+      typeIn: A,
+      typeOut: C,
+      amountIn: "1000000000",
+      slippage: 0.01,
+    });
+    expect(result.status).toBe(true);
+    expect(result.partial).toBe(false);
+    expect(result.steps).toHaveLength(2);
+    expect(result.txId).toBe(result.steps[1].txId);
+    expect(beforeA - (await balance(A))).toBe(BigInt(1000000000));
+    // The intermediate token is sold entirely
+    expect(await balance(B)).toBe(beforeB);
+    expect((await balance(C)) - beforeC).toBe(
+      BigInt(route.data!.amountOut.toFixed())
+    );
+  });
+
+  it("buys the exact output amount", async () => {
+    const beforeC = await balance(C);
+    const result = await sdk.multiHopSwapExactOutSequential(keypair, {
+      typeIn: A,
+      typeOut: C,
+      amountOut: "100000000",
+      slippage: 0.01,
+    });
+    expect(result.status).toBe(true);
+    expect(result.steps).toHaveLength(2);
+    expect((await balance(C)) - beforeC).toBe(BigInt(100000000));
+  });
+
+  it("executes single-hop routes as one transaction", async () => {
+    const result = await sdk.multiHopSwapExactInSequential(keypair, {
+      typeIn: A,
+      typeOut: B,
+      amountIn: "1000000",
+    });
+    expect(result.status).toBe(true);
+    expect(result.steps).toHaveLength(1);
+  });
+
+  it("only simulates the first hop in dry-run mode", async () => {
+    const beforeA = await balance(A);
+    const result = await sdk.multiHopSwapExactInSequential(
+      keypair,
+      { typeIn: A, typeOut: C, amountIn: "1000000000" },
+      { dryRun: true }
+    );
+    expect(result.status).toBe(true);
+    expect(result.partial).toBe(false);
+    expect(result.steps).toHaveLength(1);
+    expect(result.simulation?.status).toBe(true);
+    expect(await balance(A)).toBe(beforeA);
+  });
+
+  it("reports a partial route when a later hop fails", async () => {
+    const signer: DipCoinSigner = {
+      getAddress: async () => address,
+      signTransaction: (bytes) => keypair.signTransaction(bytes),
+      executeTransaction: async (tx) => {
+        const { digest } = await client.signAndExecuteTransaction({
+          transaction: tx,
+          signer: keypair,
+        });
+        // The protocol is paused between the hops
+        client.engine.setPaused(true);
+        return { digest };
+      },
+    };
+    const beforeB = await balance(B);
+
+    const result = await sdk.multiHopSwapExactInSequential(signer, {
+      typeIn: A,
+      typeOut: C,
+      amountIn: "1000000000",
+    });
+    expect(result.status).toBe(false);
+    expect(result.partial).toBe(true);
+    expect(result.steps.map((step) => step.status)).toEqual([true, false]);
+    expect(result.errorCode).toBe(DipCoinErrorCode.MoveAbort);
+    // The first hop is not rolled back
+    expect((await balance(B)) > beforeB).toBe(true);
+  });
+
+  it("reports missing routes", async () => {
+    const result = await sdk.multiHopSwapExactInSequential(keypair, {
+      typeIn: A,
+      typeOut: D,
+      amountIn: "1000000",
+    });
+    expect(result.errorCode).toBe(DipCoinErrorCode.NoRoute);
+    expect(result.steps).toEqual([]);
+    expect(result.partial).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { SwapMath } from "../src/utils";
+
+describe("SwapMath", () => {
+  const feeRate = BigNumber(30);
+  const reserveX = BigNumber(1000000);
+  const reserveY = BigNumber(2000000);
+
+  describe("getAmountOut", () => {
+    it("charges the fee on the input", () => {
+      // 1000 * 0.997 * 2000000 / (1000000 + 997) = 1992.01...
+      expect(
+        SwapMath.getAmountOut(feeRate, BigNumber(1000), reserveX, reserveY)
+      ).toEqual(BigNumber(1992));
+    });
+
+    it("rejects empty inputs and reserves", () => {
+      expect(() =>
+        SwapMath.getAmountOut(feeRate, BigNumber(0), reserveX, reserveY)
+      ).toThrow("Zero amount");
+      expect(() =>
+        SwapMath.getAmountOut(feeRate, BigNumber(1), BigNumber(0), reserveY)
+      ).toThrow("Reserves empty");
+      expect(() =>
+        SwapMath.getAmountOut(BigNumber(2001), BigNumber(1), reserveX, reserveY)
+      ).toThrow("Invalid fee rate");
+    });
+  });
+
+  describe("getAmountIn", () => {
+    it("returns the smallest input buying the output", () => {
+      const amountIn = SwapMath.getAmountIn(
+        feeRate,
+        BigNumber(1992),
+        reserveX,
+        reserveY
+      );
+      expect(
+        SwapMath.getAmountOut(feeRate, amountIn, reserveX, reserveY).gte(1992)
+      ).toBe(true);
+      expect(
+        SwapMath.getAmountOut(
+          feeRate,
+          amountIn.minus(1),
+          reserveX,
+          reserveY
+        ).lt(1992)
+      ).toBe(true);
+    });
+  });
+
+  describe("calcOptimalCoinValues", () => {
+    it("keeps the desired amounts of an empty pool", () => {
+      expect(
+        SwapMath.calcOptimalCoinValues(
+          BigNumber(5),
+          BigNumber(7),
+          BigNumber(0),
+          BigNumber(0)
+        )
+      ).toEqual([BigNumber(5), BigNumber(7)]);
+    });
+
+    it("scales down the token in excess", () => {
+      expect(
+        SwapMath.calcOptimalCoinValues(
+          BigNumber(100),
+          BigNumber(100),
+          reserveX,
+          reserveY
+        )
+      ).toEqual([BigNumber(50), BigNumber(100)]);
+      expect(
+        SwapMath.calcOptimalCoinValues(
+          BigNumber(100),
+          BigNumber(500),
+          reserveX,
+          reserveY
+        )
+      ).toEqual([BigNumber(100), BigNumber(200)]);
+    });
+  });
+
+  describe("getExpectedLiquidityAmount", () => {
+    it("locks the minimum liquidity of a new pool", () => {
+      expect(
+        SwapMath.getExpectedLiquidityAmount(
+          BigNumber(4000000),
+          BigNumber(1000000),
+          BigNumber(0),
+          BigNumber(0),
+          BigNumber(0)
+        )
+      ).toEqual(BigNumber(1999000));
+    });
+
+    it("mints in proportion to the smaller contribution", () => {
+      expect(
+        SwapMath.getExpectedLiquidityAmount(
+          BigNumber(10000),
+          BigNumber(30000),
+          reserveX,
+          reserveY,
+          BigNumber(1000000)
+        )
+      ).toEqual(BigNumber(10000));
+    });
+  });
+
+  it("getRemoveLiquidityAmounts withdraws the LP share of both reserves", () => {
+    expect(
+      SwapMath.getRemoveLiquidityAmounts(
+        BigNumber(1000),
+        reserveX,
+        reserveY,
+        BigNumber(100000)
+      )
+    ).toEqual([BigNumber(10000), BigNumber(20000)]);
+  });
+
+  it("getFeeToTeam takes a fifth of the swap fee", () => {
+    expect(SwapMath.getFeeToTeam(feeRate, BigNumber(100000))).toEqual(
+      BigNumber(60)
+    );
+  });
+
+  it("getZapInSwapAmount leaves both halves at the pool ratio", () => {
+    const amountIn = BigNumber(100000);
+    const swapIn = SwapMath.getZapInSwapAmount(feeRate, amountIn, reserveX);
+    const swapOut = SwapMath.getAmountOut(feeRate, swapIn, reserveX, reserveY);
+    const ratioLeft = amountIn.minus(swapIn).dividedBy(swapOut);
+    const ratioPool = reserveX.plus(swapIn).dividedBy(reserveY.minus(swapOut));
+    expect(ratioLeft.minus(ratioPool).abs().lt(0.0001)).toBe(true);
+  });
+
+  it("mulDiv rounds down and rejects u64 overflow", () => {
+    expect(SwapMath.mulDiv(BigNumber(7), BigNumber(3), BigNumber(2))).toEqual(
+      BigNumber(10)
+    );
+    expect(() =>
+      SwapMath.mulDiv(
+        BigNumber("18446744073709551615"),
+        BigNumber(2),
+        BigNumber(1)
+      )
+    ).toThrow("U64 overflow");
+    expect(() =>
+      SwapMath.mulDiv(BigNumber(1), BigNumber(1), BigNumber(0))
+    ).toThrow("Division by zero");
+  });
+});
@@ -0,0 +1,126 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { PoolInfo } from "../src/types";
+import { SwapMath, SwapRouter } from "../src/utils";
+
+const A = normalizeStructTag("0xa::a::A");
+const B = normalizeStructTag("0xb::b::B");
+const C = normalizeStructTag("0xc::c::C");
+const D = normalizeStructTag("0xd::d::D");
+
+function pool(
+  poolAddress: string,
+  typeX: string,
+  typeY: string,
+  reserveX: number,
+  reserveY: number
+): PoolInfo {
+  return {
+    id: poolAddress,
+    poolAddress,
+    lpName: `LP-${poolAddress}`,
+    typeX,
+    typeY,
+    bal_x: BigInt(reserveX),
+    bal_y: BigInt(reserveY),
+    fee_bal_x: BigInt(0),
+    fee_bal_y: BigInt(0),
+    lp_supply: BigInt(1000000),
+    fee_rate: BigInt(30),
+    min_liquidity: BigInt(1000),
+    min_add_liquidity_lp_amount: BigInt(1000),
+  };
+}
+
+describe("SwapRouter", () => {
+  // A/C is shallow, so A -> B -> C returns more than the direct pool
+  const pools = [
+    pool("0x1", A, B, 1000000, 1000000),
+    pool("0x2", B, C, 1000000, 1000000),
+    pool("0x3", A, C, 20000, 20000),
+    pool("0x4", C, D, 0, 0),
+  ];
+
+  it("buildGraph skips empty pools and links both directions", () => {
+    const graph = SwapRouter.buildGraph(pools);
+    expect(graph.get(A)?.map((edge) => edge.typeOut)).toEqual([B, C]);
+    expect(graph.get(C)?.map((edge) => edge.typeOut)).toEqual([B, A]);
+    expect(graph.has(D)).toBe(false);
+  });
+
+  describe("findBestExactInRoute", () => {
+    it("picks the route with the most output", () => {
+      const route = SwapRouter.findBestExactInRoute(
+        pools,
+        A,
+        C,
+        BigNumber(10000)
+      );
+      expect(route?.path).toEqual([A, B, C]);
+      expect(route?.hops.map((hop) => hop.poolId)).toEqual(["0x1", "0x2"]);
+
+      // Each hop sells what the previous one bought
+      const fee = BigNumber(30);
+      const first = SwapMath.getAmountOut(
+        fee,
+        BigNumber(10000),
+        BigNumber(1000000),
+        BigNumber(1000000)
+      );
+      expect(route?.hops[1].amountIn).toEqual(first);
+      expect(route?.amountOut).toEqual(
+        SwapMath.getAmountOut(
+          fee,
+          first,
+          BigNumber(1000000),
+          BigNumber(1000000)
+        )
+      );
+    });
+
+    it("respects maxHops", () => {
+      const route = SwapRouter.findBestExactInRoute(
+        pools,
+        A,
+        C,
+        BigNumber(10000),
+        1
+      );
+      expect(route?.path).toEqual([A, C]);
+    });
+
+    it("returns null for unconnected tokens", () => {
+      expect(
+        SwapRouter.findBestExactInRoute(pools, A, D, BigNumber(10000))
+      ).toBeNull();
+    });
+  });
+
+  describe("findBestExactOutRoute", () => {
+    it("picks the route with the least input", () => {
+      const route = SwapRouter.findBestExactOutRoute(
+        pools,
+        A,
+        C,
+        BigNumber(10000)
+      );
+      expect(route?.path).toEqual([A, B, C]);
+      expect(route?.amountOut).toEqual(BigNumber(10000));
+      expect(route?.hops[0].amountOut).toEqual(route?.hops[1].amountIn);
+    });
+
+    it("skips pools that cannot provide the output", () => {
+      const route = SwapRouter.findBestExactOutRoute(
+        pools,
+        A,
+        C,
+        BigNumber(20000),
+        1
+      );
+      expect(route).toBeNull();
+    });
+  });
+});
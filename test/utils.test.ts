@@ -0,0 +1,50 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import BigNumber from "bignumber.js";
+import { InvalidParamsError } from "../src/errors";
+import { parseLpName, parseU64, toU64 } from "../src/utils";
+
+const MAX_U64 = "18446744073709551615";
+
+describe("parseU64", () => {
+  it("accepts every u64 representation", () => {
+    expect(parseU64("42")).toEqual(BigNumber(42));
+    expect(parseU64(BigInt(42))).toEqual(BigNumber(42));
+    expect(parseU64(BigNumber(42))).toEqual(BigNumber(42));
+    expect(parseU64(MAX_U64).toFixed()).toBe(MAX_U64);
+  });
+
+  it("rejects negative, fractional and out of range values", () => {
+    for (const value of ["-1", "1.5", "18446744073709551616", "abc"]) {
+      expect(() => parseU64(value, "amountIn")).toThrow(InvalidParamsError);
+    }
+    expect(() => parseU64("-1", "amountIn")).toThrow(/^amountIn must be/);
+  });
+});
+
+describe("toU64", () => {
+  it("keeps precision above 2^53", () => {
+    expect(toU64(MAX_U64)).toBe(BigInt(MAX_U64));
+    expect(toU64(BigNumber("9007199254740993"))).toBe(
+      BigInt("9007199254740993")
+    );
+  });
+
+  it("rejects values outside the u64 range", () => {
+    expect(() => toU64("18446744073709551616")).toThrow(InvalidParamsError);
+  });
+});
+
+describe("parseLpName", () => {
+  it("restores the 0x prefixes", () => {
+    expect(parseLpName("LP-456::coin::USDC-789::coin::WSOL")).toEqual([
+      "0x456::coin::USDC",
+      "0x789::coin::WSOL",
+    ]);
+  });
+
+  it("rejects other names", () => {
+    expect(() => parseLpName("bogus")).toThrow(InvalidParamsError);
+  });
+});
@@ -0,0 +1,191 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+import { COIN_TYPE_SUI } from "../src/constants";
+import { DipCoinErrorCode, DipCoinSDK, DipCoinSigner } from "../src";
+import { MockSuiClient } from "../src/testing";
+import { getLpType, orderType } from "../src/utils";
+
+const A = normalizeStructTag("0xa::a::A");
+const B = normalizeStructTag("0xb::b::B");
+
+describe("zaps", () => {
+  let client: MockSuiClient;
+  let sdk: DipCoinSDK;
+  let keypair: Ed25519Keypair;
+  let address: string;
+  let pooId: string;
+  let lpType: string;
+
+  const balance = async (coinType: string) =>
+    BigInt(
+      (await client.getBalance({ owner: address, coinType })).totalBalance
+    );
+
+  // Executes like the keypair, then changes the engine state before the next step
+  const interruptingSigner = (interrupt: () => void): DipCoinSigner => ({
+    getAddress: async () => address,
+    signTransaction: (bytes) => keypair.signTransaction(bytes),
+    executeTransaction: async (tx) => {
+      const { digest } = await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+      });
+      interrupt();
+      return { digest };
+    },
+  });
+
+  beforeEach(async () => {
+    client = new MockSuiClient();
+    sdk = new DipCoinSDK(client.sdkOptions);
+    keypair = new Ed25519Keypair();
+    address = keypair.getPublicKey().toSuiAddress();
+    client.mint(address, COIN_TYPE_SUI, "100000000000");
+    client.mint(address, A, "100000000000");
+    client.mint(address, B, "100000000000");
+    await sdk.createPool(keypair, {
+      typeX: A,
+      typeY: B,
+      amountX: "10000000000",
+      amountY: "20000000000",
+      feeRate: 30,
+    });
+    pooId = await sdk.getPoolId(A, B);
+    [, , lpType] = getLpType(sdk.originalPackageId, A, B);
+  });
+
+  describe("zapInSequential", () => {
+    it("swaps part of the input and adds the rest as liquidity", async () => {
+      const beforeA = await balance(A);
+      const beforeB = await balance(B);
+      const beforeLp = await balance(lpType);
+
+      const result = await sdk.zapInSequential(keypair, {
+        pooId,
+        typeX: A,
+        typeY: B,
+        amountIn: "1000000000",
+        slippage: 0.01,
+      });
+      expect(result.status).toBe(true);
+      expect(result.partial).toBe(false);
+      expect(
+        result.steps.flatMap((step) => step.events ?? []).map((e) => e.type)
+      ).toEqual(["swap", "addLiquidity"]);
+
+      // Only rounding dust of the input is left over
+      const spentA = beforeA - (await balance(A));
+      expect(spentA <= BigInt(1000000000)).toBe(true);
+      expect(spentA > BigInt(999000000)).toBe(true);
+      expect((await balance(B)) - beforeB < BigInt(1000)).toBe(true);
+      expect((await balance(lpType)) > beforeLp).toBe(true);
+    });
+
+    it("only simulates the swap in dry-run mode", async () => {
+      const beforeA = await balance(A);
+      const result = await sdk.zapInSequential(
+        keypair,
+        { pooId, typeX: A, typeY: B, amountIn: "1000000000" },
+        { dryRun: true }
+      );
+      expect(result.status).toBe(true);
+      expect(result.steps).toHaveLength(1);
+      expect(result.simulation?.events.map((e) => e.type)).toEqual(["swap"]);
+      expect(await balance(A)).toBe(beforeA);
+    });
+
+    it("keeps the swapped tokens when the liquidity addition fails", async () => {
+      const beforeB = await balance(B);
+      const beforeLp = await balance(lpType);
+      const result = await sdk.zapInSequential(
+        interruptingSigner(() => client.engine.setPaused(true)),
+        {
+          pooId,
+          typeX: A,
+          typeY: B,
+          amountIn: "1000000000",
+        }
+      );
+      expect(result.status).toBe(false);
+      expect(result.partial).toBe(true);
+      expect(result.steps.map((step) => step.status)).toEqual([true, false]);
+      expect((await balance(B)) > beforeB).toBe(true);
+      expect(await balance(lpType)).toBe(beforeLp);
+    });
+
+    it("rejects inputs too small to zap", async () => {
+      const result = await sdk.zapInSequential(keypair, {
+        pooId,
+        typeX: A,
+        typeY: B,
+        amountIn: "1",
+      });
+      expect(result.errorCode).toBe(DipCoinErrorCode.LiquidityTooLow);
+      expect(result.steps).toEqual([]);
+    });
+  });
+
+  describe("zapOutSequential", () => {
+    const zapOutParams = () => ({
+      pooId,
+      typeX: A,
+      typeY: B,
+      removeLpAmount: "1000000000",
+      typeOut: A,
+      slippage: 0.01,
+    });
+
+    it("removes liquidity and swaps the other token back", async () => {
+      const quote = await sdk.quoteZapOut(zapOutParams());
+      const beforeA = await balance(A);
+      const beforeB = await balance(B);
+      const beforeLp = await balance(lpType);
+
+      const result = await sdk.zapOutSequential(keypair, zapOutParams());
+      expect(result.status).toBe(true);
+      expect(result.partial).toBe(false);
+      expect(
+        result.steps.flatMap((step) => step.events ?? []).map((e) => e.type)
+      ).toEqual(["removeLiquidity", "swap"]);
+      expect(beforeLp - (await balance(lpType))).toBe(BigInt(1000000000));
+      expect(await balance(B)).toBe(beforeB);
+      expect((await balance(A)) - beforeA).toBe(
+        BigInt(quote.data!.amountOut.toFixed())
+      );
+    });
+
+    it("applies slippage to the combined output only", async () => {
+      const [typeX] = orderType(A, B);
+      // Another trader sells B after the removal, so the swap buys less A
+      const signer = interruptingSigner(() =>
+        client.engine.swapExactIn(
+          pooId,
+          typeX === B,
+          BigNumber(2000000000),
+          BigNumber(0),
+          "swap_exact_x_to_y"
+        )
+      );
+      const beforeB = await balance(B);
+
+      const result = await sdk.zapOutSequential(signer, zapOutParams());
+      expect(result.steps.map((step) => step.status)).toEqual([true, false]);
+      expect(result.errorCode).toBe(DipCoinErrorCode.SlippageExceeded);
+      expect(result.partial).toBe(true);
+      // The removal is not rolled back
+      expect((await balance(B)) > beforeB).toBe(true);
+    });
+
+    it("rejects output tokens outside the pool", async () => {
+      const result = await sdk.zapOutSequential(keypair, {
+        ...zapOutParams(),
+        typeOut: COIN_TYPE_SUI,
+      });
+      expect(result.errorCode).toBe(DipCoinErrorCode.InvalidParams);
+    });
+  });
+});